@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { resolveClobRequest, forwardClobRequest, ClobProxyError, DEFAULT_CLOB_HOST } from './_endpoints.js';
+
+/**
+ * Read-only CLOB proxy: /api/clob-proxy/<endpoint>. See _endpoints.ts for
+ * the endpoints served and their parameters.
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const pathSegments = req.query.path;
+  const endpoint = Array.isArray(pathSegments) ? pathSegments.join('/') : (pathSegments || '');
+
+  // Everything but the catch-all segments is the endpoint's own query
+  const query = new URLSearchParams();
+  Object.entries(req.query).forEach(([key, value]) => {
+    if (key === 'path' || value === undefined) return;
+    (Array.isArray(value) ? value : [value]).forEach(v => query.append(key, v));
+  });
+
+  try {
+    const request = resolveClobRequest(req.method || 'GET', endpoint, query, req.body);
+    const { status, body } = await forwardClobRequest(request, process.env.CLOB_HOST || DEFAULT_CLOB_HOST);
+    return res.status(status).json(body);
+  } catch (error) {
+    if (error instanceof ClobProxyError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('CLOB proxy error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch from CLOB API',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * CLOB read endpoints the proxy forwards, and the checks on each. Shared by
+ * the Vercel function and the Vite dev server, so every CLOB read behaves
+ * the same under `npm run dev` and in production. Upstream requests are
+ * rebuilt from validated parameters only; nothing else is passed through.
+ */
+
+export const DEFAULT_CLOB_HOST = 'https://clob.polymarket.com';
+
+const MAX_BATCH = 100; // Tokens per batch /prices request
+const MAX_FIDELITY = 1440; // Minutes per price history point
+const TOKEN_ID = /^\d{1,100}$/;
+const CONDITION_ID = /^0x[0-9a-fA-F]{64}$/;
+const HISTORY_INTERVALS = ['1m', '1h', '6h', '1d', '1w', 'max'];
+
+// Single-token GETs that take only `token_id`
+const TOKEN_ENDPOINTS = ['book', 'midpoint', 'spread', 'tick-size', 'fee-rate'];
+
+/**
+ * A request the proxy refuses before it reaches the CLOB
+ */
+export class ClobProxyError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'ClobProxyError';
+  }
+}
+
+export interface ClobUpstreamRequest {
+  method: 'GET' | 'POST';
+  path: string; // Path and query, relative to the CLOB host
+  body?: string;
+}
+
+function tokenId(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !TOKEN_ID.test(value)) {
+    throw new ClobProxyError(400, `${field} must be a CLOB token ID`);
+  }
+  return value;
+}
+
+function side(value: unknown, field: string): 'BUY' | 'SELL' {
+  if (value !== 'BUY' && value !== 'SELL') {
+    throw new ClobProxyError(400, `${field} must be 'BUY' or 'SELL'`);
+  }
+  return value;
+}
+
+function integer(value: string | null, field: string, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+  const parsed = value !== null && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(parsed) || parsed < min || parsed > max) {
+    throw new ClobProxyError(400, `${field} must be an integer from ${min} to ${max}`);
+  }
+  return parsed;
+}
+
+function requireMethod(method: string, expected: 'GET' | 'POST', endpoint: string): void {
+  if (method !== expected) {
+    throw new ClobProxyError(405, `/${endpoint} only accepts ${expected}`);
+  }
+}
+
+function pricesHistoryQuery(query: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams({ market: tokenId(query.get('market'), 'market') });
+
+  const interval = query.get('interval');
+  if (interval !== null) {
+    if (!HISTORY_INTERVALS.includes(interval)) {
+      throw new ClobProxyError(400, `interval must be one of ${HISTORY_INTERVALS.join(', ')}`);
+    }
+    params.set('interval', interval);
+  } else {
+    const startTs = integer(query.get('startTs'), 'startTs', 0);
+    const endTs = integer(query.get('endTs'), 'endTs', 0);
+    if (endTs <= startTs) {
+      throw new ClobProxyError(400, 'endTs must be after startTs');
+    }
+    params.set('startTs', String(startTs));
+    params.set('endTs', String(endTs));
+  }
+
+  if (query.get('fidelity') !== null) {
+    params.set('fidelity', String(integer(query.get('fidelity'), 'fidelity', 1, MAX_FIDELITY)));
+  }
+  return params;
+}
+
+function pricesBody(body: unknown): string {
+  if (!Array.isArray(body) || body.length === 0 || body.length > MAX_BATCH) {
+    throw new ClobProxyError(400, `Body must be a list of 1 to ${MAX_BATCH} { token_id, side } entries`);
+  }
+  return JSON.stringify(body.map((entry, index) => {
+    const raw = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    return { token_id: tokenId(raw.token_id, `[${index}].token_id`), side: side(raw.side, `[${index}].side`) };
+  }));
+}
+
+/**
+ * Validate a proxied request. `endpoint` is the path after the proxy's base,
+ * e.g. `book` or `markets/0x...`. Throws ClobProxyError if it isn't one of
+ * the endpoints below or its parameters don't check out.
+ */
+export function resolveClobRequest(method: string, endpoint: string, query: URLSearchParams, body: unknown): ClobUpstreamRequest {
+  if (TOKEN_ENDPOINTS.includes(endpoint)) {
+    requireMethod(method, 'GET', endpoint);
+    const params = new URLSearchParams({ token_id: tokenId(query.get('token_id'), 'token_id') });
+    return { method: 'GET', path: `/${endpoint}?${params.toString()}` };
+  }
+
+  switch (endpoint) {
+    case 'price': {
+      requireMethod(method, 'GET', endpoint);
+      const params = new URLSearchParams({
+        token_id: tokenId(query.get('token_id'), 'token_id'),
+        side: side(query.get('side'), 'side'),
+      });
+      return { method: 'GET', path: `/price?${params.toString()}` };
+    }
+    case 'prices':
+      requireMethod(method, 'POST', endpoint);
+      return { method: 'POST', path: '/prices', body: pricesBody(body) };
+    case 'prices-history':
+      requireMethod(method, 'GET', endpoint);
+      return { method: 'GET', path: `/prices-history?${pricesHistoryQuery(query).toString()}` };
+  }
+
+  const market = endpoint.match(/^markets\/(.+)$/);
+  if (market) {
+    requireMethod(method, 'GET', endpoint);
+    if (!CONDITION_ID.test(market[1])) {
+      throw new ClobProxyError(400, 'Market must be a condition ID');
+    }
+    return { method: 'GET', path: `/markets/${market[1]}` };
+  }
+
+  throw new ClobProxyError(404, `Unsupported CLOB endpoint: /${endpoint}`);
+}
+
+/**
+ * Send a validated request to the CLOB and shape the answer for the browser
+ */
+export async function forwardClobRequest(request: ClobUpstreamRequest, host: string): Promise<{ status: number; body: unknown }> {
+  const response = await fetch(`${host}${request.path}`, {
+    method: request.method,
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': 'Mozilla/5.0',
+      ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: request.body,
+  });
+
+  const text = await response.text();
+  let data: unknown;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    data = text;
+  }
+
+  if (!response.ok) {
+    return {
+      status: response.status,
+      body: { error: `CLOB API returned ${response.status}`, status: response.status, details: data },
+    };
+  }
+  return { status: 200, body: data };
+}
@@ -0,0 +1,14 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import handler from './[...path].js';
+
+/**
+ * /api/clob-proxy?side=...&token_id=... without an endpoint path: the
+ * original price-only form, kept for existing callers
+ */
+export default async function priceHandler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  req.query = { ...req.query, path: 'price' };
+  return handler(req, res);
+}
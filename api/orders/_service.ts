@@ -0,0 +1,140 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ClobClient } from '@polymarket/clob-client';
+import type { ApiKeyCreds } from '@polymarket/clob-client';
+import { Wallet } from '@ethersproject/wallet';
+import { unwrap } from '../../src/clob-orders.js';
+import type { OrderLimits } from '../../src/trading-types.js';
+
+/**
+ * Shared by the /api/orders handlers (the leading underscore keeps Vercel
+ * from deploying this file as a function of its own).
+ *
+ * The signing key and API credentials live in server env vars only:
+ *   CLOB_PRIVATE_KEY       signer key (required)
+ *   CLOB_API_KEY, CLOB_API_SECRET, CLOB_API_PASSPHRASE
+ *                          L2 credentials; derived from the key when unset
+ *   CLOB_FUNDER_ADDRESS    proxy wallet holding the funds (optional)
+ *   CLOB_SIGNATURE_TYPE    0 EOA, 1 Magic/email proxy, 2 browser wallet proxy
+ *   CLOB_HOST              defaults to https://clob.polymarket.com
+ *   ORDER_SERVICE_TOKEN    bearer token every request must carry (required)
+ *   ORDER_MAX_SIZE         max shares per order (default 500)
+ *   ORDER_MAX_NOTIONAL     max USDC per order (default 100)
+ */
+
+const CHAIN_ID = 137; // Polygon
+const DEFAULT_HOST = 'https://clob.polymarket.com';
+const DEFAULT_MAX_SIZE = 500;
+const DEFAULT_MAX_NOTIONAL = 100;
+
+/**
+ * A request the service refuses, answered with `status` and `message`
+ */
+export class OrderServiceError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'OrderServiceError';
+  }
+}
+
+export function setCors(res: VercelResponse, methods: string): void {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', `${methods}, OPTIONS`);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check the request's `Authorization: Bearer <token>` against
+ * ORDER_SERVICE_TOKEN. Without a configured token the service stays closed.
+ */
+export function authorize(req: VercelRequest): void {
+  const expected = process.env.ORDER_SERVICE_TOKEN;
+  if (!expected) {
+    throw new OrderServiceError(503, 'Order service is not configured');
+  }
+
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  // Compare digests so the comparison takes the same time whatever the length
+  if (!token || !timingSafeEqual(sha256(token), sha256(expected))) {
+    throw new OrderServiceError(401, 'Invalid or missing order service token');
+  }
+}
+
+function positiveEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getLimits(): OrderLimits {
+  return {
+    maxSize: positiveEnv('ORDER_MAX_SIZE', DEFAULT_MAX_SIZE),
+    maxNotional: positiveEnv('ORDER_MAX_NOTIONAL', DEFAULT_MAX_NOTIONAL),
+  };
+}
+
+interface TradingClient {
+  client: ClobClient;
+  address: string;
+}
+
+// Kept across invocations of a warm function, so credentials are derived once
+let tradingClient: Promise<TradingClient> | null = null;
+
+async function createTradingClient(): Promise<TradingClient> {
+  const privateKey = process.env.CLOB_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new OrderServiceError(503, 'Order service is not configured');
+  }
+
+  const host = process.env.CLOB_HOST || DEFAULT_HOST;
+  const signer = new Wallet(privateKey);
+  const address = await signer.getAddress();
+
+  let creds: ApiKeyCreds;
+  if (process.env.CLOB_API_KEY && process.env.CLOB_API_SECRET && process.env.CLOB_API_PASSPHRASE) {
+    creds = {
+      key: process.env.CLOB_API_KEY,
+      secret: process.env.CLOB_API_SECRET,
+      passphrase: process.env.CLOB_API_PASSPHRASE,
+    };
+  } else {
+    creds = unwrap(await new ClobClient(host, CHAIN_ID, signer).createOrDeriveApiKey(), 'API key derivation');
+    if (!creds.key) {
+      throw new Error('API key derivation failed: no key returned');
+    }
+  }
+
+  const signatureType = process.env.CLOB_SIGNATURE_TYPE ? parseInt(process.env.CLOB_SIGNATURE_TYPE, 10) : undefined;
+  const client = new ClobClient(host, CHAIN_ID, signer, creds, signatureType, process.env.CLOB_FUNDER_ADDRESS || undefined);
+  return { client, address };
+}
+
+export function getTradingClient(): Promise<TradingClient> {
+  if (!tradingClient) {
+    tradingClient = createTradingClient().catch(error => {
+      tradingClient = null; // Try again on the next request
+      throw error;
+    });
+  }
+  return tradingClient;
+}
+
+/**
+ * Answer a failed request. Refusals keep their status; anything else is the
+ * exchange (or our credentials) failing, reported as a 502.
+ */
+export function sendError(res: VercelResponse, error: unknown): VercelResponse {
+  if (error instanceof OrderServiceError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error('Order service error:', error);
+  return res.status(502).json({
+    error: 'Exchange request failed',
+    message: error instanceof Error ? error.message : 'Unknown error',
+  });
+}
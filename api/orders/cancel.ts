@@ -0,0 +1,40 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { unwrap } from '../../src/clob-orders.js';
+import { authorize, getTradingClient, sendError, setCors, OrderServiceError } from './_service.js';
+
+/**
+ * POST /api/orders/cancel
+ *
+ * Body: { orderId } to cancel one order, or { all: true } to cancel every
+ * open order of the service's account. Answers { canceled: string[] }.
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  setCors(res, 'POST');
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    authorize(req);
+    const body = (typeof req.body === 'object' && req.body !== null ? req.body : {}) as Record<string, unknown>;
+    const all = body.all === true;
+    if (!all && (typeof body.orderId !== 'string' || !body.orderId)) {
+      throw new OrderServiceError(400, 'Missing orderId (or all: true)');
+    }
+
+    const { client } = await getTradingClient();
+    const response = all
+      ? unwrap(await client.cancelAll(), 'Cancel all')
+      : unwrap(await client.cancelOrder({ orderID: body.orderId as string }), 'Cancel');
+
+    return res.status(200).json({ canceled: Array.isArray(response?.canceled) ? response.canceled : [] });
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
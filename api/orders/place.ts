@@ -0,0 +1,154 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { Side, OrderType } from '@polymarket/clob-client';
+import { toOrderResult } from '../../src/clob-orders.js';
+import type { TimeInForce } from '../../src/trading-types.js';
+import { authorize, getLimits, getTradingClient, sendError, setCors, OrderServiceError } from './_service.js';
+
+/**
+ * POST /api/orders/place
+ *
+ * Body: { tokenId, side: 'BUY' | 'SELL', orderType: 'limit', price, size, timeInForce?, expiration? }
+ *    or { tokenId, side, orderType: 'market', amount, timeInForce?, price? }
+ *
+ * Limit orders have `price` 0-1 and `size` in shares; they are GTC, or GTD
+ * with `expiration` in unix seconds. Market orders have `amount` in USDC on a
+ * BUY, shares on a SELL; they are FOK or FAK, limited to `price` when given.
+ * Every order is checked against ORDER_MAX_SIZE and ORDER_MAX_NOTIONAL
+ * before it is signed.
+ */
+
+interface PlaceOrderRequest {
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  orderType: 'limit' | 'market';
+  timeInForce: TimeInForce;
+  price?: number;
+  size?: number;
+  amount?: number;
+  expiration?: number;
+}
+
+function positiveNumber(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+    throw new OrderServiceError(400, `${field} must be a positive number`);
+  }
+  return value;
+}
+
+function price(value: unknown): number {
+  const parsed = positiveNumber(value, 'price');
+  if (parsed >= 1) {
+    throw new OrderServiceError(400, 'price must be between 0 and 1');
+  }
+  return parsed;
+}
+
+function timeInForce<T extends TimeInForce>(value: unknown, allowed: T[]): T {
+  const parsed = value === undefined ? allowed[0] : value;
+  if (!allowed.includes(parsed as T)) {
+    throw new OrderServiceError(400, `timeInForce must be ${allowed.join(' or ')} for this order type`);
+  }
+  return parsed as T;
+}
+
+function parseRequest(body: unknown): PlaceOrderRequest {
+  const raw = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+
+  if (typeof raw.tokenId !== 'string' || !/^\d+$/.test(raw.tokenId)) {
+    throw new OrderServiceError(400, 'tokenId must be a CLOB token ID');
+  }
+  if (raw.side !== 'BUY' && raw.side !== 'SELL') {
+    throw new OrderServiceError(400, "side must be 'BUY' or 'SELL'");
+  }
+
+  if (raw.orderType === 'limit') {
+    const tif = timeInForce(raw.timeInForce, ['GTC', 'GTD']);
+    let expiration: number | undefined;
+    if (tif === 'GTD') {
+      expiration = positiveNumber(raw.expiration, 'expiration');
+      if (!Number.isInteger(expiration) || expiration <= Math.floor(Date.now() / 1000)) {
+        throw new OrderServiceError(400, 'expiration must be a future unix time in seconds');
+      }
+    }
+    return {
+      tokenId: raw.tokenId,
+      side: raw.side,
+      orderType: 'limit',
+      timeInForce: tif,
+      price: price(raw.price),
+      size: positiveNumber(raw.size, 'size'),
+      expiration,
+    };
+  }
+  if (raw.orderType === 'market') {
+    return {
+      tokenId: raw.tokenId,
+      side: raw.side,
+      orderType: 'market',
+      timeInForce: timeInForce(raw.timeInForce, ['FOK', 'FAK']),
+      amount: positiveNumber(raw.amount, 'amount'),
+      price: raw.price !== undefined ? price(raw.price) : undefined,
+    };
+  }
+  throw new OrderServiceError(400, "orderType must be 'limit' or 'market'");
+}
+
+/**
+ * Refuse orders over the configured caps. A market BUY's `amount` is its
+ * notional; a market SELL is checked on size alone, so a position opened
+ * within the caps can always be closed.
+ */
+function checkLimits(order: PlaceOrderRequest): void {
+  const { maxSize, maxNotional } = getLimits();
+
+  const size = order.orderType === 'limit' ? order.size!
+    : order.side === 'SELL' ? order.amount!
+    : null;
+  const notional = order.orderType === 'limit' ? order.price! * order.size!
+    : order.side === 'BUY' ? order.amount!
+    : null;
+
+  if (size !== null && size > maxSize) {
+    throw new OrderServiceError(422, `Order size ${size} exceeds the ${maxSize} share limit`);
+  }
+  if (notional !== null && notional > maxNotional) {
+    throw new OrderServiceError(422, `Order notional $${notional.toFixed(2)} exceeds the $${maxNotional} limit`);
+  }
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  setCors(res, 'POST');
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    authorize(req);
+    const order = parseRequest(req.body);
+    checkLimits(order);
+
+    const { client } = await getTradingClient();
+    const side = order.side === 'BUY' ? Side.BUY : Side.SELL;
+    const response = order.orderType === 'limit'
+      ? await client.createAndPostOrder(
+        { tokenID: order.tokenId, price: order.price!, size: order.size!, side, expiration: order.expiration },
+        undefined,
+        order.timeInForce === 'GTD' ? OrderType.GTD : OrderType.GTC
+      )
+      : await client.createAndPostMarketOrder(
+        { tokenID: order.tokenId, amount: order.amount!, side, price: order.price },
+        undefined,
+        order.timeInForce === 'FAK' ? OrderType.FAK : OrderType.FOK
+      );
+
+    return res.status(200).json(toOrderResult(response));
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
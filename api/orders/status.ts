@@ -0,0 +1,52 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { unwrap, toOpenOrderInfo, toFills } from '../../src/clob-orders.js';
+import { authorize, getLimits, getTradingClient, sendError, setCors, OrderServiceError } from './_service.js';
+
+/**
+ * GET /api/orders/status
+ *
+ *   (no query)       { address, limits } of the signing account
+ *   ?orderId=...     { order } for one of the account's orders
+ *   ?fills=1         { fills } of the account, optionally &tokenId=... and
+ *                    &market=... (condition ID, to find maker fills on the
+ *                    complement of the taker's token)
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  setCors(res, 'GET');
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    authorize(req);
+    const { orderId, tokenId, market, fills } = req.query;
+    if (tokenId !== undefined && (typeof tokenId !== 'string' || !/^\d+$/.test(tokenId))) {
+      throw new OrderServiceError(400, 'tokenId must be a CLOB token ID');
+    }
+    if (market !== undefined && (typeof market !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(market))) {
+      throw new OrderServiceError(400, 'market must be a condition ID');
+    }
+
+    const { client, address } = await getTradingClient();
+
+    if (typeof orderId === 'string' && orderId) {
+      const order = unwrap(await client.getOrder(orderId), 'Order lookup');
+      return res.status(200).json({ order: toOpenOrderInfo(order) });
+    }
+    if (fills === '1') {
+      const params = market ? { market: market as string } : tokenId ? { asset_id: tokenId as string } : undefined;
+      const trades = unwrap(await client.getTrades(params), 'Trades lookup');
+      const own = trades.flatMap(toFills).filter(fill => !tokenId || fill.tokenId === tokenId);
+      return res.status(200).json({ fills: own });
+    }
+    return res.status(200).json({ address, limits: getLimits() });
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
@@ -1,5 +1,25 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 
+/**
+ * How long browsers and Vercel's edge may reuse a Gamma response. The HTTP
+ * cache is shared by every tab, so this is what keeps N open tabs from
+ * making N requests. Resolved events don't change; anything else only keeps
+ * for a few seconds, in line with the client's own TTLs.
+ */
+function cacheControlFor(status: number, data?: unknown): string {
+  if (status === 404) {
+    return 'public, max-age=3, s-maxage=3';
+  }
+  if (status !== 200) {
+    return 'no-store';
+  }
+  const isClosed = (event: unknown) => typeof event === 'object' && event !== null && (event as { closed?: unknown }).closed === true;
+  const closed = Array.isArray(data) ? data.length > 0 && data.every(isClosed) : isClosed(data);
+  return closed
+    ? 'public, max-age=86400, s-maxage=86400, immutable'
+    : 'public, max-age=5, s-maxage=5, stale-while-revalidate=10';
+}
+
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -64,6 +84,7 @@ export default async function handler(
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unknown error');
       console.error(`[Proxy] API error: ${response.status} - ${errorText}`);
+      res.setHeader('Cache-Control', cacheControlFor(response.status));
       return res.status(response.status).json({
         error: `API returned ${response.status}`,
         status: response.status,
@@ -77,6 +98,7 @@ export default async function handler(
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
     res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Cache-Control', cacheControlFor(200, data));
     
     return res.status(200).json(data);
   } catch (error) {
@@ -0,0 +1,979 @@
+/**
+ * Local mock of the Polymarket stack for offline development.
+ *
+ *   /mock/rtds             RTDS WebSocket (crypto_prices_chainlink + crypto_prices)
+ *   /mock/clob-ws          CLOB market channel WebSocket (book snapshots, trade prints)
+ *   /mock/gamma/events/slug/btc-updown-15m-<ts>
+ *   /mock/gamma/events?slug=...&slug=...
+ *   /mock/clob/price, /book, /tick-size, /fee-rate, /neg-risk
+ *   /mock/clob/auth/*, /order, /cancel-all, /data/*   Authenticated trading (see below)
+ *
+ * Run with `npm run mock`, then `VITE_POLYMARKET_MOCK=true npm run dev`.
+ *
+ * Environment:
+ *   MOCK_PORT            Port to listen on (default 4000)
+ *   MOCK_TICK_MS         Price tick interval in ms (default 1000)
+ *   MOCK_VOLATILITY      Per-tick standard deviation as a fraction of price (default 0.0003)
+ *   MOCK_SEED            Seed for the random walk, for reproducible runs
+ *   MOCK_SCRIPT          JSON file with an array of BTC prices to play (looped) instead of the walk
+ *   MOCK_ORACLE_LAG_MS   How far Chainlink trails Binance (default 1500)
+ *   MOCK_LISTING_HORIZON Seconds ahead of now that events exist; later slugs 404 (default 7200)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { WebSocketServer, type WebSocket } from 'ws';
+
+const PORT = parseInt(process.env.MOCK_PORT || '4000', 10);
+const TICK_MS = parseInt(process.env.MOCK_TICK_MS || '1000', 10);
+const VOLATILITY = parseFloat(process.env.MOCK_VOLATILITY || '0.0003');
+const ORACLE_LAG_MS = parseInt(process.env.MOCK_ORACLE_LAG_MS || '1500', 10);
+const LISTING_HORIZON = parseInt(process.env.MOCK_LISTING_HORIZON || '7200', 10);
+const EVENT_DURATION = 900; // 15 minutes, matches generateEventSlug
+
+const START_PRICES: Record<string, number> = {
+  'btc/usd': 97000,
+  'eth/usd': 3400,
+  'sol/usd': 190,
+  'xrp/usd': 2.3,
+};
+
+// ---------------------------------------------------------------------------
+// Price generation
+// ---------------------------------------------------------------------------
+
+/**
+ * Small seeded PRNG (mulberry32) so MOCK_SEED gives repeatable walks
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const random = createRandom(process.env.MOCK_SEED ? parseInt(process.env.MOCK_SEED, 10) : Date.now());
+
+function gaussian(): number {
+  // Box-Muller
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function loadScript(): number[] | null {
+  const path = process.env.MOCK_SCRIPT;
+  if (!path) return null;
+
+  const parsed = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(parsed) || parsed.some(value => typeof value !== 'number')) {
+    throw new Error(`MOCK_SCRIPT ${path} must contain a JSON array of numbers`);
+  }
+  return parsed;
+}
+
+const script = loadScript();
+let scriptIndex = 0;
+
+interface PricePoint {
+  timestamp: number; // ms
+  value: number;
+}
+
+const prices: Record<string, number> = { ...START_PRICES };
+const btcHistory: PricePoint[] = []; // Binance-side BTC history, used for oracle lag and event openings
+const MAX_HISTORY = Math.ceil((EVENT_DURATION * 1000 * 4) / TICK_MS);
+
+function stepPrices(timestamp: number): void {
+  Object.keys(prices).forEach(symbol => {
+    if (symbol === 'btc/usd' && script) {
+      prices[symbol] = script[scriptIndex % script.length];
+      scriptIndex++;
+      return;
+    }
+    prices[symbol] = prices[symbol] * (1 + VOLATILITY * gaussian());
+  });
+
+  btcHistory.push({ timestamp, value: prices['btc/usd'] });
+  if (btcHistory.length > MAX_HISTORY) {
+    btcHistory.shift();
+  }
+}
+
+/**
+ * BTC price as of a given time (nearest earlier tick), falling back to the oldest known
+ */
+function btcPriceAt(timestamp: number): number {
+  for (let i = btcHistory.length - 1; i >= 0; i--) {
+    if (btcHistory[i].timestamp <= timestamp) {
+      return btcHistory[i].value;
+    }
+  }
+  return btcHistory.length > 0 ? btcHistory[0].value : START_PRICES['btc/usd'];
+}
+
+function chainlinkPrice(symbol: string, timestamp: number): number {
+  // Only BTC keeps history; the other symbols don't need simulated lag
+  return symbol === 'btc/usd' ? btcPriceAt(timestamp - ORACLE_LAG_MS) : prices[symbol];
+}
+
+// ---------------------------------------------------------------------------
+// Synthetic markets
+// ---------------------------------------------------------------------------
+
+interface MockMarket {
+  eventTimestamp: number; // Event start (seconds)
+  outcome: 'Up' | 'Down';
+}
+
+function tokenIdFor(eventTimestamp: number, outcome: 'Up' | 'Down'): string {
+  return `${eventTimestamp}${outcome === 'Up' ? '1' : '2'}`;
+}
+
+function parseTokenId(tokenId: string): MockMarket | null {
+  const match = tokenId.match(/^(\d+)([12])$/);
+  if (!match) return null;
+  return { eventTimestamp: parseInt(match[1], 10), outcome: match[2] === '1' ? 'Up' : 'Down' };
+}
+
+function normalCdf(x: number): number {
+  // Abramowitz-Stegun approximation
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const d = 0.3989423 * Math.exp(-x * x / 2);
+  const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  return x > 0 ? 1 - p : p;
+}
+
+/**
+ * Fair probability that the token pays out, from the BTC walk vs the event's opening price
+ */
+function fairPrice(market: MockMarket, now: number = Date.now()): number {
+  const start = market.eventTimestamp * 1000;
+  const end = start + EVENT_DURATION * 1000;
+  if (now < start) {
+    return 0.5;
+  }
+
+  const opening = btcPriceAt(start);
+  const current = chainlinkPrice('btc/usd', now);
+  const secondsLeft = Math.max(1, (end - now) / 1000);
+  const sigma = VOLATILITY * Math.sqrt(secondsLeft / (TICK_MS / 1000));
+  const upProbability = now >= end
+    ? (current >= opening ? 1 : 0)
+    : normalCdf(Math.log(current / opening) / sigma);
+
+  const probability = market.outcome === 'Up' ? upProbability : 1 - upProbability;
+  return Math.min(0.99, Math.max(0.01, probability));
+}
+
+interface BookLevel {
+  price: string;
+  size: string;
+}
+
+function buildBook(tokenId: string): { bids: BookLevel[]; asks: BookLevel[] } | null {
+  const market = parseTokenId(tokenId);
+  if (!market) return null;
+
+  const mid = fairPrice(market);
+  const bids: BookLevel[] = [];
+  const asks: BookLevel[] = [];
+
+  for (let level = 0; level < 8; level++) {
+    const bid = Math.round((mid - 0.01 * (level + 1)) * 100) / 100;
+    const ask = Math.round((mid + 0.01 * (level + 1)) * 100) / 100;
+    const size = Math.round(50 + 400 * random());
+    if (bid >= 0.01) bids.push({ price: bid.toFixed(2), size: size.toFixed(2) });
+    if (ask <= 0.99) asks.push({ price: ask.toFixed(2), size: (size * 0.8).toFixed(2) });
+  }
+
+  return { bids, asks };
+}
+
+function conditionIdFor(eventTimestamp: number): string {
+  return `0x${eventTimestamp.toString(16).padStart(64, '0')}`;
+}
+
+function buildEvent(eventTimestamp: number): Record<string, unknown> {
+  const startDate = new Date(eventTimestamp * 1000).toISOString();
+  const endDate = new Date((eventTimestamp + EVENT_DURATION) * 1000).toISOString();
+  const closed = Date.now() >= (eventTimestamp + EVENT_DURATION) * 1000;
+  const upToken = tokenIdFor(eventTimestamp, 'Up');
+  const downToken = tokenIdFor(eventTimestamp, 'Down');
+  const upPrice = fairPrice({ eventTimestamp, outcome: 'Up' });
+
+  return {
+    id: String(eventTimestamp),
+    slug: `btc-updown-15m-${eventTimestamp}`,
+    title: `Bitcoin Up or Down - ${startDate}`,
+    description: 'Mock BTC up/down market',
+    startDate,
+    endDate,
+    active: !closed,
+    closed,
+    liquidity: 10000,
+    volume: 2500,
+    // Gamma publishes the opening reference once the event has started
+    ...(Date.now() >= eventTimestamp * 1000 ? { eventMetadata: { priceToBeat: btcPriceAt(eventTimestamp * 1000) } } : {}),
+    markets: [
+      {
+        conditionId: conditionIdFor(eventTimestamp),
+        questionID: `0x${(eventTimestamp + 1).toString(16).padStart(64, '0')}`,
+        question: `Bitcoin Up or Down - ${startDate}`,
+        clobTokenIds: JSON.stringify([upToken, downToken]),
+        outcomes: JSON.stringify(['Up', 'Down']),
+        // Settled markets pay 1 to the winner, as Gamma reports after resolution
+        outcomePrices: closed
+          ? JSON.stringify(upPrice >= 0.5 ? ['1', '0'] : ['0', '1'])
+          : JSON.stringify([upPrice.toFixed(3), (1 - upPrice).toFixed(3)]),
+        startDate,
+        endDate,
+        closed,
+      },
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function handleGamma(path: string, query: URLSearchParams, res: ServerResponse): void {
+  if (path === '/events') {
+    // List query: only slug filters are supported
+    const offset = parseInt(query.get('offset') || '0', 10);
+    const limit = parseInt(query.get('limit') || '100', 10);
+    const events = query.getAll('slug')
+      .map(slug => slug.match(/^btc-updown-15m-(\d+)$/))
+      .filter((m): m is RegExpMatchArray => m !== null)
+      .map(m => parseInt(m[1], 10))
+      .filter(ts => ts % EVENT_DURATION === 0 && ts <= Math.floor(Date.now() / 1000) + LISTING_HORIZON)
+      .map(buildEvent);
+    sendJson(res, 200, events.slice(offset, offset + limit));
+    return;
+  }
+
+  const match = path.match(/^\/events\/slug\/btc-updown-15m-(\d+)$/);
+  if (!match) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  const eventTimestamp = parseInt(match[1], 10);
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (eventTimestamp % EVENT_DURATION !== 0 || eventTimestamp > nowSeconds + LISTING_HORIZON) {
+    // Misaligned or not listed yet, like Gamma
+    sendJson(res, 404, { error: 'Event not found' });
+    return;
+  }
+
+  sendJson(res, 200, buildEvent(eventTimestamp));
+}
+
+const HISTORY_INTERVALS: Record<string, number> = { '1m': 60, '1h': 3600, '6h': 21600, '1d': 86400, '1w': 604800 };
+
+/**
+ * Fair price of a token every `fidelity` minutes over the requested range,
+ * from the BTC history the mock keeps
+ */
+function priceHistory(query: URLSearchParams): { t: number; p: number }[] | null {
+  const market = parseTokenId(query.get('market') || '');
+  if (!market) return null;
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const interval = query.get('interval');
+  const endTs = interval ? nowSeconds : parseInt(query.get('endTs') || String(nowSeconds), 10);
+  const startTs = interval ? endTs - (HISTORY_INTERVALS[interval] ?? EVENT_DURATION) : parseInt(query.get('startTs') || '0', 10);
+  const step = parseInt(query.get('fidelity') || '1', 10) * 60;
+
+  const points: { t: number; p: number }[] = [];
+  // Nothing trades before the event is listed or after it ends
+  const from = Math.max(startTs, market.eventTimestamp - LISTING_HORIZON);
+  const to = Math.min(endTs, nowSeconds, market.eventTimestamp + EVENT_DURATION);
+  for (let t = from; t <= to; t += step) {
+    points.push({ t, p: Math.round(fairPrice(market, t * 1000) * 1000) / 1000 });
+  }
+  return points;
+}
+
+async function handleClob(req: IncomingMessage, path: string, query: URLSearchParams, res: ServerResponse): Promise<void> {
+  if (path === '/prices' && req.method === 'POST') {
+    const body = await readBody(req);
+    const requests = (Array.isArray(body) ? body : []) as Array<{ token_id: string; side: string }>;
+    const result: Record<string, Record<string, string>> = {};
+    requests.forEach(({ token_id, side }) => {
+      const book = buildBook(token_id);
+      if (!book) return;
+      const level = side === 'SELL' ? book.bids[0] : book.asks[0];
+      result[token_id] = { ...result[token_id], [side]: level ? level.price : '0' };
+    });
+    sendJson(res, 200, result);
+    return;
+  }
+
+  if (path === '/prices-history') {
+    const history = priceHistory(query);
+    if (!history) {
+      sendJson(res, 400, { error: 'Unknown market' });
+    } else {
+      sendJson(res, 200, { history });
+    }
+    return;
+  }
+
+  const tokenId = query.get('token_id') || '';
+  const book = buildBook(tokenId);
+
+  if (!book) {
+    sendJson(res, 404, { error: `Unknown token ${tokenId}` });
+    return;
+  }
+
+  switch (path) {
+    case '/price': {
+      const side = query.get('side');
+      const level = side === 'SELL' ? book.bids[0] : book.asks[0];
+      sendJson(res, 200, { price: level ? level.price : '0' });
+      return;
+    }
+    case '/book': {
+      const market = parseTokenId(tokenId)!;
+      sendJson(res, 200, {
+        market: conditionIdFor(market.eventTimestamp),
+        asset_id: tokenId,
+        bids: book.bids.slice().reverse(), // CLOB REST lists best bid last
+        asks: book.asks.slice().reverse(),
+        timestamp: String(Date.now()),
+        hash: '',
+      });
+      return;
+    }
+    case '/midpoint': {
+      const bid = book.bids[0] ? parseFloat(book.bids[0].price) : 0;
+      const ask = book.asks[0] ? parseFloat(book.asks[0].price) : 1;
+      sendJson(res, 200, { mid: ((bid + ask) / 2).toFixed(3) });
+      return;
+    }
+    case '/spread': {
+      const bid = book.bids[0] ? parseFloat(book.bids[0].price) : 0;
+      const ask = book.asks[0] ? parseFloat(book.asks[0].price) : 1;
+      sendJson(res, 200, { spread: (ask - bid).toFixed(2) });
+      return;
+    }
+    case '/tick-size':
+      sendJson(res, 200, { minimum_tick_size: 0.01 });
+      return;
+    case '/fee-rate':
+      sendJson(res, 200, { base_fee: 0 });
+      return;
+    case '/neg-risk':
+      sendJson(res, 200, { neg_risk: false });
+      return;
+    default:
+      sendJson(res, 404, { error: 'Not found' });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Trading
+// ---------------------------------------------------------------------------
+//
+// Enough of the authenticated CLOB API for the client library: API keys are
+// derived from the POLY_ADDRESS header (L1 signatures aren't checked) and
+// L2 requests only need a known POLY_API_KEY (HMACs aren't checked). Orders
+// that cross the synthetic book fill at once; resting orders fill when the
+// book moves through their price. GTD orders are cancelled a minute before
+// their expiration, as the real exchange does.
+
+interface MockApiKey {
+  address: string;
+  secret: string;
+  passphrase: string;
+}
+
+interface MockOrder {
+  id: string;
+  owner: string; // API key
+  makerAddress: string;
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  originalSize: number;
+  sizeMatched: number;
+  status: 'LIVE' | 'MATCHED' | 'CANCELED';
+  orderType: string;
+  expiration: number; // GTD expiration in seconds, 0 for none
+  createdAt: number; // seconds
+}
+
+interface MockTrade {
+  id: string;
+  order: MockOrder;
+  maker: boolean; // The order rested and was filled by a synthetic taker
+  price: number;
+  size: number;
+  transactionHash: string;
+  matchTime: number; // seconds
+}
+
+const apiKeys = new Map<string, MockApiKey>(); // By API key
+const orders = new Map<string, MockOrder>();
+const trades: MockTrade[] = [];
+const END_CURSOR = 'LTE=';
+const GTD_SECURITY_THRESHOLD = 60; // Seconds before its expiration a GTD order is cancelled
+
+function hashHex(input: string): string {
+  return createHash('sha256').update(input).digest('hex');
+}
+
+function deriveApiKey(address: string): { apiKey: string; secret: string; passphrase: string } {
+  const hash = hashHex(`mock-api-key:${address.toLowerCase()}`);
+  const apiKey = `${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`;
+  const secret = Buffer.from(hash.slice(32, 64), 'hex').toString('base64');
+  const passphrase = hash.slice(0, 32);
+  apiKeys.set(apiKey, { address, secret, passphrase });
+  return { apiKey, secret, passphrase };
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function fillOrder(order: MockOrder, price: number, maker: boolean): MockTrade {
+  const size = order.originalSize - order.sizeMatched;
+  order.sizeMatched = order.originalSize;
+  order.status = 'MATCHED';
+  const trade: MockTrade = {
+    id: hashHex(`trade:${order.id}`).slice(0, 36),
+    order,
+    maker,
+    price,
+    size,
+    transactionHash: `0x${hashHex(`tx:${order.id}`)}`,
+    matchTime: Math.floor(Date.now() / 1000),
+  };
+  trades.push(trade);
+  return trade;
+}
+
+/**
+ * Price the order would fill at against the book right now, or null
+ */
+function crossingPrice(order: Pick<MockOrder, 'tokenId' | 'side' | 'price'>): number | null {
+  const book = buildBook(order.tokenId);
+  if (!book) return null;
+  if (order.side === 'BUY') {
+    const ask = book.asks[0] ? parseFloat(book.asks[0].price) : null;
+    return ask !== null && ask <= order.price ? ask : null;
+  }
+  const bid = book.bids[0] ? parseFloat(book.bids[0].price) : null;
+  return bid !== null && bid >= order.price ? bid : null;
+}
+
+function matchRestingOrders(): void {
+  const now = Math.floor(Date.now() / 1000);
+  orders.forEach(order => {
+    if (order.status !== 'LIVE') return;
+    if (order.expiration > 0 && now >= order.expiration - GTD_SECURITY_THRESHOLD) {
+      order.status = 'CANCELED';
+      return;
+    }
+    // Resting orders are makers, so they fill at their own price
+    if (crossingPrice(order) !== null) {
+      fillOrder(order, order.price, true);
+    }
+  });
+}
+
+function orderJson(order: MockOrder): Record<string, unknown> {
+  const market = parseTokenId(order.tokenId);
+  return {
+    id: order.id,
+    status: order.status,
+    owner: order.owner,
+    maker_address: order.makerAddress,
+    market: market ? conditionIdFor(market.eventTimestamp) : '',
+    asset_id: order.tokenId,
+    side: order.side,
+    original_size: String(order.originalSize),
+    size_matched: String(order.sizeMatched),
+    price: String(order.price),
+    associate_trades: trades.filter(trade => trade.order === order).map(trade => trade.id),
+    outcome: market?.outcome || '',
+    created_at: order.createdAt,
+    expiration: String(order.expiration),
+    order_type: order.orderType,
+  };
+}
+
+/**
+ * The taker of a trade that filled a resting order. A resting BUY is matched
+ * by a BUY of the complementary token (the pair is minted), a resting SELL
+ * by a BUY of the same token, as the CLOB does.
+ */
+function syntheticTaker(trade: MockTrade): { tokenId: string; price: number } {
+  const { order } = trade;
+  const market = parseTokenId(order.tokenId);
+  if (order.side === 'SELL' || !market) {
+    return { tokenId: order.tokenId, price: trade.price };
+  }
+  const complement = tokenIdFor(market.eventTimestamp, market.outcome === 'Up' ? 'Down' : 'Up');
+  return { tokenId: complement, price: Math.round((1 - trade.price) * 1000) / 1000 };
+}
+
+function tradeJson(trade: MockTrade): Record<string, unknown> {
+  const { order } = trade;
+  const market = parseTokenId(order.tokenId);
+  const common = {
+    id: trade.id,
+    market: market ? conditionIdFor(market.eventTimestamp) : '',
+    size: String(trade.size),
+    fee_rate_bps: '0',
+    status: 'CONFIRMED',
+    match_time: String(trade.matchTime),
+    last_update: String(trade.matchTime),
+    bucket_index: 0,
+    owner: order.owner,
+    maker_address: order.makerAddress,
+    transaction_hash: trade.transactionHash,
+  };
+  if (!trade.maker) {
+    return {
+      ...common,
+      taker_order_id: order.id,
+      asset_id: order.tokenId,
+      side: order.side,
+      price: String(trade.price),
+      outcome: market?.outcome || '',
+      maker_orders: [],
+      trader_side: 'TAKER',
+    };
+  }
+
+  // The top-level fields describe the taker; our order is one of the makers
+  const taker = syntheticTaker(trade);
+  return {
+    ...common,
+    taker_order_id: `0x${hashHex(`taker:${trade.id}`)}`,
+    asset_id: taker.tokenId,
+    side: 'BUY',
+    price: String(taker.price),
+    outcome: parseTokenId(taker.tokenId)?.outcome || '',
+    maker_orders: [{
+      order_id: order.id,
+      owner: order.owner,
+      maker_address: order.makerAddress,
+      matched_amount: String(trade.size),
+      price: String(trade.price),
+      fee_rate_bps: '0',
+      asset_id: order.tokenId,
+      outcome: market?.outcome || '',
+      side: order.side,
+    }],
+    trader_side: 'MAKER',
+  };
+}
+
+function cancel(ids: string[]): { canceled: string[]; not_canceled: Record<string, string> } {
+  const canceled: string[] = [];
+  const notCanceled: Record<string, string> = {};
+  ids.forEach(id => {
+    const order = orders.get(id);
+    if (order?.status === 'LIVE') {
+      order.status = 'CANCELED';
+      canceled.push(id);
+    } else {
+      notCanceled[id] = order ? 'order can\'t be canceled' : 'order not found';
+    }
+  });
+  return { canceled, not_canceled: notCanceled };
+}
+
+/**
+ * Place an order from the client's signed payload. Amounts are in 6-decimal
+ * units: a BUY gives USDC (maker) for shares (taker), a SELL the reverse.
+ */
+/**
+ * POST /order body as the client sends it
+ */
+interface PostOrderBody {
+  order?: {
+    salt?: unknown;
+    maker?: unknown;
+    tokenId?: unknown;
+    makerAmount?: unknown;
+    takerAmount?: unknown;
+    side?: unknown;
+    expiration?: unknown;
+    signature?: unknown;
+  };
+  orderType?: unknown;
+}
+
+function placeOrder(apiKey: string, body: unknown): { status: number; body: unknown } {
+  const signed = (body as PostOrderBody | null)?.order;
+  if (!signed?.tokenId || !signed.makerAmount || !signed.takerAmount) {
+    return { status: 400, body: { error: 'Invalid order payload' } };
+  }
+  if (!parseTokenId(String(signed.tokenId))) {
+    return { status: 400, body: { error: `Unknown token ${signed.tokenId}` } };
+  }
+
+  const side: 'BUY' | 'SELL' = signed.side === 'SELL' ? 'SELL' : 'BUY';
+  const maker = parseInt(String(signed.makerAmount), 10) / 1e6;
+  const taker = parseInt(String(signed.takerAmount), 10) / 1e6;
+  const size = side === 'BUY' ? taker : maker;
+  const price = Math.round((side === 'BUY' ? maker / taker : taker / maker) * 1000) / 1000;
+  const orderType = String((body as PostOrderBody).orderType || 'GTC');
+  const expiration = parseInt(String(signed.expiration), 10) || 0;
+  if (orderType === 'GTD' && expiration <= Math.floor(Date.now() / 1000) + GTD_SECURITY_THRESHOLD) {
+    return { status: 400, body: { error: 'invalid expiration value. GTD orders need an expiration more than a minute away' } };
+  }
+
+  const order: MockOrder = {
+    id: `0x${hashHex(`${signed.salt}:${signed.signature}:${Date.now()}`)}`,
+    owner: apiKey,
+    makerAddress: String(signed.maker || ''),
+    tokenId: String(signed.tokenId),
+    side,
+    price,
+    originalSize: size,
+    sizeMatched: 0,
+    status: 'LIVE',
+    orderType,
+    expiration: orderType === 'GTD' ? expiration : 0,
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+
+  const fillPrice = crossingPrice(order);
+  if (fillPrice === null && orderType === 'FOK') {
+    return { status: 400, body: { error: 'order couldn\'t be fully filled. FOK orders are fully filled or killed.' } };
+  }
+  if (fillPrice === null && orderType === 'FAK') {
+    return { status: 400, body: { error: 'no orders found to match with FAK order. FAK orders are partially filled or killed if no match is found.' } };
+  }
+
+  orders.set(order.id, order);
+  const trade = fillPrice !== null ? fillOrder(order, fillPrice, false) : null;
+  const usdc = size * (trade ? trade.price : price);
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      errorMsg: '',
+      orderID: order.id,
+      transactionsHashes: trade ? [trade.transactionHash] : [],
+      status: trade ? 'matched' : 'live',
+      takingAmount: trade ? (side === 'BUY' ? size : usdc).toFixed(6) : '0',
+      makingAmount: trade ? (side === 'BUY' ? usdc : size).toFixed(6) : '0',
+    },
+  };
+}
+
+/**
+ * Authenticated CLOB routes. Returns false for paths it doesn't serve.
+ */
+async function handleClobTrading(req: IncomingMessage, path: string, query: URLSearchParams, res: ServerResponse): Promise<boolean> {
+  const header = (name: string) => {
+    const value = req.headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  if (path === '/time') {
+    sendJson(res, 200, Math.floor(Date.now() / 1000));
+    return true;
+  }
+
+  if (path === '/auth/api-key' || path === '/auth/derive-api-key') {
+    const address = header('POLY_ADDRESS');
+    if (!address) {
+      sendJson(res, 401, { error: 'Missing POLY_ADDRESS header' });
+    } else {
+      sendJson(res, 200, deriveApiKey(address));
+    }
+    return true;
+  }
+
+  const isTradingRoute = path === '/order' || path === '/cancel-all' || path.startsWith('/data/');
+  if (!isTradingRoute) {
+    return false;
+  }
+
+  const apiKey = header('POLY_API_KEY') || '';
+  if (!apiKeys.has(apiKey)) {
+    sendJson(res, 401, { error: 'Unauthorized/Invalid api key' });
+    return true;
+  }
+
+  matchRestingOrders();
+  const ownOrders = () => Array.from(orders.values()).filter(order => order.owner === apiKey);
+  const page = (data: unknown[]) => ({ data, next_cursor: END_CURSOR, limit: data.length, count: data.length });
+
+  if (path === '/order' && req.method === 'POST') {
+    const result = placeOrder(apiKey, await readBody(req));
+    sendJson(res, result.status, result.body);
+  } else if (path === '/order' && req.method === 'DELETE') {
+    const body = (await readBody(req)) as { orderID?: unknown } | null;
+    const own = ownOrders().map(order => order.id);
+    sendJson(res, 200, cancel([String(body?.orderID || '')].filter(id => own.includes(id))));
+  } else if (path === '/cancel-all' && req.method === 'DELETE') {
+    sendJson(res, 200, cancel(ownOrders().filter(order => order.status === 'LIVE').map(order => order.id)));
+  } else if (path.startsWith('/data/order/')) {
+    const order = orders.get(path.slice('/data/order/'.length));
+    if (!order || order.owner !== apiKey) {
+      sendJson(res, 404, { error: 'Order not found' });
+    } else {
+      sendJson(res, 200, orderJson(order));
+    }
+  } else if (path === '/data/orders') {
+    const open = ownOrders()
+      .filter(order => order.status === 'LIVE')
+      .filter(order => !query.get('id') || order.id === query.get('id'))
+      .filter(order => !query.get('asset_id') || order.tokenId === query.get('asset_id'));
+    sendJson(res, 200, page(open.map(orderJson)));
+  } else if (path === '/data/trades') {
+    // Filtered on the trade's (taker's) token, like the CLOB
+    const own = trades
+      .filter(trade => trade.order.owner === apiKey)
+      .map(tradeJson)
+      .filter(trade => !query.get('asset_id') || trade.asset_id === query.get('asset_id'))
+      .filter(trade => !query.get('market') || trade.market === query.get('market'));
+    sendJson(res, 200, page(own));
+  } else {
+    sendJson(res, 404, { error: 'Not found' });
+  }
+  return true;
+}
+
+const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(200, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': '*',
+    });
+    res.end();
+    return;
+  }
+
+  if (url.pathname.startsWith('/mock/gamma/')) {
+    handleGamma(url.pathname.slice('/mock/gamma'.length), url.searchParams, res);
+    return;
+  }
+
+  if (url.pathname.startsWith('/mock/clob/')) {
+    const path = url.pathname.slice('/mock/clob'.length);
+    handleClobTrading(req, path, url.searchParams, res)
+      .then(handled => {
+        if (!handled) return handleClob(req, path, url.searchParams, res);
+      })
+      .catch(error => sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) }));
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+// ---------------------------------------------------------------------------
+// WebSockets
+// ---------------------------------------------------------------------------
+
+interface RtdsClient {
+  chainlink: Set<string>; // symbols, e.g. btc/usd
+  binance: Set<string>; // pairs, e.g. btcusdt
+}
+
+const rtdsServer = new WebSocketServer({ noServer: true });
+const clobServer = new WebSocketServer({ noServer: true });
+const rtdsClients = new Map<WebSocket, RtdsClient>();
+const clobClients = new Map<WebSocket, Set<string>>();
+
+rtdsServer.on('connection', (ws: WebSocket) => {
+  const client: RtdsClient = { chainlink: new Set(), binance: new Set() };
+  rtdsClients.set(ws, client);
+
+  ws.on('message', raw => {
+    const text = raw.toString();
+    if (text === 'PING') {
+      ws.send('PONG');
+      return;
+    }
+
+    try {
+      const message = JSON.parse(text);
+      if (message.type === 'ping') {
+        ws.send(JSON.stringify({ type: 'pong' }));
+        return;
+      }
+
+      const subscribe = message.action === 'subscribe';
+      (message.subscriptions || []).forEach((subscription: { topic: string; filters?: string }) => {
+        if (subscription.topic === 'crypto_prices_chainlink' && subscription.filters) {
+          const symbol = JSON.parse(subscription.filters).symbol;
+          subscribe ? client.chainlink.add(symbol) : client.chainlink.delete(symbol);
+        }
+        if (subscription.topic === 'crypto_prices' && subscription.filters) {
+          subscription.filters.split(',').forEach(pair => {
+            subscribe ? client.binance.add(pair) : client.binance.delete(pair);
+          });
+        }
+      });
+    } catch (error) {
+      console.warn('[mock] Bad RTDS message:', text);
+    }
+  });
+
+  ws.on('close', () => rtdsClients.delete(ws));
+});
+
+function sendBooks(ws: WebSocket, tokenIds: Iterable<string>): void {
+  const messages = Array.from(tokenIds)
+    .map(tokenId => {
+      const book = buildBook(tokenId);
+      if (!book) return null;
+      return {
+        event_type: 'book',
+        asset_id: tokenId,
+        market: conditionIdFor(parseTokenId(tokenId)!.eventTimestamp),
+        bids: book.bids,
+        asks: book.asks,
+        timestamp: String(Date.now()),
+        hash: '',
+      };
+    })
+    .filter(Boolean);
+
+  if (messages.length > 0) {
+    ws.send(JSON.stringify(messages));
+  }
+}
+
+/**
+ * Synthetic trades: about half the ticks, each token trades at its best bid
+ * (a taker SELL) or best ask (a taker BUY)
+ */
+function sendTradePrints(ws: WebSocket, tokenIds: Iterable<string>): void {
+  Array.from(tokenIds).forEach(tokenId => {
+    const market = parseTokenId(tokenId);
+    if (!market || random() < 0.5) return;
+
+    const book = buildBook(tokenId)!;
+    const side = random() < 0.5 ? 'SELL' : 'BUY';
+    const level = side === 'SELL' ? book.bids[0] : book.asks[0];
+    if (!level) return;
+
+    ws.send(JSON.stringify({
+      event_type: 'last_trade_price',
+      asset_id: tokenId,
+      market: conditionIdFor(market.eventTimestamp),
+      price: level.price,
+      side,
+      size: (5 + Math.round(95 * random())).toFixed(2),
+      fee_rate_bps: '0',
+      timestamp: String(Date.now()),
+    }));
+  });
+}
+
+clobServer.on('connection', (ws: WebSocket) => {
+  const assets = new Set<string>();
+  clobClients.set(ws, assets);
+
+  ws.on('message', raw => {
+    const text = raw.toString();
+    if (text === 'PING') {
+      ws.send('PONG');
+      return;
+    }
+
+    try {
+      const message = JSON.parse(text);
+      (message.assets_ids || []).forEach((tokenId: string) => assets.add(String(tokenId)));
+      sendBooks(ws, assets);
+    } catch (error) {
+      console.warn('[mock] Bad CLOB message:', text);
+    }
+  });
+
+  ws.on('close', () => clobClients.delete(ws));
+});
+
+server.on('upgrade', (req, socket, head) => {
+  const { pathname } = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const target = pathname === '/mock/rtds' ? rtdsServer : pathname === '/mock/clob-ws' ? clobServer : null;
+
+  if (!target) {
+    socket.destroy();
+    return;
+  }
+
+  target.handleUpgrade(req, socket, head, ws => target.emit('connection', ws, req));
+});
+
+function broadcastTick(): void {
+  const timestamp = Date.now();
+  stepPrices(timestamp);
+
+  rtdsClients.forEach((client, ws) => {
+    client.chainlink.forEach(symbol => {
+      if (!(symbol in prices)) return;
+      ws.send(JSON.stringify({
+        topic: 'crypto_prices_chainlink',
+        type: 'update',
+        timestamp,
+        payload: { symbol, timestamp: timestamp - ORACLE_LAG_MS, value: chainlinkPrice(symbol, timestamp) },
+      }));
+    });
+
+    client.binance.forEach(pair => {
+      const symbol = `${pair.replace(/usdt$/, '')}/usd`;
+      if (!(symbol in prices)) return;
+      ws.send(JSON.stringify({
+        topic: 'crypto_prices',
+        type: 'update',
+        timestamp,
+        payload: { symbol: pair, timestamp, value: prices[symbol] },
+      }));
+    });
+  });
+
+  clobClients.forEach((assets, ws) => {
+    sendBooks(ws, assets);
+    sendTradePrints(ws, assets);
+  });
+}
+
+stepPrices(Date.now());
+setInterval(broadcastTick, TICK_MS);
+
+server.listen(PORT, () => {
+  console.log(`[mock] Polymarket mock listening on http://localhost:${PORT}`);
+  console.log(`[mock] BTC ${script ? `scripted (${script.length} prices)` : 'random walk'}, tick every ${TICK_MS}ms`);
+});
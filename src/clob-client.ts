@@ -1,22 +1,113 @@
 import { ClobClient, Side, OrderType } from '@polymarket/clob-client';
+import type { ApiKeyCreds, MarketPrice, PriceHistoryFilterParams } from '@polymarket/clob-client';
+import { Wallet } from '@ethersproject/wallet';
+import { Web3Provider, type ExternalProvider, type JsonRpcSigner } from '@ethersproject/providers';
+import type { StreamRecorder } from './stream-recorder';
+import { CLOB_API_BASE, CLOB_PROXY_BASE } from './config';
+import type { FeedMetrics } from './feed-metrics';
+import type { SignerConfig, OrderResult, OpenOrderInfo, FillInfo, OrderExecutor, LimitOrderOptions, MarketOrderOptions } from './trading-types';
+import { unwrap, toOpenOrderInfo, toFills, toOrderResult } from './clob-orders';
 
-export class CLOBClientWrapper {
-  private client: ClobClient;
+const CHAIN_ID = 137; // Polygon
+const CREDS_STORAGE_KEY = 'clobApiCreds'; // L2 API credentials by signer address
+
+export class CLOBClientWrapper implements OrderExecutor {
+  private client: ClobClient; // Authenticated calls, straight to the CLOB
+  private readClient: ClobClient; // Public reads, through the CLOB proxy
   private isInitialized: boolean = false;
+  private recorder: StreamRecorder | null = null;
+  private metrics: FeedMetrics | null = null;
+  private signerAddress: string | null = null;
 
   constructor() {
-    // Initialize with public methods only (no signer needed for now)
-    // For actual trading, you'll need to add a signer
-    this.client = new ClobClient('https://clob.polymarket.com', 137);
+    // Public methods only until a signer is connected
+    this.client = new ClobClient(CLOB_API_BASE, CHAIN_ID);
+    this.readClient = new ClobClient(CLOB_PROXY_BASE, CHAIN_ID);
     this.isInitialized = true;
   }
 
+  /**
+   * Connect a signer and authenticate for trading. The L2 API key is derived
+   * from the signer (L1) on first use and kept in localStorage per address,
+   * so later sessions skip the wallet signature. Returns the signer address.
+   */
+  async connectSigner(config: SignerConfig): Promise<string> {
+    let signer: Wallet | JsonRpcSigner;
+    if (config.type === 'private-key') {
+      signer = new Wallet(config.privateKey);
+    } else {
+      const ethereum = (window as { ethereum?: ExternalProvider }).ethereum;
+      if (!ethereum) {
+        throw new Error('No browser wallet found');
+      }
+      const provider = new Web3Provider(ethereum);
+      await provider.send('eth_requestAccounts', []);
+      signer = provider.getSigner();
+    }
+
+    const address = await signer.getAddress();
+    let creds = this.loadCreds(address);
+    if (!creds) {
+      const l1Client = new ClobClient(CLOB_API_BASE, CHAIN_ID, signer);
+      creds = unwrap(await this.timed('derive-api-key', () => l1Client.createOrDeriveApiKey()), 'API key derivation');
+      if (!creds.key) {
+        throw new Error('API key derivation failed: no key returned');
+      }
+      this.saveCreds(address, creds);
+    }
+
+    this.client = new ClobClient(CLOB_API_BASE, CHAIN_ID, signer, creds, config.signatureType, config.funderAddress);
+    this.signerAddress = address;
+    return address;
+  }
+
+  /**
+   * Back to read-only. Stored API credentials are kept unless `forget` is set.
+   */
+  disconnectSigner(forget: boolean = false): void {
+    if (forget && this.signerAddress) {
+      this.saveCreds(this.signerAddress, null);
+    }
+    this.client = new ClobClient(CLOB_API_BASE, CHAIN_ID);
+    this.signerAddress = null;
+  }
+
+  /**
+   * Whether orders can be placed (a signer is connected and authenticated)
+   */
+  canTrade(): boolean {
+    return this.signerAddress !== null;
+  }
+
+  getSignerAddress(): string | null {
+    return this.signerAddress;
+  }
+
+  /**
+   * Record fetched quotes alongside the stream
+   */
+  setRecorder(recorder: StreamRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Track round-trip time for every CLOB request
+   */
+  setMetrics(metrics: FeedMetrics | null): void {
+    this.metrics = metrics;
+  }
+
+  private timed<T>(name: string, request: () => Promise<T>): Promise<T> {
+    return this.metrics ? this.metrics.timeRequest(name, request) : request();
+  }
+
   /**
    * Get the current best price for a token
    */
   async getPrice(tokenId: string, side: 'BUY' | 'SELL'): Promise<number | null> {
     try {
-      const result = await this.client.getPrice(tokenId, side);
+      const result = await this.timed('price', () => this.readClient.getPrice(tokenId, side));
+      this.recorder?.record('clob-rest', { tokenId, side, price: result.price });
       return result.price ? parseFloat(result.price) : null;
     } catch (error) {
       console.error(`Error getting price for token ${tokenId}:`, error);
@@ -24,12 +115,85 @@ export class CLOBClientWrapper {
     }
   }
 
+  /**
+   * Best prices for many tokens in one request, by token ID then side
+   */
+  async getPrices(requests: Array<{ tokenId: string; side: 'BUY' | 'SELL' }>): Promise<Map<string, { BUY?: number; SELL?: number }>> {
+    const prices = new Map<string, { BUY?: number; SELL?: number }>();
+    if (requests.length === 0) {
+      return prices;
+    }
+    try {
+      const result = unwrap(await this.timed('prices', () => this.readClient.getPrices(
+        requests.map(request => ({ token_id: request.tokenId, side: request.side === 'BUY' ? Side.BUY : Side.SELL }))
+      )), 'Prices lookup');
+      Object.entries(result as Record<string, Record<string, string>>).forEach(([tokenId, sides]) => {
+        prices.set(tokenId, {
+          BUY: sides.BUY !== undefined ? parseFloat(sides.BUY) : undefined,
+          SELL: sides.SELL !== undefined ? parseFloat(sides.SELL) : undefined,
+        });
+      });
+    } catch (error) {
+      console.error('Error getting prices:', error);
+    }
+    return prices;
+  }
+
+  /**
+   * Midpoint of the best bid and ask
+   */
+  async getMidpoint(tokenId: string): Promise<number | null> {
+    try {
+      const result = await this.timed('midpoint', () => this.readClient.getMidpoint(tokenId));
+      return result?.mid ? parseFloat(result.mid) : null;
+    } catch (error) {
+      console.error(`Error getting midpoint for token ${tokenId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Best ask minus best bid
+   */
+  async getSpread(tokenId: string): Promise<number | null> {
+    try {
+      const result = await this.timed('spread', () => this.readClient.getSpread(tokenId));
+      return result?.spread ? parseFloat(result.spread) : null;
+    } catch (error) {
+      console.error(`Error getting spread for token ${tokenId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Price history for a token, over a named interval or between two times
+   * (seconds). `fidelity` is the minutes between points.
+   */
+  async getPricesHistory(
+    tokenId: string,
+    range: { interval: '1m' | '1h' | '6h' | '1d' | '1w' | 'max' } | { startTs: number; endTs: number },
+    fidelity?: number
+  ): Promise<Array<{ timestamp: number; price: number }>> {
+    try {
+      const result: unknown = unwrap(
+        await this.timed('prices-history', () => this.readClient.getPricesHistory({ market: tokenId, ...range, fidelity } as PriceHistoryFilterParams)),
+        'Price history lookup'
+      );
+      // The CLOB wraps the points in { history }; the client library's types say a bare list
+      const points = Array.isArray(result) ? result : (result as { history?: MarketPrice[] }).history || [];
+      return points.map(point => ({ timestamp: point.t * 1000, price: point.p }));
+    } catch (error) {
+      console.error(`Error getting price history for token ${tokenId}:`, error);
+      return [];
+    }
+  }
+
   /**
    * Get order book for a token
    */
   async getOrderBook(tokenId: string) {
     try {
-      return await this.client.getOrderBook(tokenId);
+      return unwrap(await this.timed('book', () => this.readClient.getOrderBook(tokenId)), 'Order book lookup');
     } catch (error) {
       console.error(`Error getting order book for token ${tokenId}:`, error);
       throw error;
@@ -45,12 +209,12 @@ export class CLOBClientWrapper {
     amount: number
   ): Promise<number | null> {
     try {
-      const price = await this.client.calculateMarketPrice(
+      const price = await this.timed('market-price', () => this.readClient.calculateMarketPrice(
         tokenId,
         side,
         amount,
         OrderType.FOK
-      );
+      ));
       return price;
     } catch (error) {
       console.error(`Error calculating market price for token ${tokenId}:`, error);
@@ -63,7 +227,7 @@ export class CLOBClientWrapper {
    */
   async getMarket(conditionId: string) {
     try {
-      return await this.client.getMarket(conditionId);
+      return await this.timed('market', () => this.readClient.getMarket(conditionId));
     } catch (error) {
       console.error(`Error getting market for condition ${conditionId}:`, error);
       throw error;
@@ -75,7 +239,9 @@ export class CLOBClientWrapper {
    */
   async getFeeRate(tokenId: string): Promise<number> {
     try {
-      return await this.client.getFeeRateBps(tokenId);
+      const feeRateBps = await this.timed('fee-rate', () => this.readClient.getFeeRateBps(tokenId));
+      // An error answer leaves the library with no base_fee to read
+      return typeof feeRateBps === 'number' ? feeRateBps : 0;
     } catch (error) {
       console.error(`Error getting fee rate for token ${tokenId}:`, error);
       return 0;
@@ -87,7 +253,7 @@ export class CLOBClientWrapper {
    */
   async getTickSize(tokenId: string): Promise<string> {
     try {
-      return await this.client.getTickSize(tokenId);
+      return await this.timed('tick-size', () => this.readClient.getTickSize(tokenId));
     } catch (error) {
       console.error(`Error getting tick size for token ${tokenId}:`, error);
       return '0.01';
@@ -102,14 +268,131 @@ export class CLOBClientWrapper {
   }
 
   /**
-   * NOTE: For actual trading, you'll need to:
-   * 1. Add a signer (private key or wallet connection)
-   * 2. Implement placeOrder, cancelOrder, etc.
-   * 3. Handle authentication
-   * 
-   * Example for future implementation:
-   * async placeOrder(orderParams: OrderParams): Promise<TradeExecutionResult> {
-   *   // Implementation with signer
-   * }
+   * Place a resting limit order, GTC unless a GTD expiration is given.
+   * `price` is 0-1, `size` in shares.
    */
+  async placeLimitOrder(
+    tokenId: string,
+    price: number,
+    size: number,
+    side: 'BUY' | 'SELL',
+    options: LimitOrderOptions = { timeInForce: 'GTC' }
+  ): Promise<OrderResult> {
+    this.requireSigner();
+    const gtd = options.timeInForce === 'GTD';
+    if (gtd && options.expiration === undefined) {
+      throw new Error('GTD orders need an expiration');
+    }
+    const response = await this.timed('post-order', () => this.client.createAndPostOrder(
+      { tokenID: tokenId, price, size, side: side === 'BUY' ? Side.BUY : Side.SELL, expiration: gtd ? options.expiration : undefined },
+      undefined,
+      gtd ? OrderType.GTD : OrderType.GTC
+    ));
+    return toOrderResult(response);
+  }
+
+  /**
+   * Place an immediate order, fill-or-kill unless FAK is asked for.
+   * `amount` is USDC to spend on a BUY, shares to sell on a SELL.
+   */
+  async placeMarketOrder(
+    tokenId: string,
+    amount: number,
+    side: 'BUY' | 'SELL',
+    options: MarketOrderOptions = { timeInForce: 'FOK' }
+  ): Promise<OrderResult> {
+    this.requireSigner();
+    const response = await this.timed('post-order', () => this.client.createAndPostMarketOrder(
+      { tokenID: tokenId, amount, side: side === 'BUY' ? Side.BUY : Side.SELL, price: options.price },
+      undefined,
+      options.timeInForce === 'FAK' ? OrderType.FAK : OrderType.FOK
+    ));
+    return toOrderResult(response);
+  }
+
+  /**
+   * Cancel one order. Returns true if the exchange cancelled it.
+   */
+  async cancelOrder(orderId: string): Promise<boolean> {
+    this.requireSigner();
+    const response = unwrap(await this.timed('cancel-order', () => this.client.cancelOrder({ orderID: orderId })), 'Cancel');
+    return Array.isArray(response?.canceled) && response.canceled.includes(orderId);
+  }
+
+  /**
+   * Cancel every open order. Returns the IDs cancelled.
+   */
+  async cancelAll(): Promise<string[]> {
+    this.requireSigner();
+    const response = unwrap(await this.timed('cancel-all', () => this.client.cancelAll()), 'Cancel all');
+    return Array.isArray(response?.canceled) ? response.canceled : [];
+  }
+
+  /**
+   * One order by ID, whatever its state
+   */
+  async getOrder(orderId: string): Promise<OpenOrderInfo> {
+    this.requireSigner();
+    const order = unwrap(await this.timed('order', () => this.client.getOrder(orderId)), 'Order lookup');
+    return toOpenOrderInfo(order);
+  }
+
+  /**
+   * Our orders resting on the book, optionally for one token
+   */
+  async getOpenOrders(tokenId?: string): Promise<OpenOrderInfo[]> {
+    this.requireSigner();
+    const orders = unwrap(
+      await this.timed('open-orders', () => this.client.getOpenOrders(tokenId ? { asset_id: tokenId } : undefined)),
+      'Open orders lookup'
+    );
+    return orders.map(toOpenOrderInfo);
+  }
+
+  /**
+   * Our fills, optionally for one token. Trades are listed by the taker's
+   * token, so a maker fill against the complement is only found when the
+   * token's market (condition ID) is given.
+   */
+  async getTrades(tokenId?: string, market?: string): Promise<FillInfo[]> {
+    this.requireSigner();
+    const params = market ? { market } : tokenId ? { asset_id: tokenId } : undefined;
+    const trades = unwrap(
+      await this.timed('trades', () => this.client.getTrades(params)),
+      'Trades lookup'
+    );
+    return trades.flatMap(toFills).filter(fill => !tokenId || fill.tokenId === tokenId);
+  }
+
+  private requireSigner(): void {
+    if (!this.canTrade()) {
+      throw new Error('No signer connected: connect a wallet or private key to trade');
+    }
+  }
+
+  private loadCreds(address: string): ApiKeyCreds | null {
+    try {
+      const saved = localStorage.getItem(CREDS_STORAGE_KEY);
+      const all: Record<string, ApiKeyCreds> = saved ? JSON.parse(saved) : {};
+      return all[address.toLowerCase()] || null;
+    } catch (error) {
+      console.warn('Failed to load CLOB API credentials:', error);
+      return null;
+    }
+  }
+
+  private saveCreds(address: string, creds: ApiKeyCreds | null): void {
+    try {
+      const saved = localStorage.getItem(CREDS_STORAGE_KEY);
+      const all: Record<string, ApiKeyCreds> = saved ? JSON.parse(saved) : {};
+      if (creds) {
+        all[address.toLowerCase()] = creds;
+      } else {
+        delete all[address.toLowerCase()];
+      }
+      localStorage.setItem(CREDS_STORAGE_KEY, JSON.stringify(all));
+    } catch (error) {
+      console.warn('Failed to save CLOB API credentials:', error);
+    }
+  }
 }
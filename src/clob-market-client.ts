@@ -0,0 +1,425 @@
+import type { OrderBookLevel, OrderBookSnapshot, MarketQuote, TradePrint, ReconnectOptions } from './types';
+import type { StreamRecorder } from './stream-recorder';
+import { CLOB_WS_ENDPOINT } from './config';
+import { DEFAULT_RECONNECT_OPTIONS, getReconnectDelay } from './websocket-client';
+const PING_INTERVAL = 10000; // 10 seconds, the CLOB channel expects a text PING
+const WATCHDOG_INTERVAL = 1000; // How often the stale check runs
+
+interface TokenBook {
+  bids: Map<number, number>; // price -> size
+  asks: Map<number, number>;
+  lastTradePrice: number | null;
+  timestamp: number;
+}
+
+type RawMessage = Record<string, unknown>; // A market channel message or entry, fields unchecked
+
+function isRawMessage(value: unknown): value is RawMessage {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Streaming client for the CLOB market channel.
+ * Keeps a local order book per token from `book` snapshots and `price_change`
+ * deltas, and tracks `last_trade_price` prints.
+ *
+ * Books are dropped whenever the socket goes down or stops answering, so
+ * callers see no quote (and fall back to REST) rather than a frozen one. The
+ * server resends full snapshots on resubscribe.
+ */
+export class ClobMarketClient {
+  private ws: WebSocket | null = null;
+  private pingInterval: number | null = null;
+  private watchdogInterval: number | null = null;
+  private reconnectTimeout: number | null = null;
+  private reconnectAttempts = 0;
+  private options: ReconnectOptions;
+  private lastMessageAt: number | null = null; // Any message, PONGs included
+  private manuallyClosed = false;
+  private live = true; // When false, books are only fed through ingest() (replay)
+  private recorder: StreamRecorder | null = null;
+  private tokenIds: string[] = [];
+  private books: Map<string, TokenBook> = new Map();
+  private onQuoteUpdate: ((quote: MarketQuote) => void) | null = null;
+  private onTradePrint: ((print: TradePrint) => void) | null = null;
+
+  /**
+   * Retries forever by default: the strategy and depth view depend on this
+   * channel for as long as the app is open
+   */
+  constructor(options: Partial<ReconnectOptions> = {}) {
+    this.options = { ...DEFAULT_RECONNECT_OPTIONS, maxAttempts: null, ...options };
+  }
+
+  setOnQuoteUpdate(callback: (quote: MarketQuote) => void): void {
+    this.onQuoteUpdate = callback;
+  }
+
+  setOnTradePrint(callback: (print: TradePrint) => void): void {
+    this.onTradePrint = callback;
+  }
+
+  setRecorder(recorder: StreamRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Turn the socket off and feed books from ingest() instead (used by replay)
+   */
+  setLive(live: boolean): void {
+    this.live = live;
+    if (!live) {
+      this.disconnect();
+    } else if (this.tokenIds.length > 0) {
+      this.connect();
+    }
+  }
+
+  isLive(): boolean {
+    return this.live;
+  }
+
+  /**
+   * Switch the channel to a new set of tokens (e.g. when a new event becomes active).
+   * The market channel has no unsubscribe, so a token change reopens the socket.
+   */
+  setTokens(tokenIds: string[]): void {
+    const next = tokenIds.filter(Boolean);
+    if (next.length === this.tokenIds.length && next.every((id, i) => id === this.tokenIds[i])) {
+      return;
+    }
+
+    this.tokenIds = next;
+    this.books.clear();
+
+    if (next.length === 0) {
+      this.disconnect();
+      return;
+    }
+
+    this.disconnect();
+    if (this.live) {
+      this.connect();
+    }
+  }
+
+  getTokens(): string[] {
+    return [...this.tokenIds];
+  }
+
+  connect(): void {
+    if (this.ws?.readyState === WebSocket.OPEN || this.tokenIds.length === 0 || !this.live) {
+      return;
+    }
+
+    this.closeSocket();
+    this.clearReconnectTimeout();
+    this.manuallyClosed = false;
+
+    try {
+      this.ws = new WebSocket(CLOB_WS_ENDPOINT);
+      this.setupWebSocketHandlers(this.ws);
+    } catch (error) {
+      console.error('Failed to connect to CLOB market channel:', error);
+      this.attemptReconnect();
+    }
+  }
+
+  private setupWebSocketHandlers(ws: WebSocket): void {
+    ws.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      this.startPingInterval();
+      this.startWatchdog();
+      ws.send(JSON.stringify({ assets_ids: this.tokenIds, type: 'market' }));
+    };
+
+    ws.onmessage = (event) => {
+      this.lastMessageAt = Date.now();
+      if (event.data === 'PONG') {
+        return;
+      }
+
+      try {
+        const data = JSON.parse(event.data);
+        this.recorder?.record('clob', data);
+        this.ingest(data);
+      } catch (error) {
+        console.error('Error parsing CLOB market message:', error);
+      }
+    };
+
+    ws.onerror = () => {
+      console.error('CLOB market WebSocket error occurred');
+    };
+
+    ws.onclose = () => {
+      // Ignore close events from sockets we've already replaced
+      if (this.ws !== ws) {
+        return;
+      }
+
+      this.ws = null;
+      this.stopPingInterval();
+      this.stopWatchdog();
+      if (!this.manuallyClosed) {
+        this.books.clear();
+        this.attemptReconnect();
+      }
+    };
+  }
+
+  /**
+   * Apply one raw market channel payload (a message or an array of them)
+   */
+  ingest(data: unknown): void {
+    // Initial snapshots arrive as an array of book messages
+    const messages = Array.isArray(data) ? data : [data];
+    messages.forEach(message => this.handleMessage(message));
+  }
+
+  private handleMessage(message: unknown): void {
+    if (!isRawMessage(message)) return;
+    switch (message.event_type) {
+      case 'book':
+        this.applyBookSnapshot(message);
+        break;
+      case 'price_change':
+        this.applyPriceChange(message);
+        break;
+      case 'last_trade_price':
+        this.applyLastTrade(message);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private applyBookSnapshot(message: RawMessage): void {
+    const tokenId = String(message.asset_id);
+    if (!this.tokenIds.includes(tokenId)) return;
+
+    const book = this.getOrCreateBook(tokenId);
+    book.bids = this.levelsToMap(message.bids);
+    book.asks = this.levelsToMap(message.asks);
+    book.timestamp = this.parseTimestamp(message.timestamp);
+    this.notifyQuote(tokenId);
+  }
+
+  private applyPriceChange(message: RawMessage): void {
+    const timestamp = this.parseTimestamp(message.timestamp);
+
+    // Newer payloads carry one entry per asset in `price_changes`;
+    // older ones have a top-level asset_id with a `changes` list
+    const changes: RawMessage[] = Array.isArray(message.price_changes)
+      ? message.price_changes.filter(isRawMessage)
+      : (Array.isArray(message.changes) ? message.changes : [])
+        .filter(isRawMessage)
+        .map(change => ({ ...change, asset_id: message.asset_id }));
+
+    const touched = new Set<string>();
+    changes.forEach(change => {
+      const tokenId = String(change.asset_id);
+      if (!this.tokenIds.includes(tokenId)) return;
+
+      const book = this.getOrCreateBook(tokenId);
+      const side = change.side === 'BUY' ? book.bids : book.asks;
+      const price = parseFloat(String(change.price));
+      const size = parseFloat(String(change.size));
+      if (isNaN(price)) return;
+
+      if (!size) {
+        side.delete(price);
+      } else {
+        side.set(price, size);
+      }
+      book.timestamp = timestamp;
+      touched.add(tokenId);
+    });
+
+    touched.forEach(tokenId => this.notifyQuote(tokenId));
+  }
+
+  private applyLastTrade(message: RawMessage): void {
+    const tokenId = String(message.asset_id);
+    if (!this.tokenIds.includes(tokenId)) return;
+
+    const price = parseFloat(String(message.price));
+    if (isNaN(price)) return;
+
+    const book = this.getOrCreateBook(tokenId);
+    book.lastTradePrice = price;
+    book.timestamp = this.parseTimestamp(message.timestamp);
+
+    // Prints without a size or taker side still update the last price
+    const size = parseFloat(String(message.size));
+    if (size > 0 && (message.side === 'BUY' || message.side === 'SELL') && this.onTradePrint) {
+      this.onTradePrint({ tokenId, price, size, side: message.side, timestamp: book.timestamp });
+    }
+    this.notifyQuote(tokenId);
+  }
+
+  private getOrCreateBook(tokenId: string): TokenBook {
+    let book = this.books.get(tokenId);
+    if (!book) {
+      book = { bids: new Map(), asks: new Map(), lastTradePrice: null, timestamp: Date.now() };
+      this.books.set(tokenId, book);
+    }
+    return book;
+  }
+
+  private levelsToMap(levels: unknown): Map<number, number> {
+    const map = new Map<number, number>();
+    if (!Array.isArray(levels)) return map;
+
+    levels.filter(isRawMessage).forEach(level => {
+      const price = parseFloat(String(level.price));
+      const size = parseFloat(String(level.size));
+      if (!isNaN(price) && size > 0) {
+        map.set(price, size);
+      }
+    });
+    return map;
+  }
+
+  private parseTimestamp(raw: unknown): number {
+    const parsed = typeof raw === 'string' ? parseInt(raw, 10) : Number(raw);
+    return parsed > 0 ? parsed : Date.now();
+  }
+
+  private sortLevels(levels: Map<number, number>, descending: boolean): OrderBookLevel[] {
+    return Array.from(levels.entries())
+      .map(([price, size]) => ({ price, size }))
+      .sort((a, b) => descending ? b.price - a.price : a.price - b.price);
+  }
+
+  /**
+   * Latest top-of-book quote for a token, or null if nothing has streamed yet
+   */
+  getQuote(tokenId: string): MarketQuote | null {
+    const book = this.books.get(tokenId);
+    if (!book) return null;
+
+    const bids = Array.from(book.bids.keys());
+    const asks = Array.from(book.asks.keys());
+
+    return {
+      tokenId,
+      bestBid: bids.length > 0 ? Math.max(...bids) : null,
+      bestAsk: asks.length > 0 ? Math.min(...asks) : null,
+      lastTradePrice: book.lastTradePrice,
+      timestamp: book.timestamp,
+    };
+  }
+
+  /**
+   * Full sorted order book for a token
+   */
+  getOrderBook(tokenId: string): OrderBookSnapshot | null {
+    const book = this.books.get(tokenId);
+    if (!book) return null;
+
+    return {
+      tokenId,
+      bids: this.sortLevels(book.bids, true),
+      asks: this.sortLevels(book.asks, false),
+      timestamp: book.timestamp,
+    };
+  }
+
+  private notifyQuote(tokenId: string): void {
+    const quote = this.getQuote(tokenId);
+    if (quote && this.onQuoteUpdate) {
+      this.onQuoteUpdate(quote);
+    }
+  }
+
+  private startPingInterval(): void {
+    this.stopPingInterval();
+    this.pingInterval = window.setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send('PING');
+      }
+    }, PING_INTERVAL);
+  }
+
+  private stopPingInterval(): void {
+    if (this.pingInterval !== null) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  /**
+   * Detects a socket that is open but silent. The server answers every PING,
+   * so even a quiet market hears back within a ping interval.
+   */
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    this.watchdogInterval = window.setInterval(() => {
+      const { staleTimeout } = this.options;
+      if (staleTimeout !== null && this.lastMessageAt !== null && Date.now() - this.lastMessageAt > staleTimeout) {
+        console.warn(`CLOB market channel: nothing received in ${Math.round(staleTimeout / 1000)}s, reconnecting`);
+        this.stopPingInterval();
+        this.stopWatchdog();
+        this.closeSocket();
+        this.books.clear();
+        this.attemptReconnect();
+      }
+    }, WATCHDOG_INTERVAL);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdogInterval !== null) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
+    }
+  }
+
+  private attemptReconnect(): void {
+    const { maxAttempts } = this.options;
+    if (maxAttempts !== null && this.reconnectAttempts >= maxAttempts) {
+      console.error('CLOB market channel: max reconnection attempts reached');
+      return;
+    }
+
+    this.reconnectAttempts++;
+    this.clearReconnectTimeout();
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, getReconnectDelay(this.reconnectAttempts, this.options));
+  }
+
+  private clearReconnectTimeout(): void {
+    if (this.reconnectTimeout !== null) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
+  /**
+   * Close the socket without triggering the reconnect path
+   */
+  private closeSocket(): void {
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+    }
+  }
+
+  disconnect(): void {
+    this.manuallyClosed = true;
+    this.stopPingInterval();
+    this.stopWatchdog();
+    this.clearReconnectTimeout();
+    this.closeSocket();
+    this.lastMessageAt = null;
+    this.reconnectAttempts = 0;
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { Side } from '@polymarket/clob-client';
+import type { Trade as ClobTrade, MakerOrder } from '@polymarket/clob-client';
+import { toFills, toOrderResult } from './clob-orders';
+
+const OWNER = 'f3b1c2d4-0000-4000-8000-00000000a11c';
+const OTHER_OWNER = '9c0d7e21-0000-4000-8000-000000000b0b';
+const UP_TOKEN = '1760000401';
+const DOWN_TOKEN = '1760000402';
+
+function makerOrder(fields: Partial<MakerOrder>): MakerOrder {
+  return {
+    order_id: '0xmaker',
+    owner: OWNER,
+    maker_address: '0x00000000000000000000000000000000000000aa',
+    matched_amount: '0',
+    price: '0',
+    fee_rate_bps: '0',
+    asset_id: UP_TOKEN,
+    outcome: 'Up',
+    side: Side.BUY,
+    ...fields,
+  };
+}
+
+function clobTrade(fields: Partial<ClobTrade>): ClobTrade {
+  return {
+    id: 'trade-1',
+    taker_order_id: '0xtaker',
+    market: `0x${'1'.padStart(64, '0')}`,
+    asset_id: UP_TOKEN,
+    side: Side.BUY,
+    size: '0',
+    fee_rate_bps: '0',
+    price: '0',
+    status: 'CONFIRMED',
+    match_time: '1760000460',
+    last_update: '1760000460',
+    outcome: 'Up',
+    bucket_index: 0,
+    owner: OWNER,
+    maker_address: '0x00000000000000000000000000000000000000aa',
+    maker_orders: [],
+    transaction_hash: '0xhash',
+    trader_side: 'TAKER',
+    ...fields,
+  };
+}
+
+describe('toFills', () => {
+  it('reads a taker fill from the top-level fields', () => {
+    const trade = clobTrade({
+      taker_order_id: '0xours',
+      side: Side.SELL,
+      price: '0.62',
+      size: '25',
+      maker_orders: [makerOrder({ order_id: '0xtheirs', owner: OTHER_OWNER, side: Side.BUY, price: '0.62', matched_amount: '25' })],
+    });
+
+    expect(toFills(trade)).toEqual([{
+      tradeId: 'trade-1',
+      orderId: '0xours',
+      tokenId: UP_TOKEN,
+      side: 'SELL',
+      price: 0.62,
+      size: 25,
+      status: 'CONFIRMED',
+      transactionHash: '0xhash',
+      matchTime: 1760000460000,
+    }]);
+  });
+
+  it('reads a maker fill from our maker order, not the taker', () => {
+    // A BUY of Down at 0.41 minted against our resting BUY of Up at 0.59
+    const trade = clobTrade({
+      trader_side: 'MAKER',
+      asset_id: DOWN_TOKEN,
+      outcome: 'Down',
+      side: Side.BUY,
+      price: '0.41',
+      size: '40',
+      maker_orders: [
+        makerOrder({ order_id: '0xtheirs', owner: OTHER_OWNER, price: '0.59', matched_amount: '30' }),
+        makerOrder({ order_id: '0xours', price: '0.59', matched_amount: '10' }),
+      ],
+    });
+
+    expect(toFills(trade)).toEqual([{
+      tradeId: 'trade-1',
+      orderId: '0xours',
+      tokenId: UP_TOKEN,
+      side: 'BUY',
+      price: 0.59,
+      size: 10,
+      status: 'CONFIRMED',
+      transactionHash: '0xhash',
+      matchTime: 1760000460000,
+    }]);
+  });
+
+  it('gives each of our maker orders in a trade its own fill', () => {
+    const trade = clobTrade({
+      trader_side: 'MAKER',
+      side: Side.BUY,
+      price: '0.7',
+      size: '15',
+      maker_orders: [
+        makerOrder({ order_id: '0xfirst', side: Side.SELL, price: '0.69', matched_amount: '5' }),
+        makerOrder({ order_id: '0xsecond', side: Side.SELL, price: '0.7', matched_amount: '10' }),
+      ],
+    });
+
+    expect(toFills(trade).map(fill => [fill.orderId, fill.side, fill.price, fill.size])).toEqual([
+      ['0xfirst', 'SELL', 0.69, 5],
+      ['0xsecond', 'SELL', 0.7, 10],
+    ]);
+  });
+});
+
+describe('toOrderResult', () => {
+  it('reads an accepted order', () => {
+    expect(toOrderResult({
+      success: true,
+      errorMsg: '',
+      orderID: '0xours',
+      transactionsHashes: ['0xhash'],
+      status: 'matched',
+      takingAmount: '20',
+      makingAmount: '10.4',
+    })).toEqual({
+      orderId: '0xours',
+      status: 'matched',
+      transactionHashes: ['0xhash'],
+      takingAmount: 20,
+      makingAmount: 10.4,
+    });
+  });
+
+  it('defaults what a resting order leaves out', () => {
+    expect(toOrderResult({ success: true, orderID: '0xours' })).toEqual({
+      orderId: '0xours',
+      status: 'unknown',
+      transactionHashes: [],
+      takingAmount: 0,
+      makingAmount: 0,
+    });
+  });
+
+  it('throws on a rejection or an error response', () => {
+    expect(() => toOrderResult({ success: false, errorMsg: 'not enough balance / allowance' }))
+      .toThrow('Order rejected: not enough balance / allowance');
+    expect(() => toOrderResult({ error: 'invalid signature' })).toThrow('Order failed: invalid signature');
+    expect(() => toOrderResult(undefined)).toThrow('Order rejected: no order ID returned');
+  });
+});
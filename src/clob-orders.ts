@@ -0,0 +1,127 @@
+import { Side } from '@polymarket/clob-client';
+import type { OpenOrder, Trade as ClobTrade } from '@polymarket/clob-client';
+import type { OrderResult, OpenOrderInfo, FillInfo } from './trading-types.js'; // .js: also loaded by the Node order service
+
+/**
+ * Mapping of CLOB order responses to our types. Shared by the browser
+ * client and the server-side order service, so it must not touch the DOM.
+ */
+
+/**
+ * The CLOB client answers errors with `{ error }` instead of throwing
+ */
+export function unwrap<T>(response: T, action: string): T {
+  const error = (response as { error?: unknown } | null)?.error;
+  if (error) {
+    throw new Error(`${action} failed: ${typeof error === 'string' ? error : JSON.stringify(error)}`);
+  }
+  return response;
+}
+
+/**
+ * The CLOB expires GTD orders a minute before the expiration they carry
+ */
+export const GTD_SECURITY_THRESHOLD = 60; // Seconds
+
+/**
+ * What the CLOB answers when an FOK or FAK order finds nothing to fill
+ * against. The paper exchange answers the same way.
+ */
+export const FOK_KILLED_ERROR = 'order couldn\'t be fully filled. FOK orders are fully filled or killed.';
+export const FAK_KILLED_ERROR = 'no orders found to match with FAK order. FAK orders are partially filled or killed if no match is found.';
+
+/**
+ * Whether an order error is an FOK or FAK kill rather than a rejection.
+ * Clients wrap the exchange's message, so it is matched anywhere in theirs.
+ */
+export function isKilledOrderError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes(FOK_KILLED_ERROR) || message.includes(FAK_KILLED_ERROR);
+}
+
+/**
+ * Expiration to send with a GTD order that should expire at `expiresAt` (ms)
+ */
+export function gtdExpiration(expiresAt: number): number {
+  return Math.floor(expiresAt / 1000) + GTD_SECURITY_THRESHOLD;
+}
+
+export function toOpenOrderInfo(order: OpenOrder): OpenOrderInfo {
+  return {
+    orderId: order.id,
+    tokenId: order.asset_id,
+    side: order.side === 'SELL' ? 'SELL' : 'BUY',
+    price: parseFloat(order.price),
+    originalSize: parseFloat(order.original_size),
+    sizeMatched: parseFloat(order.size_matched),
+    status: order.status,
+    createdAt: order.created_at * 1000,
+  };
+}
+
+/**
+ * Our fills in a CLOB trade. The top-level fields describe the taker, so as
+ * the taker that's the trade itself. As a maker it's each of our maker
+ * orders, at its own price, size and side, on its own token, which can be
+ * the complement of the one the taker traded.
+ */
+export function toFills(trade: ClobTrade): FillInfo[] {
+  const common = {
+    tradeId: trade.id,
+    status: trade.status,
+    transactionHash: trade.transaction_hash || null,
+    matchTime: parseInt(trade.match_time, 10) * 1000,
+  };
+  if (trade.trader_side === 'MAKER') {
+    return trade.maker_orders
+      .filter(order => order.owner === trade.owner)
+      .map(order => ({
+        ...common,
+        orderId: order.order_id,
+        tokenId: order.asset_id,
+        side: order.side === Side.SELL ? 'SELL' : 'BUY',
+        price: parseFloat(order.price),
+        size: parseFloat(order.matched_amount),
+      }));
+  }
+  return [{
+    ...common,
+    orderId: trade.taker_order_id,
+    tokenId: trade.asset_id,
+    side: trade.side === Side.SELL ? 'SELL' : 'BUY',
+    price: parseFloat(trade.price),
+    size: parseFloat(trade.size),
+  }];
+}
+
+/**
+ * The CLOB's answer to a posted order. The client types it as `any`, so
+ * every field is checked before it's used.
+ */
+interface PostOrderResponse {
+  success?: unknown;
+  errorMsg?: unknown;
+  orderID?: unknown;
+  status?: unknown;
+  transactionsHashes?: unknown; // sic
+  takingAmount?: unknown;
+  makingAmount?: unknown;
+}
+
+export function toOrderResult(response: unknown): OrderResult {
+  unwrap(response, 'Order');
+  const posted: PostOrderResponse = typeof response === 'object' && response !== null ? response : {};
+  if (!posted.success || typeof posted.orderID !== 'string' || !posted.orderID) {
+    const reason = typeof posted.errorMsg === 'string' && posted.errorMsg ? posted.errorMsg : 'no order ID returned';
+    throw new Error(`Order rejected: ${reason}`);
+  }
+  return {
+    orderId: posted.orderID,
+    status: typeof posted.status === 'string' && posted.status ? posted.status : 'unknown',
+    transactionHashes: Array.isArray(posted.transactionsHashes)
+      ? posted.transactionsHashes.filter((hash): hash is string => typeof hash === 'string')
+      : [],
+    takingAmount: parseFloat(String(posted.takingAmount)) || 0,
+    makingAmount: parseFloat(String(posted.makingAmount)) || 0,
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Application clock. Defaults to wall time; replay swaps in the recording's
+ * timeline so event status, countdowns and trade timestamps follow the data.
+ */
+
+let clockSource: () => number = () => Date.now();
+const changeListeners = new Set<() => void>();
+
+export function now(): number {
+  return clockSource();
+}
+
+export function setClock(source: (() => number) | null): void {
+  clockSource = source || (() => Date.now());
+  changeListeners.forEach(listener => listener());
+}
+
+/**
+ * Call `listener` whenever the clock is swapped: a replay starting, stopping
+ * the clock at its final instant, or handing back to wall time. Returns a
+ * function that removes the listener.
+ */
+export function onClockChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
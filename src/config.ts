@@ -0,0 +1,36 @@
+/**
+ * Polymarket endpoints. Set VITE_POLYMARKET_MOCK=true to point everything at the
+ * local mock stack (`npm run mock`), proxied through the Vite dev server under /mock.
+ */
+
+export const USE_MOCK = import.meta.env.VITE_POLYMARKET_MOCK === 'true';
+
+function localWsUrl(path: string): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.host}${path}`;
+}
+
+// RTDS price feeds (Chainlink/Binance)
+export const RTDS_WS_ENDPOINT = USE_MOCK
+  ? localWsUrl('/mock/rtds')
+  : 'wss://ws-live-data.polymarket.com';
+
+// CLOB market channel (order books)
+export const CLOB_WS_ENDPOINT = USE_MOCK
+  ? localWsUrl('/mock/clob-ws')
+  : 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+
+// CLOB REST API for authenticated calls (API keys, orders) made by @polymarket/clob-client
+export const CLOB_API_BASE = USE_MOCK
+  ? `${window.location.origin}/mock/clob`
+  : 'https://clob.polymarket.com';
+
+// CLOB reads (prices, books, history), through the proxy in dev and on Vercel alike;
+// see api/clob-proxy/_endpoints.ts for what it serves
+export const CLOB_PROXY_BASE = `${window.location.origin}/api/clob-proxy`;
+
+// Gamma API, always through the proxy to avoid CORS (the proxy targets the mock when enabled)
+export const GAMMA_API_BASE = '/api/polymarket';
+
+// Server-side order signing service (api/orders); keys stay in its env vars
+export const ORDER_SERVICE_BASE = '/api/orders';
@@ -0,0 +1,141 @@
+import * as clock from './clock';
+import { PolymarketAPI, type PolymarketEvent } from './polymarket-api';
+import { getIntervalStart, getNextIntervalStart, generateSeriesSlug } from './event-utils';
+import { extractOfficialOutcome } from './resolution-tracker';
+import type { MarketSeries } from './series-registry';
+import type { HistoricalEvent } from './types';
+
+const STORAGE_KEY = 'eventHistory';
+const PAGE_SIZE = 50; // Slugs per Gamma list request
+const MAX_EVENTS = 5000;
+
+/**
+ * Past events of a series, backfilled from Gamma's list endpoint a page of
+ * slugs at a time and cached in localStorage. Resolved events never change,
+ * so only missing or still-open ones are fetched again.
+ */
+export class EventHistory {
+  private events: Map<string, HistoricalEvent> = new Map();
+  private loading = false;
+  private onProgress: ((loaded: number, total: number) => void) | null = null;
+
+  constructor() {
+    this.load();
+  }
+
+  setOnProgress(callback: (loaded: number, total: number) => void): void {
+    this.onProgress = callback;
+  }
+
+  isLoading(): boolean {
+    return this.loading;
+  }
+
+  /**
+   * Fetch every event of the series that ended in the past `days` days
+   */
+  async backfill(series: MarketSeries, days: number): Promise<void> {
+    if (this.loading) {
+      return;
+    }
+    this.loading = true;
+
+    try {
+      const now = Math.floor(clock.now() / 1000);
+      const intervals: Array<{ slug: string; start: number; end: number }> = [];
+      let start = getIntervalStart(series, now - days * 86400);
+      while (true) {
+        const end = getNextIntervalStart(series, start);
+        if (end > now) break;
+        intervals.push({ slug: generateSeriesSlug(series, start), start, end });
+        start = end;
+      }
+
+      const missing = intervals.filter(interval => {
+        const cached = this.events.get(interval.slug);
+        return !cached || cached.outcome === null;
+      });
+
+      let loaded = intervals.length - missing.length;
+      this.onProgress?.(loaded, intervals.length);
+
+      for (let offset = 0; offset < missing.length; offset += PAGE_SIZE) {
+        const page = missing.slice(offset, offset + PAGE_SIZE);
+        const results = await PolymarketAPI.fetchMultipleEvents(page.map(interval => interval.slug));
+
+        page.forEach((interval, index) => {
+          const event = results[index];
+          if (event) {
+            this.events.set(interval.slug, this.toHistoricalEvent(series, interval.start, interval.end, event));
+          }
+        });
+
+        loaded += page.length;
+        this.save();
+        this.onProgress?.(loaded, intervals.length);
+      }
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  /**
+   * One page of a series' cached history, newest first
+   */
+  getPage(seriesId: string, page: number, pageSize: number): { events: HistoricalEvent[]; total: number } {
+    const events = Array.from(this.events.values())
+      .filter(event => event.seriesId === seriesId)
+      .sort((a, b) => b.startTimestamp - a.startTimestamp);
+
+    return {
+      events: events.slice(page * pageSize, (page + 1) * pageSize),
+      total: events.length,
+    };
+  }
+
+  clear(): void {
+    this.events.clear();
+    this.save();
+  }
+
+  private toHistoricalEvent(series: MarketSeries, start: number, end: number, event: PolymarketEvent): HistoricalEvent {
+    return {
+      slug: event.slug,
+      seriesId: series.id,
+      startTimestamp: start,
+      endTimestamp: end,
+      closed: event.closed,
+      outcome: extractOfficialOutcome(event),
+      volume: event.volume,
+      liquidity: event.liquidity,
+      conditionId: event.conditionId,
+    };
+  }
+
+  private load(): void {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        const events: HistoricalEvent[] = JSON.parse(saved);
+        events.forEach(event => this.events.set(event.slug, event));
+      }
+    } catch (error) {
+      console.warn('Failed to load event history:', error);
+    }
+  }
+
+  private save(): void {
+    if (this.events.size > MAX_EVENTS) {
+      const oldest = Array.from(this.events.values())
+        .sort((a, b) => a.startTimestamp - b.startTimestamp)
+        .slice(0, this.events.size - MAX_EVENTS);
+      oldest.forEach(event => this.events.delete(event.slug));
+    }
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.events.values())));
+    } catch (error) {
+      console.warn('Failed to save event history:', error);
+    }
+  }
+}
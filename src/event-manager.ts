@@ -1,7 +1,14 @@
+import * as clock from './clock';
 import { PolymarketAPI, type PolymarketEvent } from './polymarket-api';
-import { getNext15MinIntervals, getPrevious15MinInterval, generateEventSlug, formatTimestamp, formatTimestampForTitle, extractTimestampFromSlug } from './event-utils';
+import { getNextIntervals, getNextIntervalStart, getPreviousInterval, generateSeriesSlug, getIntervalEnd, formatTimestamp, formatTimestampForTitle, extractTimestampFromSlug } from './event-utils';
+import type { MarketSeries } from './series-registry';
+import { getSeries, getSeriesTitle, loadEnabledSeriesIds, saveEnabledSeriesIds } from './series-registry';
+import { extractOfficialOutcome } from './resolution-tracker';
+import type { EventOutcome } from './types';
+import type { GammaMarket } from './gamma-schema';
 
 export interface EventDisplayData {
+  seriesId: string;
   slug: string;
   title: string;
   startDate: string;
@@ -9,85 +16,133 @@ export interface EventDisplayData {
   status: 'active' | 'expired' | 'upcoming';
   conditionId?: string;
   questionId?: string;
-  clobTokenIds?: string[];
+  clobTokenIds?: string[]; // Every outcome token across all markets
+  markets?: GammaMarket[]; // Outcome labels and their tokens, per market
   formattedStartDate: string;
   formattedEndDate: string;
   timestamp: number;
   lastPrice?: number; // Price at the end of the previous event
+  outcome?: EventOutcome; // Official outcome once Gamma reports the resolution
   rawData?: PolymarketEvent;
 }
 
+export type EventLifecycleListener = (event: EventDisplayData) => void;
+
+const MAX_TIMER_DELAY = 5000; // Re-check at least this often, so a replay clock running ahead still lands on boundaries
+const LISTING_BASE_DELAY = 5000; // First re-check of a slug Gamma doesn't know yet
+const LISTING_MAX_DELAY = 120000;
+
 export class EventManager {
   private events: EventDisplayData[] = [];
   private currentEventIndex: number = -1;
   private refreshInterval: number | null = null;
+  private boundaryTimer: number | null = null;
+  private listingTimer: number | null = null;
+  private listingWatch: Map<string, { attempts: number; nextCheckAt: number }> = new Map(); // Unlisted slug -> backoff state
+  private windowSize = 10; // Events kept per series: one expired, the rest active/upcoming
   private onEventsUpdated: (() => void) | null = null;
+  private enabledSeriesIds: string[] = loadEnabledSeriesIds();
+  private createdListeners: EventLifecycleListener[] = [];
+  private startedListeners: EventLifecycleListener[] = [];
+  private endedListeners: EventLifecycleListener[] = [];
+  private resolvedListeners: EventLifecycleListener[] = [];
+  private listedListeners: EventLifecycleListener[] = [];
 
   setOnEventsUpdated(callback: () => void): void {
     this.onEventsUpdated = callback;
   }
 
-  private createEventFromTimestamp(timestamp: number, event?: PolymarketEvent | null): EventDisplayData {
-    const slug = event?.slug || generateEventSlug(timestamp);
-    const startTimestamp = extractTimestampFromSlug(slug) || timestamp;
-    const endTimestamp = startTimestamp + 900; // 15 minutes = 900 seconds
+  /**
+   * An event entered the tracked window. Returns an unsubscribe function.
+   */
+  onEventCreated(listener: EventLifecycleListener): () => void {
+    return this.addListener(this.createdListeners, listener);
+  }
+
+  /**
+   * An event became active (at its start boundary, or when first loaded mid-event)
+   */
+  onEventStarted(listener: EventLifecycleListener): () => void {
+    return this.addListener(this.startedListeners, listener);
+  }
+
+  /**
+   * An event we saw active or upcoming reached its end boundary
+   */
+  onEventEnded(listener: EventLifecycleListener): () => void {
+    return this.addListener(this.endedListeners, listener);
+  }
+
+  /**
+   * Gamma reported the official outcome of an event (set on `event.outcome`)
+   */
+  onEventResolved(listener: EventLifecycleListener): () => void {
+    return this.addListener(this.resolvedListeners, listener);
+  }
+
+  /**
+   * A placeholder event showed up on Gamma, so its condition and token IDs
+   * are now filled in and it can be traded
+   */
+  onMarketListed(listener: EventLifecycleListener): () => void {
+    return this.addListener(this.listedListeners, listener);
+  }
+
+  private addListener(listeners: EventLifecycleListener[], listener: EventLifecycleListener): () => void {
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private emit(listeners: EventLifecycleListener[], event: EventDisplayData): void {
+    listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Event lifecycle listener failed:', error);
+      }
+    });
+  }
+
+  getEnabledSeries(): MarketSeries[] {
+    return this.enabledSeriesIds
+      .map(id => getSeries(id))
+      .filter((series): series is MarketSeries => series !== undefined);
+  }
+
+  /**
+   * Switch the set of series being tracked. Takes effect on the next load.
+   */
+  setEnabledSeries(ids: string[]): void {
+    this.enabledSeriesIds = ids.filter(id => getSeries(id) !== undefined);
+    saveEnabledSeriesIds(this.enabledSeriesIds);
+  }
+
+  private createEventFromTimestamp(series: MarketSeries, timestamp: number, event?: PolymarketEvent | null): EventDisplayData {
+    const slug = event?.slug || generateSeriesSlug(series, timestamp);
+    const startTimestamp = extractTimestampFromSlug(slug, series) || timestamp;
+    const endTimestamp = getIntervalEnd(series, startTimestamp);
     
-    // Calculate dates from timestamp (in GMT+6 / Dhaka time)
+    // Calculate dates from timestamp
     const startDate = new Date(startTimestamp * 1000).toISOString();
     const endDate = new Date(endTimestamp * 1000).toISOString();
     
-    // Determine status
-    const now = Math.floor(Date.now() / 1000);
-    const isActive = startTimestamp <= now && now < endTimestamp;
-    const isExpired = now >= endTimestamp;
-    
-    let status: 'active' | 'expired' | 'upcoming';
-    if (event?.closed) {
-      status = 'expired';
-    } else if (isExpired) {
-      status = 'expired';
-    } else if (isActive) {
-      status = 'active';
-    } else {
-      status = 'upcoming';
-    }
+    const status = this.statusAt(startTimestamp, endTimestamp, event?.closed || false);
     
-    // Format title with Dhaka time (GMT+6)
-    const titleTime = formatTimestampForTitle(startTimestamp);
-    const title = event?.title || `BTC Up/Down 15m - ${titleTime}`;
+    // Gamma titles carry ET times, so titles are always built in the display time zone
+    const title = this.formatTitle(series, startTimestamp);
     
-    // Extract IDs - handle both direct and nested structures
-    // Note: API uses questionID (capital ID) not questionId
-    let conditionId = event?.conditionId || event?.condition_id;
-    let questionId = event?.questionID || event?.questionId || event?.question_id; // API uses questionID
-    let clobTokenIds: string[] | undefined = undefined;
-    
-    // Get clobTokenIds from event - it should already be parsed by API layer
-    if (event?.clobTokenIds) {
-      if (Array.isArray(event.clobTokenIds)) {
-        clobTokenIds = event.clobTokenIds;
-      } else if (typeof event.clobTokenIds === 'string') {
-        // Fallback: parse if still a string (shouldn't happen but just in case)
-        try {
-          const parsed = JSON.parse(event.clobTokenIds);
-          if (Array.isArray(parsed)) {
-            clobTokenIds = parsed;
-          }
-        } catch (e) {
-          console.warn('Failed to parse clobTokenIds as JSON in event-manager:', e);
-        }
-      }
-    }
-    
-    // Debug logging
-    console.log(`Event ${slug} - clobTokenIds:`, {
-      raw: event?.clobTokenIds,
-      type: typeof event?.clobTokenIds,
-      isArray: Array.isArray(event?.clobTokenIds),
-      parsed: clobTokenIds
-    });
+    // IDs are already validated and normalized by the API layer
+    const conditionId = event?.conditionId;
+    const questionId = event?.questionId ?? undefined;
+    const clobTokenIds = event?.clobTokenIds;
     
     return {
+      seriesId: series.id,
       slug,
       title,
       startDate,
@@ -95,101 +150,381 @@ export class EventManager {
       status,
       conditionId,
       questionId,
-      clobTokenIds: clobTokenIds as string[] | undefined,
+      clobTokenIds,
+      markets: event?.markets,
       formattedStartDate: formatTimestamp(startTimestamp),
       formattedEndDate: formatTimestamp(endTimestamp),
       timestamp: startTimestamp,
+      outcome: (event && extractOfficialOutcome(event)) || undefined,
       rawData: event || undefined
     };
   }
 
+  private statusAt(startTimestamp: number, endTimestamp: number, closed: boolean): EventDisplayData['status'] {
+    const now = Math.floor(clock.now() / 1000);
+    if (closed || now >= endTimestamp) {
+      return 'expired';
+    }
+    return startTimestamp <= now ? 'active' : 'upcoming';
+  }
+
+  private endTimestampOf(event: EventDisplayData): number {
+    return Math.floor(new Date(event.endDate).getTime() / 1000);
+  }
+
+  private formatTitle(series: MarketSeries, startTimestamp: number): string {
+    return `${getSeriesTitle(series)} - ${formatTimestampForTitle(startTimestamp)}`;
+  }
+
+  /**
+   * Re-render titles and dates after the display time zone changes
+   */
+  reformatEvents(): void {
+    this.events.forEach(event => {
+      const series = getSeries(event.seriesId);
+      if (!series) return;
+
+      event.title = this.formatTitle(series, event.timestamp);
+      event.formattedStartDate = formatTimestamp(event.timestamp);
+      event.formattedEndDate = formatTimestamp(this.endTimestampOf(event));
+    });
+
+    if (this.onEventsUpdated) {
+      this.onEventsUpdated();
+    }
+  }
+
+  /**
+   * Full (re)load of the event window for every enabled series. Events
+   * already tracked are updated in place, so listeners keep their references.
+   */
   async loadEvents(count: number = 10): Promise<void> {
+    const seriesList = this.getEnabledSeries();
+    this.windowSize = count;
+
     try {
-      // Get one expired event (most recent expired)
-      const expiredTimestamp = getPrevious15MinInterval();
-      const expiredSlug = generateEventSlug(expiredTimestamp);
-      
-      // Get current and upcoming events (count - 1 to make room for expired)
-      const futureTimestamps = getNext15MinIntervals(count - 1);
-      const futureSlugs = futureTimestamps.map(ts => generateEventSlug(ts));
-      
-      // Fetch all events
-      const allSlugs = [expiredSlug, ...futureSlugs];
-      const eventData = await Promise.allSettled(
-        allSlugs.map(slug => PolymarketAPI.fetchEventBySlug(slug))
-      ).then(results => 
-        results.map((result, index) => {
-          if (result.status === 'fulfilled') {
-            return result.value;
-          } else {
-            // Log the error but continue
-            console.warn(`Failed to fetch event ${allSlugs[index]}:`, result.reason);
-            return null;
-          }
-        })
-      );
-      
-      // Create expired event (always show one)
-      const expiredEvent = this.createEventFromTimestamp(expiredTimestamp, eventData[0]);
-      
-      // Create current/upcoming events
-      const futureEvents = futureTimestamps
-        .map((timestamp, index) => {
-          const event = eventData[index + 1]; // +1 because first is expired
-          return this.createEventFromTimestamp(timestamp, event);
-        })
-        .filter(event => {
-          // Only include if not expired (we only want one expired at the top)
-          return event.status !== 'expired';
-        });
-      
-      // Combine: [1 expired] + [active/upcoming events]
-      this.events = [expiredEvent, ...futureEvents];
-      
-      // Find current active event
-      this.currentEventIndex = this.events.findIndex(e => e.status === 'active');
-      
-      // Notify that events have been updated
-      if (this.onEventsUpdated) {
-        this.onEventsUpdated();
-      }
-      
+      const results = await Promise.all(seriesList.map(series => this.loadSeriesEvents(series, count)));
+      this.mergeEvents(results.flat());
     } catch (error) {
       console.error('Error loading events:', error);
       // Even on error, create placeholder events
-      const expiredTimestamp = getPrevious15MinInterval();
-      const futureTimestamps = getNext15MinIntervals(count - 1);
-      
-      const expiredEvent = this.createEventFromTimestamp(expiredTimestamp, null);
-      const futureEvents = futureTimestamps
-        .map(timestamp => this.createEventFromTimestamp(timestamp, null))
-        .filter(event => event.status !== 'expired');
-      
-      this.events = [expiredEvent, ...futureEvents];
-      
-      this.currentEventIndex = this.events.findIndex(e => e.status === 'active');
-      
-      if (this.onEventsUpdated) {
-        this.onEventsUpdated();
-      }
-      
+      this.mergeEvents(seriesList.flatMap(series => this.createPlaceholderEvents(series, count)));
+      this.finishLoad();
+
       // Re-throw to show error message
       throw error;
     }
+
+    this.finishLoad();
+  }
+
+  /**
+   * Replace the window with `fresh`, reusing tracked objects and firing
+   * lifecycle callbacks for whatever changed
+   */
+  private mergeEvents(fresh: EventDisplayData[]): void {
+    const previous = new Map(this.events.map(event => [event.slug, event]));
+    const changes: Array<{ event: EventDisplayData; before: EventDisplayData | null }> = [];
+
+    this.events = fresh.map(event => {
+      const existing = previous.get(event.slug);
+      if (!existing) {
+        changes.push({ event, before: null });
+        return event;
+      }
+      const before = { ...existing };
+      // A failed fetch shouldn't wipe data we already have
+      Object.assign(existing, event.rawData || !existing.rawData ? event : { status: event.status });
+      changes.push({ event: existing, before });
+      return existing;
+    });
+
+    changes.forEach(({ event, before }) => this.emitChanges(event, before));
+  }
+
+  private emitChanges(event: EventDisplayData, before: EventDisplayData | null): void {
+    if (!before) {
+      this.emit(this.createdListeners, event);
+    }
+    if (event.status === 'active' && before?.status !== 'active') {
+      this.emit(this.startedListeners, event);
+    }
+    if (event.status === 'expired' && before && before.status !== 'expired') {
+      this.emit(this.endedListeners, event);
+    }
+    if (event.outcome && !before?.outcome) {
+      this.emit(this.resolvedListeners, event);
+    }
+    if (event.rawData && before && !before.rawData) {
+      this.emit(this.listedListeners, event);
+    }
+  }
+
+  private finishLoad(): void {
+    // Find current active event
+    this.currentEventIndex = this.events.findIndex(e => e.status === 'active');
+    this.scheduleBoundaryTimer();
+    this.scheduleListingChecks();
+
+    // Notify that events have been updated
+    if (this.onEventsUpdated) {
+      this.onEventsUpdated();
+    }
+  }
+
+  /**
+   * Wake up at the next start or end boundary of any tracked event
+   */
+  private scheduleBoundaryTimer(): void {
+    if (this.boundaryTimer !== null) {
+      clearTimeout(this.boundaryTimer);
+      this.boundaryTimer = null;
+    }
+    if (this.events.length === 0) {
+      return;
+    }
+
+    const now = clock.now();
+    const boundaries = this.events
+      .flatMap(event => [event.timestamp * 1000, this.endTimestampOf(event) * 1000])
+      .filter(boundary => boundary > now);
+    const next = boundaries.length > 0 ? Math.min(...boundaries) : now + MAX_TIMER_DELAY;
+
+    this.boundaryTimer = window.setTimeout(() => {
+      this.boundaryTimer = null;
+      this.updateStatuses();
+    }, Math.min(Math.max(0, next - now), MAX_TIMER_DELAY));
+  }
+
+  /**
+   * Re-derive statuses from the clock, roll the window forward past ended
+   * events and fetch the events that rolled in
+   */
+  private updateStatuses(): void {
+    const changes: Array<{ event: EventDisplayData; before: EventDisplayData }> = [];
+    this.events.forEach(event => {
+      const status = this.statusAt(event.timestamp, this.endTimestampOf(event), event.rawData?.closed || false);
+      if (status !== event.status) {
+        changes.push({ event, before: { ...event } });
+        event.status = status;
+      }
+    });
+
+    if (changes.length === 0) {
+      this.scheduleBoundaryTimer();
+      return;
+    }
+
+    changes.forEach(({ event, before }) => this.emitChanges(event, before));
+    const created = this.rollWindow();
+    this.finishLoad();
+
+    if (created.length > 0) {
+      this.refetch(created).catch(console.error);
+    }
+  }
+
+  /**
+   * Keep one expired event per series and top the rest of the window back up
+   * with upcoming ones. Returns the events that were added.
+   */
+  private rollWindow(): EventDisplayData[] {
+    const created: EventDisplayData[] = [];
+
+    this.events = this.getEnabledSeries().flatMap(series => {
+      const seriesEvents = this.events.filter(event => event.seriesId === series.id);
+      const expired = seriesEvents.filter(event => event.status === 'expired');
+      const current = seriesEvents.filter(event => event.status !== 'expired');
+      const kept = [...expired.slice(-1), ...current];
+
+      let last = seriesEvents[seriesEvents.length - 1];
+      while (last && current.length < this.windowSize - 1) {
+        const event = this.createEventFromTimestamp(series, getNextIntervalStart(series, last.timestamp), null);
+        current.push(event);
+        kept.push(event);
+        created.push(event);
+        last = event;
+      }
+      return kept;
+    });
+
+    created.forEach(event => this.emitChanges(event, null));
+    return created;
+  }
+
+  /**
+   * Watch every placeholder (a slug Gamma returned 404 for) that hasn't ended,
+   * re-checking each on an exponential backoff until it's listed
+   */
+  private scheduleListingChecks(): void {
+    if (this.listingTimer !== null) {
+      clearTimeout(this.listingTimer);
+      this.listingTimer = null;
+    }
+
+    const unlisted = new Set(
+      this.events
+        .filter(event => !event.rawData && event.status !== 'expired')
+        .map(event => event.slug)
+    );
+    Array.from(this.listingWatch.keys())
+      .filter(slug => !unlisted.has(slug))
+      .forEach(slug => this.listingWatch.delete(slug));
+    unlisted.forEach(slug => {
+      if (!this.listingWatch.has(slug)) {
+        this.listingWatch.set(slug, { attempts: 0, nextCheckAt: Date.now() + LISTING_BASE_DELAY });
+      }
+    });
+
+    if (this.listingWatch.size === 0) {
+      return;
+    }
+
+    // Network polling, so wall time rather than the (possibly replayed) app clock
+    const next = Math.min(...Array.from(this.listingWatch.values()).map(watch => watch.nextCheckAt));
+    this.listingTimer = window.setTimeout(() => {
+      this.listingTimer = null;
+      this.checkListings().catch(console.error);
+    }, Math.max(0, next - Date.now()));
+  }
+
+  private async checkListings(): Promise<void> {
+    const now = Date.now();
+    const due = this.events.filter(event => {
+      const watch = this.listingWatch.get(event.slug);
+      return watch !== undefined && watch.nextCheckAt <= now;
+    });
+
+    due.forEach(event => {
+      const watch = this.listingWatch.get(event.slug)!;
+      watch.attempts++;
+      watch.nextCheckAt = now + Math.min(LISTING_BASE_DELAY * 2 ** watch.attempts, LISTING_MAX_DELAY);
+    });
+
+    const changed = await this.refetch(due);
+    if (!changed) {
+      this.scheduleListingChecks();
+    }
+  }
+
+  /**
+   * Fetch the expired events Gamma hasn't resolved yet. Unlisted ones are
+   * handled by the listing watch.
+   */
+  async refresh(): Promise<void> {
+    const stale = this.events.filter(event => event.status === 'expired' && !event.outcome);
+    await this.refetch(stale);
+  }
+
+  /**
+   * Refetch some events and merge what came back. Returns true if any changed.
+   */
+  private async refetch(events: EventDisplayData[]): Promise<boolean> {
+    if (events.length === 0) {
+      return false;
+    }
+
+    let results: Array<PolymarketEvent | null>;
+    try {
+      results = await PolymarketAPI.fetchMultipleEvents(events.map(event => event.slug));
+    } catch (error) {
+      console.warn('Failed to refresh events:', error);
+      return false;
+    }
+    let changed = false;
+
+    results.forEach((result, index) => {
+      const event = events[index];
+      const series = getSeries(event.seriesId);
+      // Dropped from the window while the request was in flight
+      if (!result || !series || !this.events.includes(event)) {
+        return;
+      }
+
+      const before = { ...event };
+      Object.assign(event, this.createEventFromTimestamp(series, event.timestamp, result));
+      this.emitChanges(event, before);
+      changed = true;
+    });
+
+    if (changed) {
+      this.finishLoad();
+    }
+    return changed;
+  }
+
+  /**
+   * [1 expired] + [active/upcoming] events for one series
+   */
+  private async loadSeriesEvents(series: MarketSeries, count: number): Promise<EventDisplayData[]> {
+    // Get one expired event (most recent expired)
+    const expiredTimestamp = getPreviousInterval(series);
+    const expiredSlug = generateSeriesSlug(series, expiredTimestamp);
+
+    // Get current and upcoming events (count - 1 to make room for expired)
+    const futureTimestamps = getNextIntervals(series, count - 1);
+    const futureSlugs = futureTimestamps.map(ts => generateSeriesSlug(series, ts));
+
+    // Fetch all events
+    const allSlugs = [expiredSlug, ...futureSlugs];
+    const eventData = await PolymarketAPI.fetchMultipleEvents(allSlugs).catch(error => {
+      // Log the error but continue with placeholders
+      console.warn(`Failed to fetch events for ${series.id}:`, error);
+      return allSlugs.map(() => null);
+    });
+
+    // Create expired event (always show one)
+    const expiredEvent = this.createEventFromTimestamp(series, expiredTimestamp, eventData[0]);
+
+    // Create current/upcoming events
+    const futureEvents = futureTimestamps
+      .map((timestamp, index) => {
+        const event = eventData[index + 1]; // +1 because first is expired
+        return this.createEventFromTimestamp(series, timestamp, event);
+      })
+      .filter(event => {
+        // Only include if not expired (we only want one expired at the top)
+        return event.status !== 'expired';
+      });
+
+    return [expiredEvent, ...futureEvents];
+  }
+
+  private createPlaceholderEvents(series: MarketSeries, count: number): EventDisplayData[] {
+    const expiredEvent = this.createEventFromTimestamp(series, getPreviousInterval(series), null);
+    const futureEvents = getNextIntervals(series, count - 1)
+      .map(timestamp => this.createEventFromTimestamp(series, timestamp, null))
+      .filter(event => event.status !== 'expired');
+
+    return [expiredEvent, ...futureEvents];
   }
 
   getEvents(): EventDisplayData[] {
     return this.events;
   }
 
+  /**
+   * Events of one series, in time order
+   */
+  getSeriesEvents(seriesId: string): EventDisplayData[] {
+    return this.events.filter(e => e.seriesId === seriesId);
+  }
+
+  getActiveEvent(seriesId: string): EventDisplayData | null {
+    return this.events.find(e => e.seriesId === seriesId && e.status === 'active') || null;
+  }
+
   getCurrentEventIndex(): number {
     return this.currentEventIndex;
   }
 
+  /**
+   * Periodically refetch the events whose data may have changed
+   */
   startAutoRefresh(intervalMs: number = 60000): void {
     this.stopAutoRefresh();
     this.refreshInterval = window.setInterval(() => {
-      this.loadEvents().catch(console.error);
+      this.refresh().catch(console.error);
     }, intervalMs);
   }
 
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { getIntervalStart, getNextIntervalStart, zonedTimeToTimestamp, generateSeriesSlug } from './event-utils';
+import { getSeries } from './series-registry';
+import type { MarketSeries } from './series-registry';
+
+// America/New_York in 2026: clocks go forward at 2:00 on 8 March and back at 2:00 on 1 November
+const NEW_YORK = 'America/New_York';
+
+function utc(iso: string): number {
+  return Date.parse(iso) / 1000;
+}
+
+function series(id: string): MarketSeries {
+  const found = getSeries(id);
+  if (!found) throw new Error(`Series ${id} is not registered`);
+  return found;
+}
+
+const daily = series('btc-updown-daily');
+const hourly = series('btc-updown-1h');
+const quarterHourly = series('btc-updown-15m');
+
+describe('zonedTimeToTimestamp', () => {
+  it('uses standard time before spring forward and daylight time after it', () => {
+    expect(zonedTimeToTimestamp(2026, 3, 7, 12, NEW_YORK)).toBe(utc('2026-03-07T17:00:00Z'));
+    expect(zonedTimeToTimestamp(2026, 3, 8, 12, NEW_YORK)).toBe(utc('2026-03-08T16:00:00Z'));
+  });
+
+  it('moves an hour skipped by spring forward past the gap', () => {
+    expect(zonedTimeToTimestamp(2026, 3, 8, 1, NEW_YORK)).toBe(utc('2026-03-08T06:00:00Z'));
+    expect(zonedTimeToTimestamp(2026, 3, 8, 2, NEW_YORK)).toBe(utc('2026-03-08T07:00:00Z'));
+    expect(zonedTimeToTimestamp(2026, 3, 8, 3, NEW_YORK)).toBe(utc('2026-03-08T07:00:00Z'));
+  });
+
+  it('uses daylight time before fall back and standard time after it', () => {
+    expect(zonedTimeToTimestamp(2026, 10, 31, 12, NEW_YORK)).toBe(utc('2026-10-31T16:00:00Z'));
+    expect(zonedTimeToTimestamp(2026, 11, 1, 12, NEW_YORK)).toBe(utc('2026-11-01T17:00:00Z'));
+  });
+
+  it('resolves an hour repeated by fall back to its first occurrence', () => {
+    expect(zonedTimeToTimestamp(2026, 11, 1, 1, NEW_YORK)).toBe(utc('2026-11-01T05:00:00Z'));
+    expect(zonedTimeToTimestamp(2026, 11, 1, 2, NEW_YORK)).toBe(utc('2026-11-01T07:00:00Z'));
+  });
+
+  it('leaves zones without DST alone', () => {
+    expect(zonedTimeToTimestamp(2026, 3, 8, 2, 'UTC')).toBe(utc('2026-03-08T02:00:00Z'));
+    expect(zonedTimeToTimestamp(2026, 11, 1, 1, 'Asia/Singapore')).toBe(utc('2026-10-31T17:00:00Z'));
+  });
+});
+
+describe('daily noon ET intervals', () => {
+  it('makes the interval into spring forward 23 hours long', () => {
+    const start = utc('2026-03-07T17:00:00Z');
+    expect(getIntervalStart(daily, start)).toBe(start);
+    expect(getNextIntervalStart(daily, start)).toBe(utc('2026-03-08T16:00:00Z'));
+  });
+
+  it('keeps the spring-forward morning in the previous day\'s interval', () => {
+    expect(getIntervalStart(daily, utc('2026-03-08T07:30:00Z'))).toBe(utc('2026-03-07T17:00:00Z'));
+    expect(getIntervalStart(daily, utc('2026-03-08T15:59:59Z'))).toBe(utc('2026-03-07T17:00:00Z'));
+    expect(getIntervalStart(daily, utc('2026-03-08T16:00:00Z'))).toBe(utc('2026-03-08T16:00:00Z'));
+  });
+
+  it('makes the interval into fall back 25 hours long', () => {
+    const start = utc('2026-10-31T16:00:00Z');
+    expect(getIntervalStart(daily, start)).toBe(start);
+    expect(getNextIntervalStart(daily, start)).toBe(utc('2026-11-01T17:00:00Z'));
+  });
+
+  it('keeps the extra fall-back hour in the previous day\'s interval', () => {
+    expect(getIntervalStart(daily, utc('2026-11-01T16:30:00Z'))).toBe(utc('2026-10-31T16:00:00Z'));
+    expect(getIntervalStart(daily, utc('2026-11-01T16:59:59Z'))).toBe(utc('2026-10-31T16:00:00Z'));
+    expect(getIntervalStart(daily, utc('2026-11-01T17:00:00Z'))).toBe(utc('2026-11-01T17:00:00Z'));
+  });
+
+  it('steps back to standard time after the fall-back day', () => {
+    expect(getNextIntervalStart(daily, utc('2026-11-01T17:00:00Z'))).toBe(utc('2026-11-02T17:00:00Z'));
+  });
+
+  it('names each interval after its start date in New York', () => {
+    expect(generateSeriesSlug(daily, utc('2026-03-07T17:00:00Z'))).toBe('bitcoin-up-or-down-on-march-7');
+    expect(generateSeriesSlug(daily, utc('2026-03-08T16:00:00Z'))).toBe('bitcoin-up-or-down-on-march-8');
+    expect(generateSeriesSlug(daily, utc('2026-10-31T16:00:00Z'))).toBe('bitcoin-up-or-down-on-october-31');
+    expect(generateSeriesSlug(daily, utc('2026-11-01T17:00:00Z'))).toBe('bitcoin-up-or-down-on-november-1');
+  });
+});
+
+describe('hourly ET intervals', () => {
+  it('stay one hour long across spring forward', () => {
+    expect(getIntervalStart(hourly, utc('2026-03-08T06:30:00Z'))).toBe(utc('2026-03-08T06:00:00Z'));
+    expect(getNextIntervalStart(hourly, utc('2026-03-08T06:00:00Z'))).toBe(utc('2026-03-08T07:00:00Z'));
+  });
+
+  it('skip the 2am slug on spring forward', () => {
+    const slugs = ['05:00', '06:00', '07:00', '08:00']
+      .map(time => generateSeriesSlug(hourly, utc(`2026-03-08T${time}:00Z`)));
+    expect(slugs).toEqual([
+      'bitcoin-up-or-down-march-8-12am-et',
+      'bitcoin-up-or-down-march-8-1am-et',
+      'bitcoin-up-or-down-march-8-3am-et',
+      'bitcoin-up-or-down-march-8-4am-et',
+    ]);
+  });
+
+  it('stay one hour long across fall back', () => {
+    expect(getIntervalStart(hourly, utc('2026-11-01T05:30:00Z'))).toBe(utc('2026-11-01T05:00:00Z'));
+    expect(getNextIntervalStart(hourly, utc('2026-11-01T05:00:00Z'))).toBe(utc('2026-11-01T06:00:00Z'));
+  });
+
+  it('give both 1am intervals of fall back the same slug', () => {
+    const slugs = ['04:00', '05:00', '06:00', '07:00']
+      .map(time => generateSeriesSlug(hourly, utc(`2026-11-01T${time}:00Z`)));
+    expect(slugs).toEqual([
+      'bitcoin-up-or-down-november-1-12am-et',
+      'bitcoin-up-or-down-november-1-1am-et',
+      'bitcoin-up-or-down-november-1-1am-et',
+      'bitcoin-up-or-down-november-1-2am-et',
+    ]);
+  });
+
+  it('roll the date over at midnight ET, not UTC', () => {
+    expect(generateSeriesSlug(hourly, utc('2026-03-08T04:00:00Z'))).toBe('bitcoin-up-or-down-march-7-11pm-et');
+    expect(generateSeriesSlug(hourly, utc('2026-11-02T04:00:00Z'))).toBe('bitcoin-up-or-down-november-1-11pm-et');
+  });
+});
+
+describe('epoch-aligned intervals', () => {
+  it('ignore DST changes', () => {
+    const start = utc('2026-03-08T07:00:00Z');
+    expect(getIntervalStart(quarterHourly, utc('2026-03-08T07:07:00Z'))).toBe(start);
+    expect(getNextIntervalStart(quarterHourly, start)).toBe(start + 900);
+    expect(generateSeriesSlug(quarterHourly, start)).toBe(`btc-updown-15m-${start}`);
+  });
+});
@@ -1,75 +1,206 @@
+import * as clock from './clock';
+import { getDisplayTimeZone, getTimeZoneAbbreviation } from './time-zone';
+import type { MarketSeries } from './series-registry';
+import { getSeries, getSeriesDuration, findSeriesForSlug, slugTemplateToRegExp, DEFAULT_SERIES_ID } from './series-registry';
+
 /**
- * Calculate 15-minute interval timestamps for BTC up/down events
- * Events occur at :00, :15, :30, :45 of each hour
+ * Interval timestamps for recurring Up/Down events.
+ * Sub-daily series align to multiples of their duration since the epoch
+ * (15m events start at :00, :15, :30, :45); daily series start at a fixed
+ * hour in the series' time zone.
  */
 
-export function getCurrent15MinInterval(): number {
-  const now = new Date();
-  const minutes = now.getMinutes();
-  
-  // Round down to the nearest 15-minute interval
-  const roundedMinutes = Math.floor(minutes / 15) * 15;
-  
-  const intervalStart = new Date(now);
-  intervalStart.setMinutes(roundedMinutes, 0, 0);
-  
-  return Math.floor(intervalStart.getTime() / 1000);
+const DEFAULT_SLUG_TIME_ZONE = 'America/New_York';
+
+function defaultSeries(): MarketSeries {
+  return getSeries(DEFAULT_SERIES_ID)!;
 }
 
-export function getNext15MinIntervals(count: number = 10): number[] {
+function nowSeconds(): number {
+  return Math.floor(clock.now() / 1000);
+}
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+  second: number;
+}
+
+/**
+ * Wall-clock parts of a timestamp (seconds) in a time zone
+ */
+export function getZonedParts(timestamp: number, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(timestamp * 1000));
+
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+/**
+ * Offset (seconds) of a time zone from UTC at a timestamp
+ */
+function getZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = getZonedParts(timestamp, timeZone);
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) / 1000 - timestamp;
+}
+
+/**
+ * Epoch seconds for a wall-clock time in a time zone (DST-aware). A time
+ * repeated when clocks go back resolves to its first occurrence; a time
+ * skipped when they go forward resolves to the same distance past the gap
+ * (2:00 on a spring-forward night is 3:00).
+ */
+export function zonedTimeToTimestamp(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  timeZone: string
+): number {
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour) / 1000;
+  // The offsets a day either side bracket any DST change around this time
+  const offsetBefore = getZoneOffset(wallAsUtc - 86400, timeZone);
+  const offsetAfter = getZoneOffset(wallAsUtc + 86400, timeZone);
+  const candidates = [wallAsUtc - offsetBefore, wallAsUtc - offsetAfter]
+    .filter(timestamp => wallAsUtc - getZoneOffset(timestamp, timeZone) === timestamp)
+    .sort((a, b) => a - b);
+  return candidates.length > 0 ? candidates[0] : wallAsUtc - offsetBefore;
+}
+
+/**
+ * Start (epoch seconds) of the series interval containing `at`
+ */
+export function getIntervalStart(series: MarketSeries, at: number = nowSeconds()): number {
+  if (series.interval === 'daily') {
+    const timeZone = series.slugTimeZone || DEFAULT_SLUG_TIME_ZONE;
+    const startHour = series.dailyStartHour ?? 0;
+    const parts = getZonedParts(at, timeZone);
+    let start = zonedTimeToTimestamp(parts.year, parts.month, parts.day, startHour, timeZone);
+    if (start > at) {
+      const previousDay = getZonedParts(at - 86400, timeZone);
+      start = zonedTimeToTimestamp(previousDay.year, previousDay.month, previousDay.day, startHour, timeZone);
+    }
+    return start;
+  }
+
+  const duration = getSeriesDuration(series);
+  return Math.floor(at / duration) * duration;
+}
+
+/**
+ * Start of the interval after the one starting at `start`
+ */
+export function getNextIntervalStart(series: MarketSeries, start: number): number {
+  if (series.interval === 'daily') {
+    // Step past the end of this day (25h covers DST) and realign
+    return getIntervalStart(series, start + 90000);
+  }
+  return start + getSeriesDuration(series);
+}
+
+/**
+ * End (epoch seconds) of the interval starting at `start`
+ */
+export function getIntervalEnd(series: MarketSeries, start: number): number {
+  return getNextIntervalStart(series, start);
+}
+
+export function getNextIntervals(series: MarketSeries, count: number = 10): number[] {
   const intervals: number[] = [];
-  const now = new Date();
-  const minutes = now.getMinutes();
-  
-  // Round down to the nearest 15-minute interval
-  const roundedMinutes = Math.floor(minutes / 15) * 15;
-  
-  // Start from the current interval
-  let currentInterval = new Date(now);
-  currentInterval.setMinutes(roundedMinutes, 0, 0);
-  
+  let current = getIntervalStart(series);
+
   for (let i = 0; i < count; i++) {
-    const timestamp = Math.floor(currentInterval.getTime() / 1000);
-    intervals.push(timestamp);
-    
-    // Add 15 minutes for the next interval
-    currentInterval.setMinutes(currentInterval.getMinutes() + 15);
+    intervals.push(current);
+    current = getNextIntervalStart(series, current);
   }
-  
+
   return intervals;
 }
 
+export function getPreviousInterval(series: MarketSeries): number {
+  const current = getIntervalStart(series);
+  return getIntervalStart(series, current - 1);
+}
+
+export function getCurrent15MinInterval(): number {
+  return getIntervalStart(defaultSeries());
+}
+
+export function getNext15MinIntervals(count: number = 10): number[] {
+  return getNextIntervals(defaultSeries(), count);
+}
+
 export function getPrevious15MinInterval(): number {
-  const now = new Date();
-  const minutes = now.getMinutes();
-  
-  // Round down to the nearest 15-minute interval
-  const roundedMinutes = Math.floor(minutes / 15) * 15;
-  
-  // Get the previous interval (15 minutes before current)
-  let previousInterval = new Date(now);
-  previousInterval.setMinutes(roundedMinutes, 0, 0);
-  previousInterval.setMinutes(previousInterval.getMinutes() - 15);
-  
-  return Math.floor(previousInterval.getTime() / 1000);
+  return getPreviousInterval(defaultSeries());
+}
+
+/**
+ * Fill a series slug template for the interval starting at `timestamp`
+ */
+export function generateSeriesSlug(series: MarketSeries, timestamp: number): string {
+  const timeZone = series.slugTimeZone || DEFAULT_SLUG_TIME_ZONE;
+  const parts = getZonedParts(timestamp, timeZone);
+  const monthName = new Date(Date.UTC(2000, parts.month - 1, 1))
+    .toLocaleString('en-US', { month: 'long', timeZone: 'UTC' })
+    .toLowerCase();
+  const hour12 = parts.hour % 12 === 0 ? 12 : parts.hour % 12;
+
+  return series.slugTemplate
+    .replace('{timestamp}', String(timestamp))
+    .replace('{month}', monthName)
+    .replace('{day}', String(parts.day))
+    .replace('{year}', String(parts.year))
+    .replace('{hour}', String(hour12))
+    .replace('{ampm}', parts.hour < 12 ? 'am' : 'pm');
 }
 
 export function generateEventSlug(timestamp: number): string {
-  return `btc-updown-15m-${timestamp}`;
+  return generateSeriesSlug(defaultSeries(), timestamp);
 }
 
-export function extractTimestampFromSlug(slug: string): number | null {
-  const match = slug.match(/btc-updown-15m-(\d+)/);
+/**
+ * Start timestamp embedded in a slug, for templates that carry {timestamp}
+ */
+export function extractTimestampFromSlug(slug: string, series?: MarketSeries): number | null {
+  const target = series || findSeriesForSlug(slug);
+  if (!target || !target.slugTemplate.includes('{timestamp}')) {
+    return null;
+  }
+
+  const match = slug.match(slugTemplateToRegExp(target.slugTemplate));
   if (match && match[1]) {
     return parseInt(match[1], 10);
   }
   return null;
 }
 
+/**
+ * Date and time in the display time zone, with the zone name
+ */
 export function formatTimestamp(timestamp: number): string {
+  const timeZone = getDisplayTimeZone();
   const date = new Date(timestamp * 1000);
-  return date.toLocaleString('en-GB', {
-    timeZone: 'Asia/Dhaka',
+  const formatted = date.toLocaleString('en-GB', {
+    timeZone,
     year: 'numeric',
     month: '2-digit',
     day: '2-digit',
@@ -77,12 +208,14 @@ export function formatTimestamp(timestamp: number): string {
     minute: '2-digit',
     hour12: false
   });
+  return `${formatted} ${getTimeZoneAbbreviation(timestamp * 1000, timeZone)}`;
 }
 
 export function formatTimestampForTitle(timestamp: number): string {
+  const timeZone = getDisplayTimeZone();
   const date = new Date(timestamp * 1000);
-  return date.toLocaleString('en-GB', {
-    timeZone: 'Asia/Dhaka',
+  const formatted = date.toLocaleString('en-GB', {
+    timeZone,
     year: 'numeric',
     month: 'short',
     day: 'numeric',
@@ -90,13 +223,13 @@ export function formatTimestampForTitle(timestamp: number): string {
     minute: '2-digit',
     hour12: false
   });
+  return `${formatted} ${getTimeZoneAbbreviation(timestamp * 1000, timeZone)}`;
 }
 
 export function isEventActive(startDate: string, endDate: string): boolean {
-  const now = new Date();
+  const now = new Date(clock.now());
   const start = new Date(startDate);
   const end = new Date(endDate);
-  
+
   return now >= start && now < end;
 }
-
@@ -0,0 +1,160 @@
+import type { HistogramBucket, LatencyStats, FeedStats, RequestStats } from './types';
+
+const WINDOW_SIZE = 500; // Samples kept per series
+const BUCKET_BOUNDS = [100, 250, 500, 1000, 2000, 5000, Infinity]; // ms
+
+function bucketLabel(index: number): string {
+  const upper = BUCKET_BOUNDS[index];
+  const lower = index === 0 ? 0 : BUCKET_BOUNDS[index - 1];
+  if (upper === Infinity) {
+    return `>${lower >= 1000 ? `${lower / 1000}s` : `${lower}ms`}`;
+  }
+  return upper >= 1000 ? `<${upper / 1000}s` : `<${upper}ms`;
+}
+
+/**
+ * Nearest-rank percentile over a sorted array
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
+
+/**
+ * Rolling window of samples with percentile and histogram summaries
+ */
+export class RollingSeries {
+  private samples: number[] = [];
+
+  record(value: number): void {
+    this.samples.push(value);
+    if (this.samples.length > WINDOW_SIZE) {
+      this.samples.shift();
+    }
+  }
+
+  getValues(): number[] {
+    return [...this.samples];
+  }
+
+  getStats(): LatencyStats {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const histogram: HistogramBucket[] = BUCKET_BOUNDS.map((upperBound, index) => ({
+      label: bucketLabel(index),
+      upperBound,
+      count: 0,
+    }));
+
+    sorted.forEach(value => {
+      const bucket = histogram.find(b => value < b.upperBound) || histogram[histogram.length - 1];
+      bucket.count++;
+    });
+
+    return {
+      count: this.samples.length,
+      last: this.samples.length > 0 ? this.samples[this.samples.length - 1] : null,
+      mean: sorted.length > 0 ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : null,
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99),
+      histogram,
+    };
+  }
+}
+
+interface FeedSeries {
+  latency: RollingSeries;
+  arrivals: number[]; // Arrival times (ms) in the window
+}
+
+/**
+ * Per-source tick latency/cadence and per-request REST round-trip times
+ */
+export class FeedMetrics {
+  private feeds: Map<string, FeedSeries> = new Map();
+  private requests: Map<string, { rtt: RollingSeries; failures: number }> = new Map();
+
+  /**
+   * @param source   Feed name (chainlink, binance, clob-ws)
+   * @param sourceTs Timestamp the source stamped on the message (ms)
+   * @param arrivalTs Local arrival time (ms)
+   */
+  recordTick(source: string, sourceTs: number, arrivalTs: number): void {
+    let feed = this.feeds.get(source);
+    if (!feed) {
+      feed = { latency: new RollingSeries(), arrivals: [] };
+      this.feeds.set(source, feed);
+    }
+
+    feed.latency.record(arrivalTs - sourceTs);
+    feed.arrivals.push(arrivalTs);
+    if (feed.arrivals.length > WINDOW_SIZE) {
+      feed.arrivals.shift();
+    }
+  }
+
+  recordRequest(name: string, rttMs: number, ok: boolean = true): void {
+    let request = this.requests.get(name);
+    if (!request) {
+      request = { rtt: new RollingSeries(), failures: 0 };
+      this.requests.set(name, request);
+    }
+
+    request.rtt.record(rttMs);
+    if (!ok) {
+      request.failures++;
+    }
+  }
+
+  /**
+   * Time an async request and record its round trip under `name`
+   */
+  async timeRequest<T>(name: string, request: () => Promise<T>): Promise<T> {
+    const started = performance.now();
+    try {
+      const result = await request();
+      this.recordRequest(name, performance.now() - started);
+      return result;
+    } catch (error) {
+      this.recordRequest(name, performance.now() - started, false);
+      throw error;
+    }
+  }
+
+  getFeedStats(): FeedStats[] {
+    return Array.from(this.feeds.entries()).map(([source, feed]) => {
+      const intervals = feed.arrivals.slice(1).map((t, i) => t - feed.arrivals[i]);
+      const intervalMean = intervals.length > 0
+        ? intervals.reduce((sum, v) => sum + v, 0) / intervals.length
+        : null;
+      const intervalJitter = intervalMean !== null
+        ? Math.sqrt(intervals.reduce((sum, v) => sum + (v - intervalMean) ** 2, 0) / intervals.length)
+        : null;
+      const span = feed.arrivals.length > 1
+        ? feed.arrivals[feed.arrivals.length - 1] - feed.arrivals[0]
+        : 0;
+
+      return {
+        source,
+        latency: feed.latency.getStats(),
+        ticksPerSecond: span > 0 ? ((feed.arrivals.length - 1) / span) * 1000 : null,
+        intervalMean,
+        intervalJitter,
+      };
+    });
+  }
+
+  getRequestStats(): RequestStats[] {
+    return Array.from(this.requests.entries()).map(([name, request]) => ({
+      name,
+      rtt: request.rtt.getStats(),
+      failures: request.failures,
+    }));
+  }
+
+  reset(): void {
+    this.feeds.clear();
+    this.requests.clear();
+  }
+}
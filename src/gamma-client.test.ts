@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GammaClient } from './gamma-client';
+import closedEvent from './__fixtures__/gamma/event-btc-updown-daily-closed.json';
+import openEvent from './__fixtures__/gamma/event-btc-updown-15m.json';
+
+function respondWith(body: unknown): ReturnType<typeof vi.fn> {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status: 200 }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+/**
+ * Let BroadcastChannel messages arrive
+ */
+async function delivered(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 20));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('GammaClient', () => {
+  it('leaves freshness to the HTTP cache instead of bypassing it', async () => {
+    const fetchMock = respondWith(openEvent);
+    await new GammaClient({ shareAcrossTabs: false }).getEvent(openEvent.slug);
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.cache).toBeUndefined();
+  });
+
+  it('shares one request between callers of the same event', async () => {
+    const fetchMock = respondWith(openEvent);
+    const client = new GammaClient({ shareAcrossTabs: false });
+
+    const [first, second] = await Promise.all([client.getEvent(openEvent.slug), client.getEvent(openEvent.slug)]);
+    expect(first?.slug).toBe(openEvent.slug);
+    expect(second).toBe(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves an event another tab fetched without requesting it', async () => {
+    const fetchMock = respondWith(closedEvent);
+    const tab = new GammaClient();
+    const otherTab = new GammaClient();
+
+    await tab.getEvent(closedEvent.slug);
+    await delivered();
+    const event = await otherTab.getEvent(closedEvent.slug);
+
+    expect(event?.closed).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a list query another tab made, and the events in it', async () => {
+    const fetchMock = respondWith([openEvent, closedEvent]);
+    const tab = new GammaClient();
+    const otherTab = new GammaClient();
+    const url = '/api/polymarket/events?tag=bitcoin';
+
+    await tab.listEvents(url);
+    await delivered();
+    expect((await otherTab.listEvents(url)).map(event => event.slug)).toEqual([openEvent.slug, closedEvent.slug]);
+    expect((await otherTab.getEvent(closedEvent.slug))?.slug).toBe(closedEvent.slug);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,293 @@
+import { GAMMA_API_BASE } from './config';
+import { parseGammaEvent, parseGammaEventList, type GammaEvent } from './gamma-schema';
+
+/**
+ * Request layer for the Gamma API. Every call site goes through one shared
+ * instance, so the proxy sees at most `maxConcurrent` requests at a time and
+ * one request per resource however many components ask for it. Instances in
+ * other tabs share what they fetch over a BroadcastChannel, and responses
+ * are left to the HTTP cache, which the proxy's Cache-Control fills.
+ */
+
+export interface GammaClientOptions {
+  maxConcurrent: number; // Requests in flight at once, across all callers
+  maxRetries: number; // Retries of a 429 or 5xx response
+  retryBaseDelay: number; // ms, doubled on each retry
+  batchSize: number; // Slugs per /events list request
+  openEventTtl: number; // ms an open event is served from cache
+  missingEventTtl: number; // ms a 404 is remembered; short, since unlisted markets get listed
+  listTtl: number; // ms other list queries are served from cache
+  shareAcrossTabs: boolean; // Share fetched events with clients in other tabs
+}
+
+const DEFAULT_OPTIONS: GammaClientOptions = {
+  maxConcurrent: 4,
+  maxRetries: 3,
+  retryBaseDelay: 500,
+  batchSize: 50,
+  openEventTtl: 10000,
+  missingEventTtl: 3000,
+  listTtl: 30000,
+  shareAcrossTabs: true,
+};
+
+const SHARE_CHANNEL = 'gamma-client'; // BroadcastChannel name
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number; // Infinity for closed events, which don't change
+}
+
+/**
+ * A fetch result posted to the other tabs
+ */
+type SharedEntry =
+  | { kind: 'event'; slug: string; entry: CacheEntry<GammaEvent | null> }
+  | { kind: 'list'; url: string; entry: CacheEntry<GammaEvent[]> };
+
+/**
+ * An HTTP error status from Gamma, after retries
+ */
+export class GammaHttpError extends Error {
+  constructor(readonly status: number, statusText: string, readonly url: string) {
+    super(`Gamma request failed: ${status} ${statusText}`);
+    this.name = 'GammaHttpError';
+  }
+}
+
+export class GammaClient {
+  private options: GammaClientOptions;
+  private events: Map<string, CacheEntry<GammaEvent | null>> = new Map(); // By slug; null = not found
+  private lists: Map<string, CacheEntry<GammaEvent[]>> = new Map(); // By request URL
+  private inFlight: Map<string, Promise<unknown>> = new Map(); // By request URL
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private channel: BroadcastChannel | null = null;
+
+  constructor(options: Partial<GammaClientOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    if (this.options.shareAcrossTabs && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(SHARE_CHANNEL);
+      this.channel.onmessage = event => this.receiveShared(event.data);
+    }
+  }
+
+  /**
+   * One event by slug, or null if Gamma doesn't list it (yet)
+   */
+  async getEvent(slug: string): Promise<GammaEvent | null> {
+    const cached = this.getCached(slug);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const url = `${GAMMA_API_BASE}/events/slug/${slug}`;
+    return this.dedupe(url, async () => {
+      const data = await this.fetchJson(url, true);
+      const event = data === null ? null : parseGammaEvent(data);
+      this.cacheEvent(slug, event);
+      return event;
+    });
+  }
+
+  /**
+   * Many events by slug, fetched `batchSize` at a time from the list endpoint.
+   * Slugs Gamma doesn't return map to null.
+   */
+  async getEvents(slugs: string[]): Promise<Map<string, GammaEvent | null>> {
+    const results = new Map<string, GammaEvent | null>();
+    const missing: string[] = [];
+
+    Array.from(new Set(slugs)).forEach(slug => {
+      const cached = this.getCached(slug);
+      if (cached !== undefined) {
+        results.set(slug, cached);
+      } else {
+        missing.push(slug);
+      }
+    });
+
+    const batches: string[][] = [];
+    for (let offset = 0; offset < missing.length; offset += this.options.batchSize) {
+      batches.push(missing.slice(offset, offset + this.options.batchSize));
+    }
+
+    await Promise.all(batches.map(async batch => {
+      const params = new URLSearchParams();
+      batch.forEach(slug => params.append('slug', slug));
+      params.set('limit', String(batch.length));
+      const url = `${GAMMA_API_BASE}/events?${params.toString()}`;
+
+      const events = await this.dedupe(url, async () => this.parseList(await this.fetchJson(url, false)));
+      const bySlug = new Map(events.map(event => [event.slug, event]));
+      batch.forEach(slug => {
+        const event = bySlug.get(slug) || null;
+        this.cacheEvent(slug, event);
+        results.set(slug, event);
+      });
+    }));
+
+    return results;
+  }
+
+  /**
+   * Any other /events list query, cached by URL
+   */
+  async listEvents(url: string): Promise<GammaEvent[]> {
+    const cached = this.lists.get(url);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    return this.dedupe(url, async () => {
+      const events = this.parseList(await this.fetchJson(url, false));
+      const entry = { value: events, expiresAt: Date.now() + this.options.listTtl };
+      this.lists.set(url, entry);
+      events.forEach(event => this.cacheEvent(event.slug, event, false));
+      this.share({ kind: 'list', url, entry });
+      return events;
+    });
+  }
+
+  /**
+   * Drop a cached event so the next request for it goes to the network
+   */
+  invalidate(slug: string): void {
+    this.events.delete(slug);
+  }
+
+  clear(): void {
+    this.events.clear();
+    this.lists.clear();
+  }
+
+  private getCached(slug: string): GammaEvent | null | undefined {
+    const entry = this.events.get(slug);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.events.delete(slug);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  /**
+   * Cache a fetched event, and share it with the other tabs unless it's part
+   * of a list that's shared whole
+   */
+  private cacheEvent(slug: string, event: GammaEvent | null, share = true): void {
+    const ttl = event === null ? this.options.missingEventTtl
+      : event.closed ? Infinity
+      : this.options.openEventTtl;
+    const entry = { value: event, expiresAt: Date.now() + ttl };
+    this.events.set(slug, entry);
+    if (share) {
+      this.share({ kind: 'event', slug, entry });
+    }
+  }
+
+  private share(shared: SharedEntry): void {
+    try {
+      this.channel?.postMessage(shared);
+    } catch (error) {
+      console.warn('[GammaClient] Failed to share with other tabs:', error);
+    }
+  }
+
+  /**
+   * Take in what another tab fetched, unless ours is at least as fresh
+   */
+  private receiveShared(shared: SharedEntry): void {
+    if (shared?.kind === 'event') {
+      if ((this.events.get(shared.slug)?.expiresAt ?? 0) < shared.entry.expiresAt) {
+        this.events.set(shared.slug, shared.entry);
+      }
+    } else if (shared?.kind === 'list') {
+      if ((this.lists.get(shared.url)?.expiresAt ?? 0) < shared.entry.expiresAt) {
+        this.lists.set(shared.url, shared.entry);
+        shared.entry.value.forEach(event => this.cacheEvent(event.slug, event, false));
+      }
+    }
+  }
+
+  private parseList(data: unknown): GammaEvent[] {
+    const { events, errors } = parseGammaEventList(data);
+    // One malformed event shouldn't sink the whole page, but it must not go unnoticed
+    errors.forEach(error => console.error('[GammaClient]', error.message));
+    return events;
+  }
+
+  /**
+   * Share one request between everyone asking for the same URL at once
+   */
+  private dedupe<T>(url: string, request: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(url);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = request().finally(() => this.inFlight.delete(url));
+    this.inFlight.set(url, promise);
+    return promise;
+  }
+
+  /**
+   * GET a Gamma URL within the concurrency limit, retrying 429s and 5xxs with
+   * exponential backoff (or the server's Retry-After). Resolves to null on a
+   * 404 when `allowNotFound` is set.
+   */
+  private async fetchJson(url: string, allowNotFound: boolean): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.withSlot(() => fetch(url, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+        mode: 'cors',
+      }));
+
+      if (response.ok) {
+        return response.json();
+      }
+      if (response.status === 404 && allowNotFound) {
+        return null;
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= this.options.maxRetries) {
+        const errorText = await response.text().catch(() => '');
+        console.error(`[GammaClient] Error ${response.status}:`, errorText);
+        throw new GammaHttpError(response.status, response.statusText, url);
+      }
+
+      const retryAfter = parseFloat(response.headers.get('Retry-After') || '');
+      const backoff = this.options.retryBaseDelay * Math.pow(2, attempt);
+      const delay = !isNaN(retryAfter) ? retryAfter * 1000 : backoff + Math.random() * backoff * 0.5;
+      console.warn(`[GammaClient] ${response.status} from ${url}, retrying in ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.options.maxConcurrent) {
+      // The finishing request hands its slot straight to us
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+export const gammaClient = new GammaClient();
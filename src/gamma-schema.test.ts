@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { parseGammaEvent, parseGammaEventList, GammaSchemaError } from './gamma-schema';
+import updownEvent from './__fixtures__/gamma/event-btc-updown-15m.json';
+import dailyClosedEvent from './__fixtures__/gamma/event-btc-updown-daily-closed.json';
+import multiMarketEvent from './__fixtures__/gamma/event-multi-market.json';
+import eventList from './__fixtures__/gamma/events-list.json';
+
+// Fixtures are Gamma /events/slug/<slug> and /events?slug=... bodies, with
+// every field Gamma sends left in so unknown fields are exercised too
+
+/**
+ * Deep copy of a fixture for a test to break
+ */
+function copy<T>(fixture: T): any {
+  return JSON.parse(JSON.stringify(fixture));
+}
+
+/**
+ * The GammaSchemaError a parse throws
+ */
+function schemaError(parse: () => unknown): GammaSchemaError {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof GammaSchemaError) return error;
+    throw error;
+  }
+  throw new Error('Expected a GammaSchemaError');
+}
+
+describe('parseGammaEvent', () => {
+  it('normalizes an Up/Down event from /events/slug', () => {
+    const event = parseGammaEvent(updownEvent);
+    const [market] = updownEvent.markets;
+    const [upToken, downToken] = JSON.parse(market.clobTokenIds);
+
+    expect(event.slug).toBe('btc-updown-15m-1760000400');
+    expect(event.title).toBe('Bitcoin Up or Down - October 9, 5:00AM-5:15AM ET');
+    expect(event.startDate).toBe(updownEvent.startDate);
+    expect(event.endDate).toBe('2025-10-09T09:15:00Z');
+    expect(event.active).toBe(true);
+    expect(event.closed).toBe(false);
+    expect(event.liquidity).toBe(18342.7716);
+    expect(event.volume).toBe(41876.530112);
+    expect(event.priceToBeat).toBe(121874.5312);
+    expect(event.conditionId).toBe(market.conditionId);
+    expect(event.questionId).toBe(market.questionID);
+    expect(event.clobTokenIds).toEqual([upToken, downToken]);
+
+    expect(event.markets).toHaveLength(1);
+    expect(event.markets[0]).toEqual({
+      conditionId: market.conditionId,
+      questionId: market.questionID,
+      question: market.question,
+      active: true,
+      closed: false,
+      outcomes: ['Up', 'Down'],
+      outcomePrices: [0.635, 0.365],
+      tokens: [
+        { tokenId: upToken, outcome: 'Up', price: 0.635 },
+        { tokenId: downToken, outcome: 'Down', price: 0.365 },
+      ],
+    });
+  });
+
+  it('reads settled prices from a resolved daily event', () => {
+    const event = parseGammaEvent(dailyClosedEvent);
+
+    expect(event.slug).toBe('bitcoin-up-or-down-on-october-8');
+    expect(event.closed).toBe(true);
+    expect(event.priceToBeat).toBe(123310.0487);
+    expect(event.markets[0].closed).toBe(true);
+    expect(event.markets[0].tokens.map(token => [token.outcome, token.price])).toEqual([['Up', 0], ['Down', 1]]);
+  });
+
+  it('keeps every market and token of a multi-market event in order', () => {
+    const event = parseGammaEvent(multiMarketEvent);
+
+    expect(event.markets).toHaveLength(4);
+    expect(event.markets.map(market => market.question)).toEqual(multiMarketEvent.markets.map(market => market.question));
+    expect(event.conditionId).toBe(multiMarketEvent.markets[0].conditionId);
+    expect(event.clobTokenIds).toEqual(multiMarketEvent.markets.flatMap(market => JSON.parse(market.clobTokenIds)));
+    expect(event.markets.every(market => market.outcomes.join() === 'Yes,No')).toBe(true);
+    expect(event.volume).toBe(1873320.885612);
+    expect(event.priceToBeat).toBeNull();
+  });
+
+  it('accepts snake_case IDs and a tokens array from older responses', () => {
+    const raw = copy(updownEvent);
+    const [market] = raw.markets;
+    const [upToken, downToken] = JSON.parse(market.clobTokenIds);
+    market.condition_id = market.conditionId;
+    delete market.conditionId;
+    delete market.clobTokenIds;
+    market.tokens = [{ token_id: upToken, outcome: 'Up' }, { token_id: downToken, outcome: 'Down' }];
+
+    const event = parseGammaEvent(raw);
+    expect(event.conditionId).toBe(updownEvent.markets[0].conditionId);
+    expect(event.clobTokenIds).toEqual([upToken, downToken]);
+  });
+
+  it('rejects a market without a conditionId', () => {
+    const raw = copy(updownEvent);
+    delete raw.markets[0].conditionId;
+
+    const error = schemaError(() => parseGammaEvent(raw));
+    expect(error.path).toBe('markets[0].conditionId');
+    expect(error.detail).toBe('missing');
+    expect(error.slug).toBe('btc-updown-15m-1760000400');
+  });
+
+  it('rejects clobTokenIds that do not match the outcomes', () => {
+    const raw = copy(multiMarketEvent);
+    raw.markets[2].clobTokenIds = JSON.stringify(JSON.parse(raw.markets[2].clobTokenIds).slice(0, 1));
+
+    const error = schemaError(() => parseGammaEvent(raw));
+    expect(error.path).toBe('markets[2].clobTokenIds');
+    expect(error.detail).toBe('1 tokens for 2 outcomes');
+    expect(error.slug).toBe('bitcoin-above-on-october-9');
+  });
+
+  it('rejects clobTokenIds that are not valid JSON', () => {
+    const raw = copy(updownEvent);
+    raw.markets[0].clobTokenIds = raw.markets[0].clobTokenIds.slice(0, -2);
+
+    const error = schemaError(() => parseGammaEvent(raw));
+    expect(error.path).toBe('markets[0].clobTokenIds');
+    expect(error.detail).toBe('not valid JSON');
+    expect(error.slug).toBe('btc-updown-15m-1760000400');
+  });
+
+  it('rejects an event without a slug, with no slug on the error', () => {
+    const raw = copy(updownEvent);
+    delete raw.slug;
+
+    const error = schemaError(() => parseGammaEvent(raw));
+    expect(error.path).toBe('slug');
+    expect(error.slug).toBeNull();
+  });
+});
+
+describe('parseGammaEventList', () => {
+  it('normalizes every event of a /events list', () => {
+    const { events, errors } = parseGammaEventList(eventList);
+
+    expect(errors).toEqual([]);
+    expect(events.map(event => event.slug)).toEqual(eventList.map(event => event.slug));
+    expect(events.map(event => event.closed)).toEqual([true, false, false]);
+    // Gamma only publishes the price to beat once an event has started
+    expect(events.map(event => event.priceToBeat)).toEqual([121790.2201, 121874.5312, null]);
+  });
+
+  it('accepts a list wrapped in data', () => {
+    const { events } = parseGammaEventList({ data: eventList });
+    expect(events).toHaveLength(eventList.length);
+  });
+
+  it('leaves out invalid events and reports each with its slug and path', () => {
+    const raw = copy(eventList);
+    delete raw[0].markets[0].conditionId;
+    raw[2].markets[0].clobTokenIds = '["123", ';
+
+    const { events, errors } = parseGammaEventList(raw);
+
+    expect(events.map(event => event.slug)).toEqual([eventList[1].slug]);
+    expect(errors.map(error => [error.slug, error.path, error.detail])).toEqual([
+      [eventList[0].slug, 'markets[0].conditionId', 'missing'],
+      [eventList[2].slug, 'markets[0].clobTokenIds', 'not valid JSON'],
+    ]);
+  });
+
+  it('points at the list index of an event without a slug', () => {
+    const raw = copy(eventList);
+    delete raw[1].slug;
+
+    const { errors } = parseGammaEventList(raw);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].path).toBe('[1].slug');
+    expect(errors[0].slug).toBeNull();
+  });
+
+  it('throws on a body that is not a list', () => {
+    const error = schemaError(() => parseGammaEventList(updownEvent));
+    expect(error.path).toBe('$');
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Validating parser for Gamma API responses.
+ * Gamma is loose about where it puts IDs (camelCase vs snake_case,
+ * JSON-encoded arrays vs real ones), so raw responses are checked and
+ * normalized here once; the rest of the app only sees the typed model below.
+ */
+
+export interface GammaToken {
+  tokenId: string;
+  outcome: string; // e.g. 'Up'
+  price: number | null; // Last outcome price; the winner settles at 1
+}
+
+export interface GammaMarket {
+  conditionId: string;
+  questionId: string | null;
+  question: string | null;
+  active: boolean;
+  closed: boolean;
+  outcomes: string[];
+  outcomePrices: number[] | null; // Same order as outcomes
+  tokens: GammaToken[]; // Same order as outcomes
+}
+
+export interface GammaEvent {
+  slug: string;
+  title: string;
+  description: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  active: boolean;
+  closed: boolean;
+  liquidity: number | null;
+  volume: number | null;
+  priceToBeat: number | null; // eventMetadata.priceToBeat, set on Up/Down events once they start
+  markets: GammaMarket[];
+  conditionId: string; // markets[0], the only market of an Up/Down event
+  questionId: string | null; // markets[0]
+  clobTokenIds: string[]; // Every token of every market, in market then outcome order
+}
+
+/**
+ * A response that doesn't have the shape we expect. `path` points at the
+ * offending field, e.g. `markets[0].clobTokenIds`.
+ */
+export class GammaSchemaError extends Error {
+  constructor(readonly path: string, readonly detail: string, readonly slug: string | null = null) {
+    super(`Invalid Gamma response${slug ? ` for ${slug}` : ''} at ${path}: ${detail}`);
+    this.name = 'GammaSchemaError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function expectObject(value: unknown, path: string): RawObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new GammaSchemaError(path, `expected an object, got ${describe(value)}`);
+  }
+  return value as RawObject;
+}
+
+function optionalString(value: unknown, path: string): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') {
+    throw new GammaSchemaError(path, `expected a string, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function requiredString(value: unknown, path: string): string {
+  const parsed = optionalString(value, path);
+  if (!parsed) {
+    throw new GammaSchemaError(path, 'missing');
+  }
+  return parsed;
+}
+
+function optionalBoolean(value: unknown, path: string): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value !== 'boolean') {
+    throw new GammaSchemaError(path, `expected a boolean, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Gamma sends numbers both as numbers and as decimal strings
+ */
+function optionalNumber(value: unknown, path: string): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !isFinite(parsed)) {
+    throw new GammaSchemaError(path, `expected a number, got ${JSON.stringify(value)}`);
+  }
+  return parsed;
+}
+
+/**
+ * A string array, given either as an array or as a JSON-encoded array
+ */
+function stringList(value: unknown, path: string): string[] {
+  let list = value;
+  if (typeof value === 'string') {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      throw new GammaSchemaError(path, 'not valid JSON');
+    }
+  }
+  if (!Array.isArray(list)) {
+    throw new GammaSchemaError(path, `expected a list, got ${describe(list)}`);
+  }
+  return list.map((item, index) => {
+    if (typeof item !== 'string' && typeof item !== 'number') {
+      throw new GammaSchemaError(`${path}[${index}]`, `expected a string, got ${describe(item)}`);
+    }
+    return String(item);
+  });
+}
+
+/**
+ * First of several spellings of the same field that is present
+ */
+function pick(raw: RawObject, keys: string[]): { key: string; value: unknown } {
+  const key = keys.find(candidate => raw[candidate] !== undefined && raw[candidate] !== null) || keys[0];
+  return { key, value: raw[key] };
+}
+
+export function parseGammaMarket(value: unknown, path: string): GammaMarket {
+  const raw = expectObject(value, path);
+
+  const condition = pick(raw, ['conditionId', 'condition_id']);
+  const question = pick(raw, ['questionID', 'questionId', 'question_id']);
+  const outcomes = stringList(raw.outcomes, `${path}.outcomes`);
+
+  // Token IDs come as clobTokenIds on current responses, a tokens array on older ones
+  let tokenIds: string[];
+  if (raw.clobTokenIds !== undefined || raw.clob_token_ids !== undefined) {
+    const ids = pick(raw, ['clobTokenIds', 'clob_token_ids']);
+    tokenIds = stringList(ids.value, `${path}.${ids.key}`);
+  } else if (Array.isArray(raw.tokens)) {
+    tokenIds = raw.tokens.map((token, index) => {
+      const tokenPath = `${path}.tokens[${index}]`;
+      const id = pick(expectObject(token, tokenPath), ['token_id', 'tokenId', 'id']);
+      return requiredString(typeof id.value === 'number' ? String(id.value) : id.value, `${tokenPath}.${id.key}`);
+    });
+  } else {
+    throw new GammaSchemaError(`${path}.clobTokenIds`, 'missing');
+  }
+
+  if (tokenIds.length !== outcomes.length) {
+    throw new GammaSchemaError(`${path}.clobTokenIds`, `${tokenIds.length} tokens for ${outcomes.length} outcomes`);
+  }
+
+  let outcomePrices: number[] | null = null;
+  if (raw.outcomePrices !== undefined && raw.outcomePrices !== null) {
+    outcomePrices = stringList(raw.outcomePrices, `${path}.outcomePrices`)
+      .map((price, index) => {
+        const parsed = optionalNumber(price, `${path}.outcomePrices[${index}]`);
+        if (parsed === null) {
+          throw new GammaSchemaError(`${path}.outcomePrices[${index}]`, 'missing');
+        }
+        return parsed;
+      });
+    if (outcomePrices.length !== outcomes.length) {
+      throw new GammaSchemaError(`${path}.outcomePrices`, `${outcomePrices.length} prices for ${outcomes.length} outcomes`);
+    }
+  }
+
+  return {
+    conditionId: requiredString(condition.value, `${path}.${condition.key}`),
+    questionId: optionalString(question.value, `${path}.${question.key}`),
+    question: optionalString(raw.question, `${path}.question`),
+    active: optionalBoolean(raw.active, `${path}.active`),
+    closed: optionalBoolean(raw.closed, `${path}.closed`),
+    outcomes,
+    outcomePrices,
+    tokens: tokenIds.map((tokenId, index) => ({
+      tokenId,
+      outcome: outcomes[index],
+      price: outcomePrices ? outcomePrices[index] : null,
+    })),
+  };
+}
+
+/**
+ * Validate and normalize one Gamma event. Throws GammaSchemaError on any
+ * shape we don't recognise rather than leaving IDs undefined.
+ */
+export function parseGammaEvent(value: unknown): GammaEvent {
+  const raw = expectObject(value, '$');
+  const slug = requiredString(raw.slug, 'slug');
+
+  try {
+    if (!Array.isArray(raw.markets) || raw.markets.length === 0) {
+      throw new GammaSchemaError('markets', raw.markets === undefined ? 'missing' : 'expected a non-empty list');
+    }
+    const markets = raw.markets.map((market, index) => parseGammaMarket(market, `markets[${index}]`));
+
+    let priceToBeat: number | null = null;
+    if (raw.eventMetadata !== undefined && raw.eventMetadata !== null) {
+      const metadata = expectObject(raw.eventMetadata, 'eventMetadata');
+      priceToBeat = optionalNumber(metadata.priceToBeat, 'eventMetadata.priceToBeat');
+    }
+
+    const start = pick(raw, ['startDate', 'start_date']);
+    const end = pick(raw, ['endDate', 'end_date']);
+
+    return {
+      slug,
+      title: optionalString(raw.title, 'title') || '',
+      description: optionalString(raw.description, 'description'),
+      startDate: optionalString(start.value, start.key),
+      endDate: optionalString(end.value, end.key),
+      active: optionalBoolean(raw.active, 'active'),
+      closed: optionalBoolean(raw.closed, 'closed'),
+      liquidity: optionalNumber(raw.liquidity, 'liquidity'),
+      volume: optionalNumber(raw.volume, 'volume'),
+      priceToBeat,
+      markets,
+      conditionId: markets[0].conditionId,
+      questionId: markets[0].questionId,
+      clobTokenIds: markets.flatMap(market => market.tokens.map(token => token.tokenId)),
+    };
+  } catch (error) {
+    // Tag errors with the event they came from
+    if (error instanceof GammaSchemaError && !error.slug) {
+      throw new GammaSchemaError(error.path, error.detail, slug);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Token for an outcome label (case-insensitive). Looks in the market with
+ * `conditionId` if given, else the first market that has the outcome.
+ */
+export function findOutcomeToken(markets: GammaMarket[], outcome: string, conditionId?: string): GammaToken | null {
+  const label = outcome.toLowerCase();
+  for (const market of markets) {
+    if (conditionId && market.conditionId !== conditionId) continue;
+    const token = market.tokens.find(candidate => candidate.outcome.toLowerCase() === label);
+    if (token) return token;
+  }
+  return null;
+}
+
+/**
+ * Market and outcome a token belongs to
+ */
+export function findTokenOutcome(markets: GammaMarket[], tokenId: string): { market: GammaMarket; token: GammaToken } | null {
+  for (const market of markets) {
+    const token = market.tokens.find(candidate => candidate.tokenId === tokenId);
+    if (token) return { market, token };
+  }
+  return null;
+}
+
+/**
+ * Validate a response from the /events list endpoint. Events that fail
+ * validation are left out and returned as errors; a body that isn't a list
+ * at all throws.
+ */
+export function parseGammaEventList(value: unknown): { events: GammaEvent[]; errors: GammaSchemaError[] } {
+  const list = Array.isArray(value)
+    ? value
+    : (typeof value === 'object' && value !== null && Array.isArray((value as RawObject).data) ? (value as RawObject).data as unknown[] : null);
+  if (!list) {
+    throw new GammaSchemaError('$', `expected a list of events, got ${describe(value)}`);
+  }
+
+  const events: GammaEvent[] = [];
+  const errors: GammaSchemaError[] = [];
+  list.forEach((item, index) => {
+    try {
+      events.push(parseGammaEvent(item));
+    } catch (error) {
+      if (!(error instanceof GammaSchemaError)) throw error;
+      errors.push(error.slug ? error : new GammaSchemaError(`[${index}].${error.path}`, error.detail));
+    }
+  });
+  return { events, errors };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { buildDepthLadder, depthAtOrBetter, estimateBuyFill, maxBuyWithinSlippage } from './order-book-depth';
+import type { OrderBookSnapshot } from './types';
+
+type Levels = Array<[price: number, size: number]>;
+
+function book(bids: Levels, asks: Levels): OrderBookSnapshot {
+  return {
+    tokenId: '1760000401',
+    bids: bids.map(([price, size]) => ({ price, size })),
+    asks: asks.map(([price, size]) => ({ price, size })),
+    timestamp: 0,
+  };
+}
+
+// 20 shares for 10 USDC, 50 for 26, 100 for 60
+const BOOK = book([[0.48, 40], [0.47, 60]], [[0.5, 20], [0.52, 50], [0.6, 100]]);
+
+describe('estimateBuyFill', () => {
+  it('fills inside the best ask at its price', () => {
+    expect(estimateBuyFill(BOOK, 10)).toEqual({ shares: 20, notional: 10, averagePrice: 0.5 });
+  });
+
+  it('averages the levels it walks by volume', () => {
+    const fill = estimateBuyFill(BOOK, 36);
+    expect(fill.shares).toBeCloseTo(70);
+    expect(fill.notional).toBeCloseTo(36);
+    expect(fill.averagePrice).toBeCloseTo(36 / 70);
+  });
+
+  it('stops short when the book runs out', () => {
+    const fill = estimateBuyFill(BOOK, 200);
+    expect(fill.shares).toBeCloseTo(170);
+    expect(fill.notional).toBeCloseTo(96);
+  });
+
+  it('stops at the first ask above the limit', () => {
+    const fill = estimateBuyFill(BOOK, 100, 0.52);
+    expect(fill.shares).toBeCloseTo(70);
+    expect(fill.notional).toBeCloseTo(36);
+  });
+
+  it('has no average price on an empty book', () => {
+    expect(estimateBuyFill(book([], []), 10)).toEqual({ shares: 0, notional: 0, averagePrice: null });
+  });
+});
+
+describe('maxBuyWithinSlippage', () => {
+  it('spends up to where the average reaches the best ask plus the slippage', () => {
+    // Both levels up to 0.52, then 5 shares at 0.6 bring the average to 0.52
+    const amount = maxBuyWithinSlippage(BOOK, 0.02);
+    expect(amount).toBeCloseTo(39);
+    expect(estimateBuyFill(BOOK, amount).averagePrice).toBeCloseTo(0.52);
+  });
+
+  it('stays on the best ask without slippage', () => {
+    expect(maxBuyWithinSlippage(BOOK, 0)).toBeCloseTo(10);
+  });
+
+  it('spends the whole book when the slippage allows it', () => {
+    expect(maxBuyWithinSlippage(BOOK, 0.5)).toBeCloseTo(96);
+  });
+
+  it('spends nothing without asks', () => {
+    expect(maxBuyWithinSlippage(book([[0.48, 40]], []), 0.05)).toBe(0);
+  });
+});
+
+describe('depthAtOrBetter', () => {
+  it('sums the asks a BUY and the bids a SELL can take', () => {
+    const buy = depthAtOrBetter(BOOK, 'BUY', 0.52);
+    expect(buy.shares).toBe(70);
+    expect(buy.notional).toBeCloseTo(36);
+
+    const sell = depthAtOrBetter(BOOK, 'SELL', 0.48);
+    expect(sell.shares).toBe(40);
+    expect(sell.notional).toBeCloseTo(19.2);
+  });
+});
+
+describe('buildDepthLadder', () => {
+  it('accumulates depth from the best price out', () => {
+    const ladder = buildDepthLadder(BOOK, 2);
+
+    expect(ladder.asks.map(level => [level.price, level.cumulativeSize])).toEqual([[0.5, 20], [0.52, 70]]);
+    expect(ladder.asks[1].cumulativeNotional).toBeCloseTo(36);
+    expect(ladder.bids.map(level => [level.price, level.cumulativeSize])).toEqual([[0.48, 40], [0.47, 100]]);
+    expect(ladder.spread).toBeCloseTo(0.02);
+    expect(ladder.midpoint).toBeCloseTo(0.49);
+  });
+
+  it('has no spread or midpoint with one side empty', () => {
+    const ladder = buildDepthLadder(book([[0.48, 40]], []), 5);
+    expect(ladder.spread).toBeNull();
+    expect(ladder.midpoint).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import type { OrderBookLevel, OrderBookSnapshot, DepthLadder, DepthLevel } from './types';
+
+/**
+ * Depth calculations on order book snapshots. Prices are 0-1, sizes in shares.
+ */
+
+function accumulate(levels: OrderBookLevel[], maxLevels: number): DepthLevel[] {
+  let cumulativeSize = 0;
+  let cumulativeNotional = 0;
+  return levels.slice(0, maxLevels).map(level => {
+    cumulativeSize += level.size;
+    cumulativeNotional += level.size * level.price;
+    return { price: level.price, size: level.size, cumulativeSize, cumulativeNotional };
+  });
+}
+
+/**
+ * Ladder of the best `maxLevels` levels on each side, with cumulative depth
+ */
+export function buildDepthLadder(book: OrderBookSnapshot, maxLevels: number): DepthLadder {
+  const bestBid = book.bids.length > 0 ? book.bids[0].price : null;
+  const bestAsk = book.asks.length > 0 ? book.asks[0].price : null;
+  return {
+    tokenId: book.tokenId,
+    bids: accumulate(book.bids, maxLevels),
+    asks: accumulate(book.asks, maxLevels),
+    spread: bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null,
+    midpoint: bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null,
+    timestamp: book.timestamp,
+  };
+}
+
+/**
+ * Liquidity a BUY limited to `limitPrice` can take from the asks (or a SELL
+ * from the bids): shares, and the USDC they cost or pay
+ */
+export function depthAtOrBetter(book: OrderBookSnapshot, side: 'BUY' | 'SELL', limitPrice: number): { shares: number; notional: number } {
+  const levels = side === 'BUY'
+    ? book.asks.filter(level => level.price <= limitPrice)
+    : book.bids.filter(level => level.price >= limitPrice);
+  return levels.reduce(
+    (depth, level) => ({ shares: depth.shares + level.size, notional: depth.notional + level.size * level.price }),
+    { shares: 0, notional: 0 }
+  );
+}
+
+/**
+ * Walk the asks with `amount` USDC: shares bought, USDC spent, and the
+ * volume-weighted average price. Stops short if the book runs out, or at
+ * the first ask above `limitPrice` when one is given.
+ */
+export function estimateBuyFill(
+  book: OrderBookSnapshot,
+  amount: number,
+  limitPrice: number = Infinity
+): { shares: number; notional: number; averagePrice: number | null } {
+  let remaining = amount;
+  let shares = 0;
+  for (const level of book.asks) {
+    if (remaining <= 0 || level.price > limitPrice + 1e-9) break;
+    const spend = Math.min(remaining, level.size * level.price);
+    shares += spend / level.price;
+    remaining -= spend;
+  }
+  const notional = amount - remaining;
+  return { shares, notional, averagePrice: shares > 0 ? notional / shares : null };
+}
+
+/**
+ * Most USDC a BUY can spend while its average price stays within
+ * `maxSlippage` of the best ask
+ */
+export function maxBuyWithinSlippage(book: OrderBookSnapshot, maxSlippage: number): number {
+  if (book.asks.length === 0) return 0;
+
+  const limit = book.asks[0].price + maxSlippage;
+  let shares = 0;
+  let notional = 0;
+  for (const level of book.asks) {
+    if (level.price <= limit) {
+      // Levels at or under the limit can't pull the average above it
+      shares += level.size;
+      notional += level.size * level.price;
+      continue;
+    }
+    // Part of the first level above the limit, up to where the average reaches it
+    const partial = Math.min(level.size, (limit * shares - notional) / (level.price - limit));
+    notional += Math.max(0, partial) * level.price;
+    break;
+  }
+  return notional;
+}
@@ -0,0 +1,90 @@
+import { ORDER_SERVICE_BASE } from './config';
+import type { OrderExecutor, OrderResult, OpenOrderInfo, FillInfo, OrderServiceAccount, LimitOrderOptions, MarketOrderOptions } from './trading-types';
+
+/**
+ * Sends orders to the server-side order service (api/orders), which signs
+ * them with a key the browser never sees. Every request carries the
+ * service's auth token.
+ */
+
+/**
+ * The service refused a request or couldn't reach the exchange
+ */
+export class OrderServiceRequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'OrderServiceRequestError';
+  }
+}
+
+export class OrderServiceClient implements OrderExecutor {
+  constructor(private authToken: string, private baseUrl: string = ORDER_SERVICE_BASE) {}
+
+  /**
+   * Check the token and fetch the signing account and order caps
+   */
+  async connect(): Promise<OrderServiceAccount> {
+    return this.request<OrderServiceAccount>('GET', '/status');
+  }
+
+  async placeLimitOrder(
+    tokenId: string,
+    price: number,
+    size: number,
+    side: 'BUY' | 'SELL',
+    options: LimitOrderOptions = { timeInForce: 'GTC' }
+  ): Promise<OrderResult> {
+    return this.request<OrderResult>('POST', '/place', { tokenId, side, orderType: 'limit', price, size, ...options });
+  }
+
+  async placeMarketOrder(
+    tokenId: string,
+    amount: number,
+    side: 'BUY' | 'SELL',
+    options: MarketOrderOptions = { timeInForce: 'FOK' }
+  ): Promise<OrderResult> {
+    return this.request<OrderResult>('POST', '/place', { tokenId, side, orderType: 'market', amount, ...options });
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    const { canceled } = await this.request<{ canceled: string[] }>('POST', '/cancel', { orderId });
+    return canceled.includes(orderId);
+  }
+
+  async cancelAll(): Promise<string[]> {
+    const { canceled } = await this.request<{ canceled: string[] }>('POST', '/cancel', { all: true });
+    return canceled;
+  }
+
+  async getOrder(orderId: string): Promise<OpenOrderInfo> {
+    const { order } = await this.request<{ order: OpenOrderInfo }>('GET', `/status?orderId=${encodeURIComponent(orderId)}`);
+    return order;
+  }
+
+  async getTrades(tokenId?: string, market?: string): Promise<FillInfo[]> {
+    const query = (tokenId ? `&tokenId=${encodeURIComponent(tokenId)}` : '')
+      + (market ? `&market=${encodeURIComponent(market)}` : '');
+    const { fills } = await this.request<{ fills: FillInfo[] }>('GET', `/status?fills=1${query}`);
+    return fills;
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': `Bearer ${this.authToken}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      cache: 'no-store',
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = data?.message ? `${data.error}: ${data.message}` : data?.error;
+      throw new OrderServiceRequestError(response.status, message || `Order service returned ${response.status}`);
+    }
+    return data as T;
+  }
+}
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PaperExchange } from './paper-exchange';
+import { FOK_KILLED_ERROR, FAK_KILLED_ERROR } from './clob-orders';
+import { setClock } from './clock';
+import type { OrderBookSnapshot, TradePrint } from './types';
+
+const TOKEN = '1760000401';
+const START = Date.parse('2026-03-09T14:00:00Z');
+
+type Levels = Array<[price: number, size: number]>;
+
+function book(bids: Levels, asks: Levels): OrderBookSnapshot {
+  return {
+    tokenId: TOKEN,
+    bids: bids.map(([price, size]) => ({ price, size })),
+    asks: asks.map(([price, size]) => ({ price, size })),
+    timestamp: START,
+  };
+}
+
+function print(price: number, size: number, side: 'BUY' | 'SELL'): TradePrint {
+  return { tokenId: TOKEN, price, size, side, timestamp: START };
+}
+
+let current: OrderBookSnapshot | null;
+let latency: number;
+let exchange: PaperExchange;
+
+async function matched(orderId: string): Promise<number> {
+  return (await exchange.getOrder(orderId)).sizeMatched;
+}
+
+beforeEach(() => {
+  current = book([[0.45, 30], [0.44, 100]], [[0.5, 20], [0.6, 50]]);
+  latency = 0;
+  exchange = new PaperExchange(async () => current, () => latency);
+});
+
+describe('immediate orders', () => {
+  it('walk the asks with a BUY amount in USDC', async () => {
+    const result = await exchange.placeMarketOrder(TOKEN, 25, 'BUY', { timeInForce: 'FOK' });
+
+    // 20 shares at 0.5 for 10 USDC, then 15 USDC of the 0.6 level
+    expect(result.status).toBe('matched');
+    expect(result.makingAmount).toBeCloseTo(25);
+    expect(result.takingAmount).toBeCloseTo(45);
+    const fills = await exchange.getTrades(TOKEN);
+    expect(fills.map(fill => [fill.price, fill.size])).toEqual([[0.5, 20], [0.6, 25]]);
+  });
+
+  it('walk the bids with a SELL amount in shares down to the limit', async () => {
+    const result = await exchange.placeMarketOrder(TOKEN, 40, 'SELL', { timeInForce: 'FAK', price: 0.44 });
+
+    expect(result.makingAmount).toBeCloseTo(40);
+    expect(result.takingAmount).toBeCloseTo(30 * 0.45 + 10 * 0.44);
+  });
+
+  it('kill an FOK order the book within its limit can\'t fill', async () => {
+    await expect(exchange.placeMarketOrder(TOKEN, 25, 'BUY', { timeInForce: 'FOK', price: 0.5 }))
+      .rejects.toThrow(FOK_KILLED_ERROR);
+    expect(await exchange.getTrades()).toEqual([]);
+  });
+
+  it('fill what a FAK order can and drop the rest', async () => {
+    const result = await exchange.placeMarketOrder(TOKEN, 25, 'BUY', { timeInForce: 'FAK', price: 0.5 });
+
+    expect(result.takingAmount).toBeCloseTo(20);
+    expect(result.makingAmount).toBeCloseTo(10);
+    const order = await exchange.getOrder(result.orderId);
+    expect(order.status).toBe('MATCHED');
+    expect(order.originalSize).toBeCloseTo(20);
+  });
+
+  it('kill a FAK order with nothing inside its limit', async () => {
+    await expect(exchange.placeMarketOrder(TOKEN, 25, 'BUY', { timeInForce: 'FAK', price: 0.49 }))
+      .rejects.toThrow(FAK_KILLED_ERROR);
+  });
+});
+
+describe('limit orders', () => {
+  it('take the crossing depth and rest the rest', async () => {
+    const result = await exchange.placeLimitOrder(TOKEN, 0.55, 50, 'BUY');
+
+    expect(result.status).toBe('live');
+    expect(result.takingAmount).toBeCloseTo(20);
+    expect(result.makingAmount).toBeCloseTo(10);
+    const order = await exchange.getOrder(result.orderId);
+    expect(order.status).toBe('LIVE');
+    expect(order.sizeMatched).toBeCloseTo(20);
+    expect(exchange.hasOpenOrders(TOKEN)).toBe(true);
+  });
+
+  it('fill only once prints at their price get through the queue ahead', async () => {
+    const { orderId } = await exchange.placeLimitOrder(TOKEN, 0.45, 10, 'BUY');
+
+    exchange.handleTradePrint(print(0.45, 25, 'SELL'));
+    expect(await matched(orderId)).toBe(0);
+    exchange.handleTradePrint(print(0.45, 8, 'SELL'));
+    expect(await matched(orderId)).toBe(3);
+    exchange.handleTradePrint(print(0.45, 20, 'SELL'));
+    expect(await matched(orderId)).toBe(10);
+    expect((await exchange.getOrder(orderId)).status).toBe('MATCHED');
+  });
+
+  it('ignore prints from their own side', async () => {
+    const { orderId } = await exchange.placeLimitOrder(TOKEN, 0.45, 10, 'BUY');
+
+    exchange.handleTradePrint(print(0.45, 100, 'BUY'));
+    expect(await matched(orderId)).toBe(0);
+  });
+
+  it('move up the queue as size leaves their level', async () => {
+    const { orderId } = await exchange.placeLimitOrder(TOKEN, 0.45, 10, 'BUY');
+
+    current = book([[0.45, 4], [0.44, 100]], [[0.5, 20]]);
+    exchange.handleBook(current);
+    exchange.handleTradePrint(print(0.45, 6, 'SELL'));
+    expect(await matched(orderId)).toBe(2);
+  });
+
+  it('cap a print through their price at its size plus the level behind the queue', async () => {
+    const { orderId } = await exchange.placeLimitOrder(TOKEN, 0.45, 100, 'BUY');
+
+    // 20 shares joined the level behind us
+    exchange.handleBook(book([[0.45, 50], [0.44, 100]], [[0.5, 20]]));
+    exchange.handleTradePrint(print(0.44, 5, 'SELL'));
+    expect(await matched(orderId)).toBe(25);
+
+    // The level was swept, so the next print through fills on its own size
+    exchange.handleTradePrint(print(0.44, 5, 'SELL'));
+    expect(await matched(orderId)).toBe(30);
+  });
+
+  it('fill on the other side crossing them only once per share', async () => {
+    const { orderId } = await exchange.placeLimitOrder(TOKEN, 0.49, 100, 'BUY');
+
+    exchange.handleBook(book([[0.45, 30]], [[0.49, 10], [0.5, 20]]));
+    expect(await matched(orderId)).toBe(10);
+    exchange.handleBook(book([[0.45, 30]], [[0.49, 10], [0.5, 20]]));
+    expect(await matched(orderId)).toBe(10);
+    exchange.handleBook(book([[0.45, 30]], [[0.48, 5], [0.49, 25]]));
+    expect(await matched(orderId)).toBe(30);
+  });
+
+  it('don\'t count crossing size they already took when placed', async () => {
+    current = book([[0.45, 30]], [[0.5, 20], [0.6, 50]]);
+    const { orderId } = await exchange.placeLimitOrder(TOKEN, 0.5, 50, 'BUY');
+    expect(await matched(orderId)).toBe(20);
+
+    exchange.handleBook(current);
+    expect(await matched(orderId)).toBe(20);
+  });
+
+  it('can be cancelled while resting, and not after', async () => {
+    const { orderId } = await exchange.placeLimitOrder(TOKEN, 0.45, 10, 'BUY');
+
+    expect(await exchange.cancelOrder(orderId)).toBe(true);
+    expect(await exchange.cancelOrder(orderId)).toBe(false);
+    exchange.handleTradePrint(print(0.44, 50, 'SELL'));
+    expect(await matched(orderId)).toBe(0);
+  });
+});
+
+describe('timing', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = START;
+    setClock(() => now);
+  });
+
+  afterEach(() => {
+    setClock(null);
+    vi.useRealTimers();
+  });
+
+  it('cancels a GTD order at its expiration less a minute', async () => {
+    const expiration = START / 1000 + 180;
+    const { orderId } = await exchange.placeLimitOrder(TOKEN, 0.45, 10, 'BUY', { timeInForce: 'GTD', expiration });
+
+    now = START + 119_000;
+    expect((await exchange.getOrder(orderId)).status).toBe('LIVE');
+    now = START + 120_000;
+    expect((await exchange.getOrder(orderId)).status).toBe('CANCELED');
+    expect(exchange.hasOpenOrders(TOKEN)).toBe(false);
+  });
+
+  it('rejects a GTD order that would expire within the minute', async () => {
+    await expect(exchange.placeLimitOrder(TOKEN, 0.45, 10, 'BUY', { timeInForce: 'GTD', expiration: START / 1000 + 60 }))
+      .rejects.toThrow('invalid expiration value');
+  });
+
+  it('reaches the book after the latency on the app clock', async () => {
+    vi.useFakeTimers();
+    latency = 250;
+    let placed = false;
+    const pending = exchange.placeLimitOrder(TOKEN, 0.45, 10, 'BUY').then(result => {
+      placed = true;
+      return result;
+    });
+
+    // Wall time passing doesn't move the app clock
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(placed).toBe(false);
+
+    now = START + 250;
+    await vi.advanceTimersByTimeAsync(50);
+    expect(placed).toBe(true);
+    expect((await exchange.getOrder((await pending).orderId)).createdAt).toBe(START + 250);
+  });
+
+  it('doesn\'t strand an order in flight when the clock stops', async () => {
+    vi.useFakeTimers();
+    latency = 250;
+    const pending = exchange.placeLimitOrder(TOKEN, 0.45, 10, 'BUY');
+
+    // A replay finishing leaves the clock on its final instant
+    setClock(() => START + 100);
+    await vi.advanceTimersByTimeAsync(0);
+    const { orderId } = await pending;
+    expect((await exchange.getOrder(orderId)).status).toBe('LIVE');
+  });
+
+  it('keeps prints during the book lookup from jumping the queue', async () => {
+    let release!: () => void;
+    const lookup = new Promise<void>(resolve => { release = resolve; });
+    exchange = new PaperExchange(async () => {
+      await lookup;
+      return current;
+    }, () => 0);
+
+    const pending = exchange.placeLimitOrder(TOKEN, 0.45, 10, 'BUY');
+    exchange.handleTradePrint(print(0.45, 50, 'SELL'));
+    release();
+    const { orderId } = await pending;
+
+    expect(await matched(orderId)).toBe(0);
+  });
+});
@@ -0,0 +1,367 @@
+import type { OrderExecutor, OrderResult, OpenOrderInfo, FillInfo, LimitOrderOptions, MarketOrderOptions } from './trading-types';
+import type { OrderBookLevel, OrderBookSnapshot, TradePrint } from './types';
+import { GTD_SECURITY_THRESHOLD, FOK_KILLED_ERROR, FAK_KILLED_ERROR } from './clob-orders';
+import * as clock from './clock';
+
+/**
+ * Simulated exchange for paper trading. It takes the same orders as the live
+ * executors and answers the same way, so the strategy runs one code path
+ * whether or not a signer is connected. Fills follow the market data:
+ *
+ * - Orders and cancels reach the exchange after the configured latency,
+ *   measured on the app clock so replays keep their timing. One still on
+ *   its way when a replay ends arrives then.
+ * - Immediate orders, and the marketable part of a limit order, take the
+ *   book's depth up to their limit price.
+ * - The rest of a limit order joins the back of the queue at its price.
+ *   Prints at that price work through the queue ahead of it, then fill it.
+ *   Size leaving the level shortens the queue ahead.
+ * - A print through the price means the level was swept: the order fills
+ *   up to the print's size plus what the book last showed resting behind
+ *   the queue ahead. The other side of the book crossing the price fills it
+ *   with crossing size it hasn't already matched against: our fills don't
+ *   take that size out of the streamed book, so it isn't counted again.
+ * - GTD orders are cancelled at their expiration less the exchange's minute.
+ *
+ * Our own fills don't take liquidity out of the streamed book. Prices are
+ * 0-1 and sizes in shares, as on the exchange.
+ */
+
+const EPSILON = 1e-9;
+
+interface PaperOrder extends OpenOrderInfo {
+  queueAhead: number; // Shares resting at our price ahead of us
+  levelSize: number; // Shares resting at our price in the last book, ahead of us or behind
+  crossingSeen: Map<number, number>; // Price -> crossing size already matched against, from the last book
+  expiresAt: number | null; // ms on the app clock; GTD only
+}
+
+/**
+ * Wait `ms` on the app clock. Swapping the clock ends the wait early: a
+ * finished replay stops the clock short of `until`, and a clock handed back
+ * to wall time isn't on the same timeline.
+ */
+function wait(ms: number): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+  const until = clock.now() + ms;
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout>;
+    const done = () => {
+      clearTimeout(timer);
+      stopListening();
+      resolve();
+    };
+    const stopListening = clock.onClockChange(done);
+    const check = () => {
+      if (clock.now() >= until) {
+        done();
+      } else {
+        timer = setTimeout(check, Math.min(ms, 50));
+      }
+    };
+    timer = setTimeout(check, Math.min(ms, 50));
+  });
+}
+
+/**
+ * The levels an order on `side` takes from, best first: a BUY takes the asks
+ * at or under `limitPrice`, a SELL the bids at or over it
+ */
+function takeableLevels(book: OrderBookSnapshot, side: 'BUY' | 'SELL', limitPrice: number): OrderBookLevel[] {
+  return side === 'BUY'
+    ? book.asks.filter(level => level.price <= limitPrice + EPSILON)
+    : book.bids.filter(level => level.price >= limitPrice - EPSILON);
+}
+
+/**
+ * Size resting at exactly `price` on the order's own side of the book
+ */
+function sizeAtPrice(book: OrderBookSnapshot, side: 'BUY' | 'SELL', price: number): number {
+  const levels = side === 'BUY' ? book.bids : book.asks;
+  return levels.find(level => Math.abs(level.price - price) < EPSILON)?.size ?? 0;
+}
+
+export class PaperExchange implements OrderExecutor {
+  private orders: Map<string, PaperOrder> = new Map();
+  private fills: FillInfo[] = [];
+  private sequence = 0;
+
+  /**
+   * @param getBook Current order book of a token, or null without one
+   * @param getLatency Simulated one-way latency to the exchange, in ms
+   */
+  constructor(
+    private getBook: (tokenId: string) => Promise<OrderBookSnapshot | null>,
+    private getLatency: () => number
+  ) {}
+
+  /**
+   * Whether any order is resting on a token (all tokens when omitted)
+   */
+  hasOpenOrders(tokenId?: string): boolean {
+    for (const order of this.orders.values()) {
+      if (order.status === 'LIVE' && (!tokenId || order.tokenId === tokenId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async placeLimitOrder(
+    tokenId: string,
+    price: number,
+    size: number,
+    side: 'BUY' | 'SELL',
+    options: LimitOrderOptions = { timeInForce: 'GTC' }
+  ): Promise<OrderResult> {
+    if (options.timeInForce === 'GTD' && options.expiration === undefined) {
+      throw new Error('GTD orders need an expiration');
+    }
+    await wait(this.getLatency());
+
+    const expiresAt = options.timeInForce === 'GTD' ? (options.expiration! - GTD_SECURITY_THRESHOLD) * 1000 : null;
+    if (expiresAt !== null && expiresAt <= clock.now()) {
+      throw new Error('invalid expiration value. GTD orders need an expiration more than a minute away');
+    }
+
+    // Books and prints that arrive while this waits can't match an order
+    // that isn't on the book yet, so it's only added once its queue is known
+    const book = await this.getBook(tokenId);
+    const levelSize = book ? sizeAtPrice(book, side, price) : 0;
+    const order: PaperOrder = {
+      orderId: this.nextId('order'),
+      tokenId,
+      side,
+      price,
+      originalSize: size,
+      sizeMatched: 0,
+      status: 'LIVE',
+      createdAt: clock.now(),
+      queueAhead: levelSize, // The back of the queue
+      levelSize,
+      crossingSeen: new Map(),
+      expiresAt,
+    };
+
+    // Take whatever crosses the book, then rest
+    const crossing = book ? takeableLevels(book, side, price) : [];
+    const taken = this.take(order, crossing, size, false);
+    order.crossingSeen = new Map(crossing.map(level => [level.price, level.size]));
+    if (order.sizeMatched >= order.originalSize - EPSILON) {
+      order.status = 'MATCHED';
+    }
+    this.orders.set(order.orderId, order);
+
+    return this.toResult(order, taken);
+  }
+
+  async placeMarketOrder(
+    tokenId: string,
+    amount: number,
+    side: 'BUY' | 'SELL',
+    options: MarketOrderOptions = { timeInForce: 'FOK' }
+  ): Promise<OrderResult> {
+    await wait(this.getLatency());
+
+    const book = await this.getBook(tokenId);
+    const limitPrice = options.price ?? (side === 'BUY' ? 1 : 0);
+    const levels = book ? takeableLevels(book, side, limitPrice) : [];
+
+    // A BUY is for `amount` USDC, a SELL for `amount` shares
+    const available = levels.reduce((total, level) => total + (side === 'BUY' ? level.size * level.price : level.size), 0);
+    if (options.timeInForce === 'FOK' && available < amount - EPSILON) {
+      throw new Error(FOK_KILLED_ERROR);
+    }
+    if (available <= EPSILON) {
+      throw new Error(FAK_KILLED_ERROR);
+    }
+
+    const order: PaperOrder = {
+      orderId: this.nextId('order'),
+      tokenId,
+      side,
+      price: limitPrice,
+      originalSize: 0, // Set from the fill; the unfilled rest of a FAK is cancelled
+      sizeMatched: 0,
+      status: 'MATCHED',
+      createdAt: clock.now(),
+      queueAhead: 0,
+      levelSize: 0,
+      crossingSeen: new Map(),
+      expiresAt: null,
+    };
+    const taken = this.take(order, levels, amount, side === 'BUY');
+    order.originalSize = order.sizeMatched;
+    this.orders.set(order.orderId, order);
+
+    return this.toResult(order, taken);
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    await wait(this.getLatency());
+    const order = this.orders.get(orderId);
+    this.expire(order);
+    if (order?.status !== 'LIVE') {
+      return false;
+    }
+    order.status = 'CANCELED';
+    return true;
+  }
+
+  async cancelAll(): Promise<string[]> {
+    await wait(this.getLatency());
+    const canceled: string[] = [];
+    this.orders.forEach(order => {
+      this.expire(order);
+      if (order.status === 'LIVE') {
+        order.status = 'CANCELED';
+        canceled.push(order.orderId);
+      }
+    });
+    return canceled;
+  }
+
+  async getOrder(orderId: string): Promise<OpenOrderInfo> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order lookup failed: order ${orderId} not found`);
+    }
+    this.expire(order);
+    const { queueAhead: _queueAhead, levelSize: _levelSize, crossingSeen: _crossingSeen, expiresAt: _expiresAt, ...info } = order;
+    return info;
+  }
+
+  async getTrades(tokenId?: string): Promise<FillInfo[]> {
+    return this.fills.filter(fill => !tokenId || fill.tokenId === tokenId);
+  }
+
+  /**
+   * Match resting orders against a new state of the book: crossing size on
+   * the other side that wasn't there, or was smaller, in the last book fills
+   * an order, and the queue ahead can only be as long as the size still
+   * resting at its price
+   */
+  handleBook(book: OrderBookSnapshot): void {
+    this.orders.forEach(order => {
+      if (order.tokenId !== book.tokenId) return;
+      this.expire(order);
+      if (order.status !== 'LIVE') return;
+
+      const crossing = takeableLevels(book, order.side, order.price);
+      const fresh = crossing.reduce((total, level) => total + Math.max(0, level.size - (order.crossingSeen.get(level.price) ?? 0)), 0);
+      order.crossingSeen = new Map(crossing.map(level => [level.price, level.size]));
+      if (fresh > 0) {
+        this.fillResting(order, fresh);
+      }
+      order.levelSize = sizeAtPrice(book, order.side, order.price);
+      order.queueAhead = Math.min(order.queueAhead, order.levelSize);
+    });
+  }
+
+  /**
+   * Match resting orders against a trade print. A print at an order's price
+   * from the other side works through the queue ahead of it first. A print
+   * through its price means the level emptied: what rested behind the queue
+   * ahead traded, and the print's own size would have reached us before
+   * trading at a worse price.
+   */
+  handleTradePrint(print: TradePrint): void {
+    this.orders.forEach(order => {
+      if (order.tokenId !== print.tokenId) return;
+      this.expire(order);
+      if (order.status !== 'LIVE') return;
+
+      const through = order.side === 'BUY' ? print.price < order.price - EPSILON : print.price > order.price + EPSILON;
+      if (through) {
+        this.fillResting(order, print.size + Math.max(0, order.levelSize - order.queueAhead));
+        order.queueAhead = 0;
+        order.levelSize = 0;
+        return;
+      }
+
+      const atPrice = Math.abs(print.price - order.price) < EPSILON && print.side !== order.side;
+      if (!atPrice) return;
+
+      const reachingUs = print.size - order.queueAhead;
+      order.queueAhead = Math.max(0, order.queueAhead - print.size);
+      if (reachingUs > 0) {
+        this.fillResting(order, reachingUs);
+      }
+    });
+  }
+
+  /**
+   * Fill up to `shares` of a resting order, as the maker at its own price
+   */
+  private fillResting(order: PaperOrder, shares: number): void {
+    const size = Math.min(shares, order.originalSize - order.sizeMatched);
+    if (size <= EPSILON) return;
+    this.recordFill(order, order.price, size);
+    if (order.sizeMatched >= order.originalSize - EPSILON) {
+      order.status = 'MATCHED';
+    }
+  }
+
+  /**
+   * Take liquidity from `levels` as the taker, for `amount` shares, or
+   * `amount` USDC when `byNotional`
+   */
+  private take(order: PaperOrder, levels: OrderBookLevel[], amount: number, byNotional: boolean): { shares: number; notional: number } {
+    let remaining = amount;
+    let shares = 0;
+    let notional = 0;
+    for (const level of levels) {
+      if (remaining <= EPSILON) break;
+      const size = byNotional ? Math.min(level.size, remaining / level.price) : Math.min(level.size, remaining);
+      this.recordFill(order, level.price, size);
+      shares += size;
+      notional += size * level.price;
+      remaining -= byNotional ? size * level.price : size;
+    }
+    return { shares, notional };
+  }
+
+  private recordFill(order: PaperOrder, price: number, size: number): void {
+    order.sizeMatched += size;
+    this.fills.push({
+      tradeId: this.nextId('fill'),
+      orderId: order.orderId,
+      tokenId: order.tokenId,
+      side: order.side,
+      price,
+      size,
+      status: 'MATCHED',
+      transactionHash: null, // Nothing settles on chain
+      matchTime: clock.now(),
+    });
+  }
+
+  /**
+   * Cancel a GTD order whose time is up, as the exchange would
+   */
+  private expire(order: PaperOrder | undefined): void {
+    if (order?.status === 'LIVE' && order.expiresAt !== null && clock.now() >= order.expiresAt) {
+      order.status = 'CANCELED';
+    }
+  }
+
+  /**
+   * The exchange's answer: a BUY gives USDC (making) for shares (taking),
+   * a SELL the reverse
+   */
+  private toResult(order: PaperOrder, taken: { shares: number; notional: number }): OrderResult {
+    return {
+      orderId: order.orderId,
+      status: order.status === 'MATCHED' ? 'matched' : 'live',
+      transactionHashes: [],
+      takingAmount: order.side === 'BUY' ? taken.shares : taken.notional,
+      makingAmount: order.side === 'BUY' ? taken.notional : taken.shares,
+    };
+  }
+
+  private nextId(kind: 'order' | 'fill'): string {
+    return `paper-${kind}-${clock.now()}-${++this.sequence}`;
+  }
+}
@@ -0,0 +1,165 @@
+import * as clock from './clock';
+import type { EventDisplayData } from './event-manager';
+import type { CryptoSymbol, PriceToBeat } from './types';
+
+const STORAGE_KEY = 'priceToBeat';
+const MAX_ENTRIES = 500;
+const EXACT_TOLERANCE = 2000; // ms between the start and the nearest tick for it to count as exact
+const TICK_RETENTION = 2 * 60 * 60 * 1000; // Keep two hours of ticks per symbol for backfill
+const MAX_TICKS_PER_SYMBOL = 20000;
+
+interface Tick {
+  timestamp: number; // Oracle timestamp (ms)
+  value: number;
+}
+
+/**
+ * Price to beat per event, taken from the Chainlink tick nearest the event's
+ * start. Keeps a short tick history per symbol so a start we were connected
+ * for (or that a recording covers) can still be found after the fact.
+ * Resolved prices are persisted so a reload keeps them.
+ */
+export class PriceToBeatStore {
+  private entries: Map<string, PriceToBeat> = new Map();
+  private ticks: Map<CryptoSymbol, Tick[]> = new Map();
+
+  constructor() {
+    this.load();
+  }
+
+  /**
+   * Add an oracle tick. Out-of-order ticks (e.g. from a backfill) are inserted in place.
+   */
+  recordTick(symbol: CryptoSymbol, timestamp: number, value: number): void {
+    let ticks = this.ticks.get(symbol);
+    if (!ticks) {
+      ticks = [];
+      this.ticks.set(symbol, ticks);
+    }
+
+    const last = ticks[ticks.length - 1];
+    if (!last || timestamp > last.timestamp) {
+      ticks.push({ timestamp, value });
+    } else {
+      const index = this.lowerBound(ticks, timestamp);
+      if (ticks[index]?.timestamp === timestamp) {
+        return;
+      }
+      ticks.splice(index, 0, { timestamp, value });
+    }
+
+    const cutoff = ticks[ticks.length - 1].timestamp - TICK_RETENTION;
+    let drop = 0;
+    while (drop < ticks.length && (ticks[drop].timestamp < cutoff || ticks.length - drop > MAX_TICKS_PER_SYMBOL)) {
+      drop++;
+    }
+    if (drop > 0) {
+      ticks.splice(0, drop);
+    }
+  }
+
+  get(slug: string): PriceToBeat | null {
+    return this.entries.get(slug) || null;
+  }
+
+  /**
+   * Work out (or improve) the price to beat for an event that has started.
+   * Exact values are final; estimates are replaced as better data arrives.
+   * Returns true if the stored value changed.
+   */
+  resolve(event: EventDisplayData, symbol: CryptoSymbol): boolean {
+    const existing = this.entries.get(event.slug);
+    if (existing?.exact) {
+      return false;
+    }
+
+    const fromGamma = event.rawData?.priceToBeat;
+    if (fromGamma && fromGamma > 0) {
+      return this.set(event.slug, { value: fromGamma, exact: true, source: 'gamma', tickTimestamp: null });
+    }
+
+    const start = event.timestamp * 1000;
+    if (clock.now() < start) {
+      return false;
+    }
+
+    const ticks = this.ticks.get(symbol) || [];
+    const index = this.lowerBound(ticks, start);
+    const before = ticks[index - 1];
+    const after = ticks[index];
+    const nearest = !before ? after
+      : !after ? before
+      : (start - before.timestamp <= after.timestamp - start ? before : after);
+    if (!nearest) {
+      return false;
+    }
+
+    // Until a tick at or past the start arrives, a closer one may still come
+    const exact = after !== undefined && Math.abs(nearest.timestamp - start) <= EXACT_TOLERANCE;
+    if (!exact && existing?.tickTimestamp != null
+      && Math.abs(existing.tickTimestamp - start) <= Math.abs(nearest.timestamp - start)) {
+      return false;
+    }
+    if (existing && existing.value === nearest.value && existing.exact === exact) {
+      return false;
+    }
+
+    return this.set(event.slug, { value: nearest.value, exact, source: 'tick', tickTimestamp: nearest.timestamp });
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.ticks.clear();
+    this.save();
+  }
+
+  private set(slug: string, entry: PriceToBeat): boolean {
+    // Re-insert so the newest entries sort last for pruning
+    this.entries.delete(slug);
+    this.entries.set(slug, entry);
+    while (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * Index of the first tick at or after `timestamp`
+   */
+  private lowerBound(ticks: Tick[], timestamp: number): number {
+    let low = 0;
+    let high = ticks.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (ticks[mid].timestamp < timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private load(): void {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        const entries: Record<string, PriceToBeat> = JSON.parse(saved);
+        Object.entries(entries).forEach(([slug, entry]) => this.entries.set(slug, entry));
+      }
+    } catch (error) {
+      console.warn('Failed to load prices to beat:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this.entries)));
+    } catch (error) {
+      console.warn('Failed to save prices to beat:', error);
+    }
+  }
+}
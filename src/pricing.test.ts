@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { roundToTick, isValidTickPrice, tradingFee, netProfit } from './pricing';
+
+describe('roundToTick', () => {
+  it('rounds a BUY limit down and a SELL limit up', () => {
+    expect(roundToTick(0.567, 0.01, 'BUY')).toBe(0.56);
+    expect(roundToTick(0.567, 0.01, 'SELL')).toBe(0.57);
+    expect(roundToTick(0.5678, 0.001, 'BUY')).toBe(0.567);
+    expect(roundToTick(0.5671, 0.001, 'SELL')).toBe(0.568);
+  });
+
+  it('leaves prices already on the grid alone despite float error', () => {
+    expect(roundToTick(0.57, 0.01, 'BUY')).toBe(0.57);
+    expect(roundToTick(0.1 + 0.2, 0.01, 'SELL')).toBe(0.3);
+    expect(roundToTick(0.58 - 0.01, 0.01, 'BUY')).toBe(0.57);
+  });
+});
+
+describe('isValidTickPrice', () => {
+  it('keeps prices at least a tick inside 0 and 1', () => {
+    expect(isValidTickPrice(0.01, 0.01)).toBe(true);
+    expect(isValidTickPrice(0.99, 0.01)).toBe(true);
+    expect(isValidTickPrice(0.005, 0.01)).toBe(false);
+    expect(isValidTickPrice(0.995, 0.01)).toBe(false);
+    expect(isValidTickPrice(0.999, 0.001)).toBe(true);
+  });
+});
+
+describe('tradingFee', () => {
+  it('charges the rate on the cheaper side of the price', () => {
+    // 200 bps on min(p, 1 - p) per share
+    expect(tradingFee(200, 0.3, 100)).toBeCloseTo(0.6);
+    expect(tradingFee(200, 0.8, 100)).toBeCloseTo(0.4);
+    expect(tradingFee(200, 0.5, 100)).toBeCloseTo(1);
+  });
+
+  it('is nothing on a market without fees', () => {
+    expect(tradingFee(0, 0.4, 100)).toBe(0);
+  });
+});
+
+describe('netProfit', () => {
+  it('nets both legs\' fees out of a winning trade', () => {
+    const entryFees = tradingFee(200, 0.6, 100);
+    const pnl = netProfit(100, 0.6, 0.9, entryFees, 200);
+
+    expect(entryFees).toBeCloseTo(0.8);
+    expect(pnl.gross).toBeCloseTo(30);
+    expect(pnl.exitFees).toBeCloseTo(0.2);
+    expect(pnl.net).toBeCloseTo(29);
+  });
+
+  it('makes a losing trade lose the fees too', () => {
+    const pnl = netProfit(50, 0.6, 0.5, tradingFee(200, 0.6, 50), 200);
+
+    expect(pnl.gross).toBeCloseTo(-5);
+    expect(pnl.exitFees).toBeCloseTo(0.5);
+    expect(pnl.net).toBeCloseTo(-5.9);
+  });
+
+  it('makes a flat trade cost its fees', () => {
+    const pnl = netProfit(100, 0.7, 0.7, tradingFee(100, 0.7, 100), 100);
+    expect(pnl.net).toBeCloseTo(-0.6);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Exchange pricing rules: tick sizes and trading fees. Prices are 0-1.
+ */
+
+export const MIN_TICK_SIZE = 0.001; // Finest tick any CLOB market uses
+export const DEFAULT_TICK_SIZE = 0.01;
+
+/**
+ * Snap a price to the tick grid: down for a BUY limit (never pay more than
+ * asked), up for a SELL limit (never accept less)
+ */
+export function roundToTick(price: number, tickSize: number, side: 'BUY' | 'SELL'): number {
+  const ticks = price / tickSize;
+  // Absorb float error so prices already on the grid stay put
+  const snapped = side === 'BUY' ? Math.floor(ticks + 1e-9) : Math.ceil(ticks - 1e-9);
+  const decimals = Math.max(0, Math.round(-Math.log10(tickSize)));
+  return parseFloat((snapped * tickSize).toFixed(decimals));
+}
+
+/**
+ * Orders must sit strictly inside (0, 1), at least one tick from either end
+ */
+export function isValidTickPrice(price: number, tickSize: number): boolean {
+  return price >= tickSize - 1e-9 && price <= 1 - tickSize + 1e-9;
+}
+
+/**
+ * Fee in USDC for trading `shares` at `price`. The CLOB charges the base
+ * rate on the cheaper side of the trade, min(price, 1 - price) per share.
+ */
+export function tradingFee(feeRateBps: number, price: number, shares: number): number {
+  return (feeRateBps / 10000) * Math.min(price, 1 - price) * shares;
+}
+
+/**
+ * P&L in USDC of selling `shares` bought at `entryPrice` for `exitPrice`:
+ * the price move (gross), and that less `entryFees` paid for those shares
+ * and the exit's own fee (net)
+ */
+export function netProfit(
+  shares: number,
+  entryPrice: number,
+  exitPrice: number,
+  entryFees: number,
+  feeRateBps: number
+): { gross: number; exitFees: number; net: number } {
+  const gross = shares * (exitPrice - entryPrice);
+  const exitFees = tradingFee(feeRateBps, exitPrice, shares);
+  return { gross, exitFees, net: gross - entryFees - exitFees };
+}
@@ -0,0 +1,260 @@
+import * as clock from './clock';
+import { PolymarketAPI, type PolymarketEvent } from './polymarket-api';
+import type { EventDisplayData } from './event-manager';
+import type { EventOutcome, ResolutionRecord, OutcomeStats } from './types';
+
+const STORAGE_KEY = 'eventResolutions';
+const MAX_RECORDS = 1000;
+const POLL_INTERVAL = 30000; // Gamma usually settles within a few minutes of the close
+
+/**
+ * Outcome of an event from its prices: UP when the close is at or above the price to beat
+ */
+export function computeOutcome(priceToBeat: number, closePrice: number): EventOutcome {
+  return closePrice >= priceToBeat ? 'UP' : 'DOWN';
+}
+
+/**
+ * Official outcome of a resolved Gamma event, or null while it is still open
+ */
+export function extractOfficialOutcome(event: PolymarketEvent): EventOutcome | null {
+  const market = event.markets[0];
+  if (!market.closed && !event.closed) {
+    return null;
+  }
+
+  const winner = market.outcomePrices?.findIndex(price => price === 1) ?? -1;
+  if (winner === -1) {
+    return null;
+  }
+
+  const label = market.outcomes[winner].toUpperCase();
+  return label === 'UP' || label === 'DOWN' ? label : null;
+}
+
+/**
+ * Keeps the settlement of every expired event we've seen: the prices we
+ * captured, the outcome they imply, and the official outcome from Gamma.
+ * Records are persisted so statistics survive a reload.
+ */
+export class ResolutionTracker {
+  private records: Map<string, ResolutionRecord> = new Map();
+  private pollInterval: number | null = null;
+  private polling = false;
+  private onChange: (() => void) | null = null;
+
+  constructor() {
+    this.load();
+  }
+
+  setOnChange(callback: () => void): void {
+    this.onChange = callback;
+  }
+
+  /**
+   * Start tracking expired events (no-op for ones already tracked)
+   */
+  trackExpired(events: EventDisplayData[]): void {
+    let changed = false;
+    events
+      .filter(event => event.status === 'expired')
+      .forEach(event => {
+        if (!this.records.has(event.slug)) {
+          this.records.set(event.slug, this.createRecord(event));
+          changed = true;
+        }
+      });
+
+    if (changed) {
+      this.commit();
+      this.pollPending().catch(console.error);
+    }
+  }
+
+  /**
+   * Store the prices we captured for an event and the outcome they imply
+   */
+  recordPrices(event: EventDisplayData, priceToBeat: number | null, closePrice: number | null): void {
+    const record = this.records.get(event.slug) || this.createRecord(event);
+    record.priceToBeat = priceToBeat ?? record.priceToBeat;
+    record.closePrice = closePrice ?? record.closePrice;
+    record.localOutcome = record.priceToBeat !== null && record.closePrice !== null
+      ? computeOutcome(record.priceToBeat, record.closePrice)
+      : null;
+    this.records.set(event.slug, record);
+    this.commit();
+  }
+
+  /**
+   * Official outcome reported on a tracked event (saves a poll)
+   */
+  recordOutcome(event: EventDisplayData): void {
+    if (!event.outcome) return;
+
+    const record = this.records.get(event.slug) || this.createRecord(event);
+    if (record.officialOutcome === event.outcome) return;
+
+    record.officialOutcome = event.outcome;
+    record.resolvedAt = clock.now();
+    this.records.set(event.slug, record);
+    this.commit();
+  }
+
+  getRecord(slug: string): ResolutionRecord | null {
+    return this.records.get(slug) || null;
+  }
+
+  start(): void {
+    this.stop();
+    this.pollInterval = window.setInterval(() => {
+      this.pollPending().catch(console.error);
+    }, POLL_INTERVAL);
+    this.pollPending().catch(console.error);
+  }
+
+  stop(): void {
+    if (this.pollInterval !== null) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  /**
+   * Fetch the official outcome for every ended event that doesn't have one yet
+   */
+  async pollPending(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const now = Math.floor(clock.now() / 1000);
+      const pending = Array.from(this.records.values())
+        .filter(record => record.officialOutcome === null && record.endTimestamp <= now);
+
+      if (pending.length === 0) return;
+
+      let changed = false;
+      try {
+        const events = await PolymarketAPI.fetchMultipleEvents(pending.map(record => record.slug));
+        pending.forEach((record, index) => {
+          const event = events[index];
+          const outcome = event ? extractOfficialOutcome(event) : null;
+          if (outcome) {
+            record.officialOutcome = outcome;
+            record.resolvedAt = clock.now();
+            changed = true;
+          }
+        });
+      } catch (error) {
+        console.warn('Failed to fetch resolutions:', error);
+      }
+
+      if (changed) {
+        this.commit();
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Rolling UP/DOWN statistics over the officially resolved events of a series
+   */
+  getStats(seriesId: string): OutcomeStats {
+    const records = Array.from(this.records.values())
+      .filter(record => record.seriesId === seriesId)
+      .sort((a, b) => a.startTimestamp - b.startTimestamp);
+    const resolved = records.filter(record => record.officialOutcome !== null);
+
+    let up = 0;
+    let longestUpStreak = 0;
+    let longestDownStreak = 0;
+    let currentStreak: OutcomeStats['currentStreak'] = null;
+
+    resolved.forEach(record => {
+      const outcome = record.officialOutcome!;
+      if (outcome === 'UP') up++;
+
+      currentStreak = currentStreak && currentStreak.outcome === outcome
+        ? { outcome, length: currentStreak.length + 1 }
+        : { outcome, length: 1 };
+
+      if (outcome === 'UP') {
+        longestUpStreak = Math.max(longestUpStreak, currentStreak.length);
+      } else {
+        longestDownStreak = Math.max(longestDownStreak, currentStreak.length);
+      }
+    });
+
+    const compared = resolved.filter(record => record.localOutcome !== null);
+
+    return {
+      seriesId,
+      resolved: resolved.length,
+      up,
+      down: resolved.length - up,
+      upRatio: resolved.length > 0 ? up / resolved.length : null,
+      currentStreak,
+      longestUpStreak,
+      longestDownStreak,
+      compared: compared.length,
+      disagreements: compared.filter(record => record.localOutcome !== record.officialOutcome).length,
+    };
+  }
+
+  clear(): void {
+    this.records.clear();
+    this.commit();
+  }
+
+  private createRecord(event: EventDisplayData): ResolutionRecord {
+    return {
+      slug: event.slug,
+      seriesId: event.seriesId,
+      startTimestamp: event.timestamp,
+      endTimestamp: Math.floor(new Date(event.endDate).getTime() / 1000),
+      priceToBeat: null,
+      closePrice: null,
+      localOutcome: null,
+      officialOutcome: null,
+      resolvedAt: null,
+    };
+  }
+
+  private commit(): void {
+    this.prune();
+    this.save();
+    if (this.onChange) {
+      this.onChange();
+    }
+  }
+
+  private prune(): void {
+    if (this.records.size <= MAX_RECORDS) return;
+
+    const oldest = Array.from(this.records.values())
+      .sort((a, b) => a.startTimestamp - b.startTimestamp)
+      .slice(0, this.records.size - MAX_RECORDS);
+    oldest.forEach(record => this.records.delete(record.slug));
+  }
+
+  private load(): void {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        const records: ResolutionRecord[] = JSON.parse(saved);
+        records.forEach(record => this.records.set(record.slug, record));
+      }
+    } catch (error) {
+      console.warn('Failed to load event resolutions:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.records.values())));
+    } catch (error) {
+      console.warn('Failed to save event resolutions:', error);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { parsePriceMessage } from './rtds-utils';
+import type { CryptoSymbol, DataSource } from './types';
+
+const SYMBOLS = new Set<CryptoSymbol>(['btc/usd']);
+const SOURCES = new Set<DataSource>(['chainlink', 'binance']);
+
+function message(topic: string, payload: unknown): unknown {
+  return { topic, type: 'update', timestamp: 1760000001000, payload };
+}
+
+describe('parsePriceMessage', () => {
+  it('normalizes a Chainlink tick', () => {
+    const update = parsePriceMessage(
+      message('crypto_prices_chainlink', { symbol: 'BTC/USD', timestamp: 1760000000000, value: 121874.53 }),
+      SYMBOLS, SOURCES, 1760000001200
+    );
+    expect(update).toEqual({
+      topic: 'crypto_prices_chainlink',
+      type: 'update',
+      timestamp: 1760000001000,
+      symbol: 'btc/usd',
+      source: 'chainlink',
+      receivedAt: 1760000001200,
+      payload: { symbol: 'BTC/USD', timestamp: 1760000000000, value: 121874.53 },
+    });
+  });
+
+  it('maps a Binance pair onto our symbol', () => {
+    const update = parsePriceMessage(
+      message('crypto_prices', { symbol: 'btcusdt', timestamp: 1760000000000, value: 121880.1 }),
+      SYMBOLS, SOURCES, 1760000000100
+    );
+    expect(update?.symbol).toBe('btc/usd');
+    expect(update?.source).toBe('binance');
+  });
+
+  it('skips symbols and sources that aren\'t subscribed', () => {
+    const tick = { symbol: 'eth/usd', timestamp: 1760000000000, value: 4400 };
+    expect(parsePriceMessage(message('crypto_prices_chainlink', tick), SYMBOLS, SOURCES, 0)).toBeNull();
+    const btc = { symbol: 'btcusdt', timestamp: 1760000000000, value: 121880.1 };
+    expect(parsePriceMessage(message('crypto_prices', btc), SYMBOLS, new Set(['chainlink']), 0)).toBeNull();
+  });
+
+  it('rejects messages that aren\'t price ticks', () => {
+    expect(parsePriceMessage(null, SYMBOLS, SOURCES, 0)).toBeNull();
+    expect(parsePriceMessage('pong', SYMBOLS, SOURCES, 0)).toBeNull();
+    expect(parsePriceMessage(message('crypto_prices_chainlink', null), SYMBOLS, SOURCES, 0)).toBeNull();
+    expect(parsePriceMessage(
+      message('crypto_prices_chainlink', { symbol: 'btc/usd', timestamp: 1760000000000, value: '121874.53' }),
+      SYMBOLS, SOURCES, 0
+    )).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import type { DataSource, CryptoSymbol, PriceUpdate } from './types';
+import { SUPPORTED_SYMBOLS } from './types';
+
+export const CHAINLINK_TOPIC = 'crypto_prices_chainlink';
+export const BINANCE_TOPIC = 'crypto_prices';
+
+/**
+ * Binance pairs are quoted in USDT without a separator (btc/usd -> btcusdt)
+ */
+export function toBinanceSymbol(symbol: CryptoSymbol): string {
+  return `${symbol.split('/')[0]}usdt`;
+}
+
+export function fromBinanceSymbol(raw: string): CryptoSymbol | null {
+  const lower = raw.toLowerCase();
+  return SUPPORTED_SYMBOLS.find(symbol => toBinanceSymbol(symbol) === lower) || null;
+}
+
+export function sourceForTopic(topic: unknown): DataSource | null {
+  if (topic === CHAINLINK_TOPIC) return 'chainlink';
+  if (topic === BINANCE_TOPIC) return 'binance';
+  return null;
+}
+
+/**
+ * Map each feed's symbol format onto our symbol set
+ */
+export function normalizeSymbol(source: DataSource, raw: unknown): CryptoSymbol | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+  if (source === 'binance') {
+    return fromBinanceSymbol(raw);
+  }
+  const symbol = raw.toLowerCase() as CryptoSymbol;
+  return SUPPORTED_SYMBOLS.includes(symbol) ? symbol : null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Turn a raw RTDS message into a PriceUpdate, or null if it isn't a tick
+ * for one of the given symbols/sources
+ */
+export function parsePriceMessage(
+  data: unknown,
+  symbols: Set<CryptoSymbol>,
+  sources: Set<DataSource>,
+  receivedAt: number
+): PriceUpdate | null {
+  if (!isObject(data)) {
+    return null;
+  }
+  const source = sourceForTopic(data.topic);
+  if (!source || !sources.has(source) || !isObject(data.payload)) {
+    return null;
+  }
+
+  const { payload } = data;
+  const symbol = normalizeSymbol(source, payload.symbol);
+  if (!symbol || !symbols.has(symbol)) {
+    return null;
+  }
+  if (typeof payload.value !== 'number' || typeof payload.timestamp !== 'number') {
+    return null;
+  }
+
+  return {
+    topic: String(data.topic),
+    type: String(data.type),
+    timestamp: typeof data.timestamp === 'number' ? data.timestamp : payload.timestamp,
+    symbol,
+    source,
+    receivedAt,
+    payload: { symbol: String(payload.symbol), timestamp: payload.timestamp, value: payload.value },
+  };
+}
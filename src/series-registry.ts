@@ -0,0 +1,124 @@
+import type { CryptoSymbol } from './types';
+
+export type SeriesInterval = '5m' | '15m' | '1h' | '4h' | 'daily';
+
+export const INTERVAL_SECONDS: Record<SeriesInterval, number> = {
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+  '4h': 14400,
+  'daily': 86400,
+};
+
+/**
+ * A recurring Up/Down market series on Polymarket
+ */
+export interface MarketSeries {
+  id: string; // e.g. btc-updown-15m
+  asset: string; // Display name of the underlying, e.g. BTC
+  interval: SeriesInterval;
+  // Slug with placeholders: {timestamp} (start, epoch seconds), or date parts in
+  // slugTimeZone: {month} (lowercase name), {day}, {year}, {hour} (1-12), {ampm}
+  slugTemplate: string;
+  slugTimeZone?: string; // Time zone for date placeholders (default America/New_York)
+  oracleSymbol: CryptoSymbol; // Chainlink symbol the market resolves against
+  // Daily series start at this hour in slugTimeZone instead of UTC midnight
+  dailyStartHour?: number;
+}
+
+const DEFAULT_SERIES: MarketSeries[] = [
+  { id: 'btc-updown-15m', asset: 'BTC', interval: '15m', slugTemplate: 'btc-updown-15m-{timestamp}', oracleSymbol: 'btc/usd' },
+  { id: 'btc-updown-5m', asset: 'BTC', interval: '5m', slugTemplate: 'btc-updown-5m-{timestamp}', oracleSymbol: 'btc/usd' },
+  { id: 'btc-updown-4h', asset: 'BTC', interval: '4h', slugTemplate: 'btc-updown-4h-{timestamp}', oracleSymbol: 'btc/usd' },
+  {
+    id: 'btc-updown-1h',
+    asset: 'BTC',
+    interval: '1h',
+    slugTemplate: 'bitcoin-up-or-down-{month}-{day}-{hour}{ampm}-et',
+    slugTimeZone: 'America/New_York',
+    oracleSymbol: 'btc/usd',
+  },
+  {
+    id: 'btc-updown-daily',
+    asset: 'BTC',
+    interval: 'daily',
+    slugTemplate: 'bitcoin-up-or-down-on-{month}-{day}',
+    slugTimeZone: 'America/New_York',
+    dailyStartHour: 12,
+    oracleSymbol: 'btc/usd',
+  },
+  { id: 'eth-updown-15m', asset: 'ETH', interval: '15m', slugTemplate: 'eth-updown-15m-{timestamp}', oracleSymbol: 'eth/usd' },
+  { id: 'sol-updown-15m', asset: 'SOL', interval: '15m', slugTemplate: 'sol-updown-15m-{timestamp}', oracleSymbol: 'sol/usd' },
+  { id: 'xrp-updown-15m', asset: 'XRP', interval: '15m', slugTemplate: 'xrp-updown-15m-{timestamp}', oracleSymbol: 'xrp/usd' },
+];
+
+export const DEFAULT_SERIES_ID = 'btc-updown-15m';
+
+const registry: Map<string, MarketSeries> = new Map(DEFAULT_SERIES.map(series => [series.id, series]));
+
+export function registerSeries(series: MarketSeries): void {
+  registry.set(series.id, series);
+}
+
+export function getSeries(id: string): MarketSeries | undefined {
+  return registry.get(id);
+}
+
+export function getAllSeries(): MarketSeries[] {
+  return Array.from(registry.values());
+}
+
+export function getSeriesDuration(series: MarketSeries): number {
+  return INTERVAL_SECONDS[series.interval];
+}
+
+export function getSeriesTitle(series: MarketSeries): string {
+  return `${series.asset} Up/Down ${series.interval}`;
+}
+
+/**
+ * Find the registered series a slug belongs to by matching it against each template
+ */
+export function findSeriesForSlug(slug: string): MarketSeries | undefined {
+  return getAllSeries().find(series => slugTemplateToRegExp(series.slugTemplate).test(slug));
+}
+
+export function slugTemplateToRegExp(template: string): RegExp {
+  const pattern = template
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\\\{timestamp\\\}/g, '(\\d+)')
+    .replace(/\\\{(month|ampm)\\\}/g, '[a-z]+')
+    .replace(/\\\{(day|year|hour)\\\}/g, '\\d+');
+  return new RegExp(`^${pattern}$`);
+}
+
+const ENABLED_SERIES_KEY = 'enabledSeries';
+
+/**
+ * Series the user has switched on (persisted), defaulting to BTC 15m
+ */
+export function loadEnabledSeriesIds(): string[] {
+  try {
+    const saved = localStorage.getItem(ENABLED_SERIES_KEY);
+    if (saved) {
+      const ids = JSON.parse(saved);
+      if (Array.isArray(ids)) {
+        const known = ids.filter((id: unknown) => typeof id === 'string' && registry.has(id));
+        if (known.length > 0) {
+          return known;
+        }
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to load enabled series:', error);
+  }
+  return [DEFAULT_SERIES_ID];
+}
+
+export function saveEnabledSeriesIds(ids: string[]): void {
+  try {
+    localStorage.setItem(ENABLED_SERIES_KEY, JSON.stringify(ids));
+  } catch (error) {
+    console.warn('Failed to save enabled series:', error);
+  }
+}
@@ -0,0 +1,86 @@
+import type { RecordedMessage, RecordingChannel } from './types';
+
+/**
+ * Collects received messages with arrival timestamps and exports them as NDJSON
+ */
+export class StreamRecorder {
+  private entries: RecordedMessage[] = [];
+  private recording = false;
+  private onChange: ((count: number) => void) | null = null;
+
+  setOnChange(callback: (count: number) => void): void {
+    this.onChange = callback;
+  }
+
+  start(): void {
+    this.entries = [];
+    this.recording = true;
+    this.notifyChange();
+  }
+
+  stop(): void {
+    this.recording = false;
+    this.notifyChange();
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getCount(): number {
+    return this.entries.length;
+  }
+
+  record(channel: RecordingChannel, data: unknown): void {
+    if (!this.recording) {
+      return;
+    }
+
+    this.entries.push({ t: Date.now(), channel, data });
+    this.notifyChange();
+  }
+
+  toNDJSON(): string {
+    return this.entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+  }
+
+  /**
+   * Save the recording through a temporary download link
+   */
+  download(filename: string = `rtds-${Date.now()}.ndjson`): void {
+    const blob = new Blob([this.toNDJSON()], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Parse an NDJSON recording, skipping blank or malformed lines
+   */
+  static parse(ndjson: string): RecordedMessage[] {
+    const entries: RecordedMessage[] = [];
+
+    ndjson.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const entry = JSON.parse(line);
+        if (typeof entry.t === 'number' && typeof entry.channel === 'string') {
+          entries.push(entry as RecordedMessage);
+        }
+      } catch (error) {
+        console.warn(`Skipping malformed recording line ${index + 1}:`, error);
+      }
+    });
+
+    return entries.sort((a, b) => a.t - b.t);
+  }
+
+  private notifyChange(): void {
+    if (this.onChange) {
+      this.onChange(this.entries.length);
+    }
+  }
+}
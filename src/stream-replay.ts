@@ -0,0 +1,238 @@
+import type {
+  DataSource,
+  CryptoSymbol,
+  PriceUpdate,
+  ConnectionStatus,
+  PriceFeed,
+  RecordedMessage,
+  ReplaySpeed
+} from './types';
+import { SUPPORTED_SOURCES } from './types';
+import { parsePriceMessage } from './rtds-utils';
+import { setClock } from './clock';
+import type { ClobMarketClient } from './clob-market-client';
+
+const MAX_SPEED_BATCH = 200; // Entries dispatched per tick at 'max' so the UI can still paint
+
+export interface ReplayOptions {
+  speed: ReplaySpeed;
+  marketClient?: ClobMarketClient | null; // Receives recorded CLOB market channel messages
+  symbols?: CryptoSymbol[];
+  sources?: DataSource[];
+}
+
+/**
+ * Plays an NDJSON recording back through the same callbacks as WebSocketClient.
+ * While playing, the app clock follows the recording so event status and
+ * countdowns line up with the replayed window.
+ */
+export class ReplaySource implements PriceFeed {
+  private entries: RecordedMessage[];
+  private speed: ReplaySpeed;
+  private marketClient: ClobMarketClient | null;
+  private symbols: Set<CryptoSymbol>;
+  private sources: Set<DataSource>;
+  private cursor = 0;
+  private playing = false;
+  private timer: number | null = null;
+  private startedAt = 0; // Wall time replay started
+  private virtualTime = 0; // Recording time of the last dispatched entry
+  private lastSymbol: CryptoSymbol | null = null;
+  private lastSource: DataSource | null = null;
+  private onPriceUpdate: ((update: PriceUpdate) => void) | null = null;
+  private onStatusChange: ((status: ConnectionStatus) => void) | null = null;
+  private onFinished: (() => void) | null = null;
+  private symbolCallbacks: Map<CryptoSymbol, (update: PriceUpdate) => void> = new Map();
+
+  constructor(entries: RecordedMessage[], options: ReplayOptions) {
+    this.entries = entries;
+    this.speed = options.speed;
+    this.marketClient = options.marketClient || null;
+    this.symbols = new Set(options.symbols || ['btc/usd']);
+    this.sources = new Set(options.sources || SUPPORTED_SOURCES);
+    this.virtualTime = entries.length > 0 ? entries[0].t : Date.now();
+  }
+
+  setCallbacks(
+    onPriceUpdate: (update: PriceUpdate) => void,
+    onStatusChange: (status: ConnectionStatus) => void
+  ): void {
+    this.onPriceUpdate = onPriceUpdate;
+    this.onStatusChange = onStatusChange;
+  }
+
+  setOnSymbolUpdate(symbol: CryptoSymbol, callback: ((update: PriceUpdate) => void) | null): void {
+    if (callback) {
+      this.symbolCallbacks.set(symbol, callback);
+    } else {
+      this.symbolCallbacks.delete(symbol);
+    }
+  }
+
+  setOnFinished(callback: () => void): void {
+    this.onFinished = callback;
+  }
+
+  subscribe(symbols: CryptoSymbol[]): void {
+    symbols.forEach(symbol => this.symbols.add(symbol));
+  }
+
+  unsubscribe(symbols: CryptoSymbol[]): void {
+    symbols.forEach(symbol => this.symbols.delete(symbol));
+  }
+
+  getSubscribedSymbols(): CryptoSymbol[] {
+    return Array.from(this.symbols);
+  }
+
+  setSourceEnabled(source: DataSource, enabled: boolean): void {
+    if (enabled) {
+      this.sources.add(source);
+    } else {
+      this.sources.delete(source);
+    }
+  }
+
+  getEnabledSources(): DataSource[] {
+    return Array.from(this.sources);
+  }
+
+  getProgress(): { index: number; total: number } {
+    return { index: this.cursor, total: this.entries.length };
+  }
+
+  /**
+   * Current position on the recording's timeline
+   */
+  getVirtualTime(): number {
+    if (this.playing && this.speed !== 'max' && this.entries.length > 0) {
+      const elapsed = (Date.now() - this.startedAt) * this.speed;
+      return this.entries[0].t + elapsed;
+    }
+    return this.virtualTime;
+  }
+
+  connect(): void {
+    if (this.playing) {
+      return;
+    }
+
+    this.cursor = 0;
+    this.playing = true;
+    this.startedAt = Date.now();
+    this.virtualTime = this.entries.length > 0 ? this.entries[0].t : Date.now();
+    setClock(() => this.getVirtualTime());
+    this.updateStatus();
+    this.scheduleNext();
+  }
+
+  disconnect(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // Hand the clock back to wall time, including after a finished replay
+    setClock(null);
+    if (this.playing) {
+      this.playing = false;
+      this.updateStatus();
+    }
+  }
+
+  isConnected(): boolean {
+    return this.playing;
+  }
+
+  private scheduleNext(): void {
+    if (!this.playing) {
+      return;
+    }
+
+    if (this.cursor >= this.entries.length) {
+      this.finish();
+      return;
+    }
+
+    if (this.speed === 'max') {
+      this.timer = window.setTimeout(() => {
+        const end = Math.min(this.cursor + MAX_SPEED_BATCH, this.entries.length);
+        while (this.cursor < end) {
+          this.dispatch(this.entries[this.cursor++]);
+        }
+        this.scheduleNext();
+      }, 0);
+      return;
+    }
+
+    const entry = this.entries[this.cursor];
+    const delay = Math.max(0, (entry.t - this.getVirtualTime()) / this.speed);
+    this.timer = window.setTimeout(() => {
+      this.cursor++;
+      this.dispatch(entry);
+      this.scheduleNext();
+    }, delay);
+  }
+
+  private dispatch(entry: RecordedMessage): void {
+    this.virtualTime = entry.t;
+
+    if (entry.channel === 'clob') {
+      this.marketClient?.ingest(entry.data);
+      return;
+    }
+
+    if (entry.channel !== 'rtds') {
+      // REST quotes are kept in recordings for analysis only
+      return;
+    }
+
+    // Recorded arrival time stands in for receipt, so latency stats match the original session
+    const update = parsePriceMessage(entry.data, this.symbols, this.sources, entry.t);
+    if (!update) {
+      return;
+    }
+
+    this.lastSymbol = update.symbol;
+    this.lastSource = update.source;
+
+    if (this.onPriceUpdate) {
+      this.onPriceUpdate(update);
+    }
+    const symbolCallback = this.symbolCallbacks.get(update.symbol);
+    if (symbolCallback) {
+      symbolCallback(update);
+    }
+    this.updateStatus();
+  }
+
+  private finish(): void {
+    this.timer = null;
+    // Leave the clock on the final recorded instant until the replay is stopped
+    const finalTime = this.virtualTime;
+    setClock(() => finalTime);
+    this.playing = false;
+    this.updateStatus();
+    if (this.onFinished) {
+      this.onFinished();
+    }
+  }
+
+  private updateStatus(): void {
+    if (!this.onStatusChange) {
+      return;
+    }
+
+    this.onStatusChange({
+      connected: this.playing,
+      source: this.lastSource,
+      sources: this.getEnabledSources(),
+      lastUpdate: this.lastSymbol ? this.virtualTime : null,
+      error: null,
+      symbols: this.getSubscribedSymbols(),
+      lastSymbol: this.lastSymbol,
+      reconnectAttempt: 0,
+      nextRetryAt: null,
+      stale: false
+    });
+  }
+}
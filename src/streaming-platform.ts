@@ -1,37 +1,139 @@
 import { WebSocketClient } from './websocket-client';
 import { EventManager } from './event-manager';
 import { TradingManager } from './trading-manager';
-import { getNext15MinIntervals } from './event-utils';
-import type { PriceUpdate, ConnectionStatus } from './types';
+import { ClobMarketClient } from './clob-market-client';
+import { StreamRecorder } from './stream-recorder';
+import { ReplaySource } from './stream-replay';
+import { FeedMetrics } from './feed-metrics';
+import { ResolutionTracker } from './resolution-tracker';
+import { PriceToBeatStore } from './price-to-beat';
+import { EventHistory } from './event-history';
+import { formatTimestamp } from './event-utils';
+import { buildDepthLadder, depthAtOrBetter } from './order-book-depth';
+import { parsePriceMessage } from './rtds-utils';
+import { getSeries, getAllSeries } from './series-registry';
+import { findOutcomeToken } from './gamma-schema';
+import {
+  COMMON_TIME_ZONES,
+  getLocalTimeZone,
+  getDisplayTimeZone,
+  setDisplayTimeZone,
+  getSecondaryTimeZone,
+  setSecondaryTimeZone,
+  getTimeZoneAbbreviation,
+  formatTimeOfDay,
+  isValidTimeZone
+} from './time-zone';
+import type { EventDisplayData } from './event-manager';
+import type { SignerConfig, TimeInForce } from './trading-types';
+import * as clock from './clock';
+import type { PriceUpdate, ConnectionStatus, CryptoSymbol, MarketQuote, PriceFeed, ReplaySpeed, LatencyStats, EventOutcome, PriceToBeat, OrderBookSnapshot, DepthLevel } from './types';
+import { SUPPORTED_SYMBOLS } from './types';
+
+const PRIMARY_SYMBOL: CryptoSymbol = 'btc/usd'; // Symbol driving the main price panel
+const HISTORY_PAGE_SIZE = 25;
+const PRICE_CAPTURE_WINDOW = 10000; // A close price seen later than this after the end doesn't settle the event
+const DEPTH_LEVELS = 8; // Price levels per side in the depth ladders
+const DEPTH_RENDER_INTERVAL = 250; // Min ms between ladder redraws
+const DEPTH_POLL_INTERVAL = 1000; // ms between REST book polls while the stream has no book
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+/**
+ * Escape text we don't build ourselves (Gamma outcome labels and questions,
+ * IDs, exchange errors) before it goes into a template
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
 
 export class StreamingPlatform {
-  private wsClient: WebSocketClient;
+  private liveClient: WebSocketClient;
+  private priceFeed: PriceFeed; // Live client, or a ReplaySource while replaying
+  private recorder: StreamRecorder;
+  private replay: ReplaySource | null = null;
+  private feedMetrics: FeedMetrics;
+  private diagnosticsInterval: number | null = null;
   private eventManager: EventManager;
+  private resolutionTracker: ResolutionTracker;
+  private priceToBeatStore: PriceToBeatStore;
+  private eventHistory: EventHistory;
+  private historyPage = 0;
   private tradingManager: TradingManager;
+  private clobMarketClient: ClobMarketClient;
   private currentPrice: number | null = null;
   private priceHistory: Array<{ timestamp: number; value: number }> = [];
   private maxHistorySize = 100;
   private currentStatus: ConnectionStatus = {
     connected: false,
     source: null,
+    sources: [],
     lastUpdate: null,
-    error: null
+    error: null,
+    symbols: [],
+    lastSymbol: null,
+    reconnectAttempt: 0,
+    nextRetryAt: null,
+    stale: false
   };
+  private statusBadgeInterval: number | null = null; // Ticks the reconnect countdown
+  private binancePrice: number | null = null; // Latest Binance price for the primary symbol
+  private binanceTimestamp: number | null = null;
+  private chainlinkTimestamp: number | null = null;
+  private symbolPrices: Map<CryptoSymbol, number> = new Map(); // Latest Chainlink price per subscribed symbol
   private countdownInterval: number | null = null;
-  private eventPriceToBeat: Map<string, number> = new Map(); // Map of event slug to price to beat
+  private clockInterval: number | null = null; // Ticks the dual clock
+  private lastNonUtcTimeZone: string = getDisplayTimeZone() === 'UTC' ? getLocalTimeZone() : getDisplayTimeZone();
   private eventLastPrice: Map<string, number> = new Map(); // Map of event slug to last price (from previous event end)
-  private upPrice: number | null = null; // Current UP token price (0-100 scale)
-  private downPrice: number | null = null; // Current DOWN token price (0-100 scale)
-  private priceUpdateInterval: number | null = null; // Interval for updating UP/DOWN prices
+  private pendingPriceToBeat: Map<string, EventDisplayData> = new Map(); // Started events still waiting on an exact price to beat
+  private outcomePrices: Map<string, number | null> = new Map(); // Token ID -> best ask (0-100 scale)
+  private polledBooks: Map<string, OrderBookSnapshot> = new Map(); // Token ID -> REST book, for tokens the stream has no book for
+  private depthRenderTimer: number | null = null;
+  private depthPollInterval: number | null = null;
+  private depthPolling = false; // Guards against overlapping polls
 
   constructor() {
-    this.wsClient = new WebSocketClient();
+    this.liveClient = new WebSocketClient();
+    this.priceFeed = this.liveClient;
     this.eventManager = new EventManager();
-    this.tradingManager = new TradingManager();
+    this.clobMarketClient = new ClobMarketClient();
+    this.tradingManager = new TradingManager(this.clobMarketClient);
+    this.clobMarketClient.setOnQuoteUpdate(this.handleQuoteUpdate.bind(this));
+    this.clobMarketClient.setOnTradePrint(print => this.tradingManager.handleTradePrint(print));
+    this.recorder = new StreamRecorder();
+    this.liveClient.setRecorder(this.recorder);
+    this.clobMarketClient.setRecorder(this.recorder);
+    this.tradingManager.setRecorder(this.recorder);
+    this.feedMetrics = new FeedMetrics();
+    this.tradingManager.setMetrics(this.feedMetrics);
+    this.recorder.setOnChange(() => {
+      this.updateRecordingUI();
+    });
+    this.resolutionTracker = new ResolutionTracker();
+    this.priceToBeatStore = new PriceToBeatStore();
+    this.eventHistory = new EventHistory();
+    this.eventHistory.setOnProgress((loaded, total) => {
+      const statusElement = document.getElementById('history-status');
+      if (statusElement) {
+        statusElement.textContent = `Loaded ${loaded}/${total} events`;
+      }
+      this.renderHistory();
+    });
+    this.resolutionTracker.setOnChange(() => {
+      this.renderEventsTable();
+      this.renderOutcomeStats();
+    });
     this.eventManager.setOnEventsUpdated(() => {
+      this.resolutionTracker.trackExpired(this.eventManager.getEvents());
+      this.trackPendingPricesToBeat();
       this.renderEventsTable();
     });
-    this.wsClient.setCallbacks(
+    this.eventManager.onEventStarted(event => this.handleEventStarted(event));
+    this.eventManager.onEventEnded(event => this.handleEventEnded(event));
+    this.eventManager.onEventResolved(event => this.resolutionTracker.recordOutcome(event));
+    this.eventManager.onMarketListed(event => this.handleMarketListed(event));
+    this.tradingManager.setEventManager(this.eventManager);
+    this.priceFeed.setCallbacks(
       this.handlePriceUpdate.bind(this),
       this.handleStatusChange.bind(this)
     );
@@ -47,10 +149,16 @@ export class StreamingPlatform {
   async initialize(): Promise<void> {
     this.render();
     this.setupEventListeners();
+    this.syncSeriesSubscriptions();
     await this.loadEvents();
     this.eventManager.startAutoRefresh(60000); // Refresh every minute
+    this.resolutionTracker.start();
+    this.renderOutcomeStats();
+    this.renderHistory();
     this.renderTradingSection(); // Initialize trading section UI
-    this.startPriceUpdates(); // Start updating UP/DOWN prices
+    this.startDiagnostics();
+    this.startDepthPolling();
+    this.startClock();
   }
 
   private setupEventListeners(): void {
@@ -58,20 +166,160 @@ export class StreamingPlatform {
     const disconnectBtn = document.getElementById('disconnect');
 
     connectBtn?.addEventListener('click', () => {
-      this.wsClient.connect();
+      this.priceFeed.connect();
     });
 
     disconnectBtn?.addEventListener('click', () => {
-      this.wsClient.disconnect();
+      this.priceFeed.disconnect();
       this.currentStatus = {
         connected: false,
         source: null,
+        sources: this.priceFeed.getEnabledSources(),
         lastUpdate: null,
-        error: null
+        error: null,
+        symbols: this.priceFeed.getSubscribedSymbols(),
+        lastSymbol: null,
+        reconnectAttempt: 0,
+        nextRetryAt: null,
+        stale: false
       };
       this.updateUI();
     });
 
+    // Recording and replay
+    const recordBtn = document.getElementById('record-toggle');
+    const replayBtn = document.getElementById('replay-toggle');
+    const backfillBtn = document.getElementById('backfill-toggle');
+
+    recordBtn?.addEventListener('click', () => {
+      if (this.recorder.isRecording()) {
+        this.recorder.stop();
+        if (this.recorder.getCount() > 0) {
+          this.recorder.download();
+        }
+      } else {
+        this.recorder.start();
+      }
+    });
+
+    backfillBtn?.addEventListener('click', () => {
+      const fileInput = document.getElementById('replay-file') as HTMLInputElement | null;
+      const file = fileInput?.files?.[0];
+      if (!file) {
+        alert('Choose an NDJSON recording to backfill from first.');
+        return;
+      }
+      this.backfillFromRecording(file).catch(console.error);
+    });
+
+    replayBtn?.addEventListener('click', () => {
+      if (this.replay) {
+        this.stopReplay().catch(console.error);
+        return;
+      }
+
+      const fileInput = document.getElementById('replay-file') as HTMLInputElement | null;
+      const speedSelect = document.getElementById('replay-speed') as HTMLSelectElement | null;
+      const file = fileInput?.files?.[0];
+      if (!file) {
+        alert('Choose an NDJSON recording to replay first.');
+        return;
+      }
+
+      const speed: ReplaySpeed = speedSelect?.value === 'max' ? 'max' : (parseInt(speedSelect?.value || '1', 10) as ReplaySpeed);
+      this.startReplay(file, speed).catch(console.error);
+    });
+
+    // Symbol subscription toggles
+    document.querySelectorAll<HTMLInputElement>('.symbol-toggle').forEach(input => {
+      input.addEventListener('change', () => {
+        const symbol = input.value as CryptoSymbol;
+        if (input.checked) {
+          this.priceFeed.subscribe([symbol]);
+        } else {
+          this.priceFeed.unsubscribe([symbol]);
+          this.symbolPrices.delete(symbol);
+        }
+        this.updateSymbolTicker();
+      });
+    });
+
+    // Time zone settings
+    const displayZoneSelect = document.getElementById('display-timezone') as HTMLSelectElement | null;
+    const secondaryZoneSelect = document.getElementById('secondary-timezone') as HTMLSelectElement | null;
+    const utcToggle = document.getElementById('utc-toggle');
+
+    displayZoneSelect?.addEventListener('change', () => {
+      const timeZone = this.pickTimeZone(displayZoneSelect.value);
+      if (timeZone) {
+        this.applyDisplayTimeZone(timeZone);
+      } else {
+        displayZoneSelect.value = getDisplayTimeZone();
+      }
+    });
+
+    secondaryZoneSelect?.addEventListener('change', () => {
+      const timeZone = this.pickTimeZone(secondaryZoneSelect.value);
+      if (timeZone) {
+        setSecondaryTimeZone(timeZone);
+        this.renderTimeZoneOptions();
+        this.updateClock();
+      } else {
+        secondaryZoneSelect.value = getSecondaryTimeZone();
+      }
+    });
+
+    utcToggle?.addEventListener('click', () => {
+      this.applyDisplayTimeZone(getDisplayTimeZone() === 'UTC' ? this.lastNonUtcTimeZone : 'UTC');
+    });
+
+    // Event history
+    const historySeriesSelect = document.getElementById('history-series');
+    const historyLoadBtn = document.getElementById('history-load');
+    const historyClearBtn = document.getElementById('history-clear');
+    const historyPrevBtn = document.getElementById('history-prev');
+    const historyNextBtn = document.getElementById('history-next');
+
+    historySeriesSelect?.addEventListener('change', () => {
+      this.historyPage = 0;
+      this.renderHistory();
+    });
+
+    historyLoadBtn?.addEventListener('click', () => {
+      this.loadHistory().catch(console.error);
+    });
+
+    historyClearBtn?.addEventListener('click', () => {
+      if (confirm('Clear the cached event history?')) {
+        this.eventHistory.clear();
+        this.historyPage = 0;
+        this.renderHistory();
+      }
+    });
+
+    historyPrevBtn?.addEventListener('click', () => {
+      this.historyPage = Math.max(0, this.historyPage - 1);
+      this.renderHistory();
+    });
+
+    historyNextBtn?.addEventListener('click', () => {
+      this.historyPage++;
+      this.renderHistory();
+    });
+
+    // Series toggles
+    document.querySelectorAll<HTMLInputElement>('.series-toggle').forEach(input => {
+      input.addEventListener('change', () => {
+        const enabled = Array.from(document.querySelectorAll<HTMLInputElement>('.series-toggle'))
+          .filter(toggle => toggle.checked)
+          .map(toggle => toggle.value);
+        this.eventManager.setEnabledSeries(enabled);
+        this.syncSeriesSubscriptions();
+        this.renderOutcomeStats();
+        this.loadEvents().catch(console.error);
+      });
+    });
+
     // Trading controls
     const startTradingBtn = document.getElementById('start-trading');
     const stopTradingBtn = document.getElementById('stop-trading');
@@ -93,14 +341,115 @@ export class StreamingPlatform {
     });
 
     clearTradesBtn?.addEventListener('click', () => {
-      if (confirm('Are you sure you want to clear all trades? This cannot be undone.')) {
+      if (!confirm('Are you sure you want to clear all trades? Resting orders will be cancelled. This cannot be undone.')) {
+        return;
+      }
+      try {
         this.tradingManager.clearTrades();
-        this.renderTradingSection();
+      } catch (error) {
+        alert(`Trades not cleared: ${error instanceof Error ? error.message : String(error)}`);
+        return;
       }
+      this.renderTradingSection();
+    });
+
+    // Exchange signer
+    document.getElementById('signer-connect-key')?.addEventListener('click', () => {
+      const keyInput = document.getElementById('signer-private-key') as HTMLInputElement | null;
+      const privateKey = keyInput?.value.trim() || '';
+      if (!privateKey) {
+        alert('Enter a private key first.');
+        return;
+      }
+      this.connectSigner({ type: 'private-key', privateKey, funderAddress: this.readFunderAddress() })
+        .finally(() => {
+          if (keyInput) keyInput.value = '';
+        });
+    });
+
+    document.getElementById('signer-connect-wallet')?.addEventListener('click', () => {
+      this.connectSigner({ type: 'injected', funderAddress: this.readFunderAddress() });
+    });
+
+    document.getElementById('signer-connect-service')?.addEventListener('click', () => {
+      const tokenInput = document.getElementById('order-service-token') as HTMLInputElement | null;
+      const authToken = tokenInput?.value.trim() || '';
+      if (!authToken) {
+        alert('Enter the order service token first.');
+        return;
+      }
+      this.connectOrderService(authToken);
+    });
+
+    document.getElementById('signer-disconnect')?.addEventListener('click', () => {
+      this.tradingManager.disconnectSigner();
     });
   }
 
+  private readFunderAddress(): string | undefined {
+    const funderInput = document.getElementById('signer-funder') as HTMLInputElement | null;
+    return funderInput?.value.trim() || undefined;
+  }
+
+  /**
+   * Authenticate with the exchange; failures are shown in the signer panel
+   */
+  private async connectSigner(config: SignerConfig): Promise<void> {
+    const statusElement = document.getElementById('signer-status');
+    if (statusElement) statusElement.textContent = 'Connecting...';
+    try {
+      await this.tradingManager.connectSigner(config);
+    } catch (error) {
+      console.error('Failed to connect signer:', error);
+      if (statusElement) {
+        statusElement.textContent = `Connection failed: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+  }
+
+  /**
+   * Hand signing to the server-side order service; failures are shown in the signer panel
+   */
+  private async connectOrderService(authToken: string): Promise<void> {
+    const statusElement = document.getElementById('signer-status');
+    if (statusElement) statusElement.textContent = 'Connecting to order service...';
+    try {
+      await this.tradingManager.connectOrderService(authToken);
+    } catch (error) {
+      console.error('Failed to connect order service:', error);
+      if (statusElement) {
+        statusElement.textContent = `Order service unavailable: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+  }
+
   private handlePriceUpdate(update: PriceUpdate): void {
+    this.feedMetrics.recordTick(update.source, update.payload.timestamp, update.receivedAt);
+
+    if (update.source === 'binance') {
+      if (update.symbol === PRIMARY_SYMBOL) {
+        this.binancePrice = update.payload.value;
+        this.binanceTimestamp = update.payload.timestamp;
+        this.updateDivergenceDisplay();
+      }
+      return;
+    }
+
+    // Chainlink is the resolution oracle, so it alone drives prices from here on
+    this.symbolPrices.set(update.symbol, update.payload.value);
+    this.priceToBeatStore.recordTick(update.symbol, update.payload.timestamp, update.payload.value);
+    this.updateSymbolTicker();
+
+    // Each series settles on its own oracle symbol
+    this.capturePriceForActiveEvent();
+    this.updateTradingManager();
+
+    // Only the primary symbol drives the main panel
+    if (update.symbol !== PRIMARY_SYMBOL) {
+      return;
+    }
+
+    this.chainlinkTimestamp = update.payload.timestamp;
     this.currentPrice = update.payload.value;
     this.priceHistory.push({
       timestamp: update.payload.timestamp,
@@ -111,90 +460,583 @@ export class StreamingPlatform {
       this.priceHistory.shift();
     }
 
-    // Check if we need to capture price for a newly active event
+    this.updatePriceDisplay();
+    this.updateDivergenceDisplay();
+  }
+
+  /**
+   * Series the active event panel and trading strategy follow
+   */
+  private getFocusSeriesId(): string {
+    return this.tradingManager.getStrategyConfig().seriesId;
+  }
+
+  private getFocusActiveEvent(): EventDisplayData | null {
+    return this.eventManager.getActiveEvent(this.getFocusSeriesId());
+  }
+
+  /**
+   * Latest oracle price for the symbol a series resolves against
+   */
+  private getSeriesPrice(seriesId: string): number | null {
+    const series = getSeries(seriesId);
+    if (!series) return null;
+    return this.symbolPrices.get(series.oracleSymbol) ?? null;
+  }
+
+  /**
+   * Keep the oracle symbol of every enabled series subscribed
+   */
+  private syncSeriesSubscriptions(): void {
+    const symbols = this.eventManager.getEnabledSeries().map(series => series.oracleSymbol);
+    const missing = symbols.filter(symbol => !this.priceFeed.getSubscribedSymbols().includes(symbol));
+    if (missing.length > 0) {
+      this.priceFeed.subscribe(Array.from(new Set(missing)));
+    }
+
+    document.querySelectorAll<HTMLInputElement>('.symbol-toggle').forEach(input => {
+      input.checked = this.priceFeed.getSubscribedSymbols().includes(input.value as CryptoSymbol);
+    });
+    this.updateSymbolTicker();
+  }
+
+  /**
+   * A new event is live: start resolving its price to beat and point the
+   * panel and market stream at it if it's in the focus series
+   */
+  private handleEventStarted(event: EventDisplayData): void {
+    this.pendingPriceToBeat.set(event.slug, event);
     this.capturePriceForActiveEvent();
-    
-    // Check if an event just expired and capture the price for the next event
-    this.capturePriceForExpiredEvent();
+    if (event.seriesId === this.getFocusSeriesId()) {
+      this.renderActiveEvent();
+    }
+  }
 
-    // Update trading manager with current market data
-    this.updateTradingManager();
+  /**
+   * Gamma has just listed a placeholder event: announce it, and start
+   * streaming its book if it's the one on the active panel
+   */
+  private handleMarketListed(event: EventDisplayData): void {
+    this.showNotification(`Market listed: ${event.title}`);
+    if (event.slug === this.getFocusActiveEvent()?.slug) {
+      this.renderActiveEvent();
+    }
+  }
 
-    this.updatePriceDisplay();
+  /**
+   * Transient message in the notification stack
+   */
+  private showNotification(message: string): void {
+    const container = document.getElementById('notifications');
+    if (!container) return;
+
+    const notification = document.createElement('div');
+    notification.className = 'notification';
+    notification.textContent = message;
+    container.appendChild(notification);
+    setTimeout(() => notification.remove(), 8000);
   }
 
-  private capturePriceForExpiredEvent(): void {
-    if (this.currentPrice === null) return;
+  /**
+   * An event reached its end: its closing price is the next event's last price
+   */
+  private handleEventEnded(event: EventDisplayData): void {
+    const price = this.getSeriesPrice(event.seriesId);
+    const nextEvent = this.eventManager.getSeriesEvents(event.seriesId)
+      .find(candidate => candidate.timestamp > event.timestamp);
+    if (price !== null && nextEvent) {
+      this.captureClosePrice(event, nextEvent, price);
+    }
+    this.resolutionTracker.trackExpired([event]);
+  }
 
-    const events = this.eventManager.getEvents();
-    
-    // For each event, check if the previous event just expired
-    events.forEach((event, index) => {
-      if (index > 0) {
-        const previousEvent = events[index - 1];
-        
-        // If previous event is expired and we haven't stored the last price for this event yet
-        if (previousEvent.status === 'expired' && !this.eventLastPrice.has(event.slug) && this.currentPrice !== null) {
-          // Store the current price as the last price (price when previous event ended)
-          this.eventLastPrice.set(event.slug, this.currentPrice);
-          // Re-render to show the last price
-          this.renderEventsTable();
+  /**
+   * Store the oracle price as the last price of any event whose predecessor
+   * just expired. Returns true if anything was captured.
+   */
+  private captureLastPrices(): boolean {
+    let captured = false;
+
+    this.eventManager.getEnabledSeries().forEach(series => {
+      const price = this.getSeriesPrice(series.id);
+      if (price === null) return;
+
+      const events = this.eventManager.getSeriesEvents(series.id);
+      events.forEach((event, index) => {
+        if (index > 0) {
+          const previousEvent = events[index - 1];
+
+          // If previous event is expired and we haven't stored the last price for this event yet
+          if (previousEvent.status === 'expired' && this.captureClosePrice(previousEvent, event, price)) {
+            captured = true;
+          }
         }
-      }
+      });
     });
+
+    return captured;
+  }
+
+  /**
+   * Oracle price at an event's close, which is also the next event's last price.
+   * Only a price seen right at the close counts towards the local outcome.
+   */
+  private captureClosePrice(event: EventDisplayData, nextEvent: EventDisplayData, price: number): boolean {
+    if (this.eventLastPrice.has(nextEvent.slug)) {
+      return false;
+    }
+
+    this.eventLastPrice.set(nextEvent.slug, price);
+    if (clock.now() - new Date(event.endDate).getTime() <= PRICE_CAPTURE_WINDOW) {
+      this.resolutionTracker.recordPrices(event, null, price);
+    }
+    return true;
   }
 
+  /**
+   * Queue every started event that doesn't have an exact price to beat yet
+   */
+  private trackPendingPricesToBeat(): void {
+    this.eventManager.getEvents()
+      .filter(event => event.status !== 'upcoming' && !this.priceToBeatStore.get(event.slug)?.exact)
+      .forEach(event => this.pendingPriceToBeat.set(event.slug, event));
+  }
+
+  /**
+   * Resolve prices to beat for the pending events from the oracle ticks
+   * nearest their start. Exact ones feed the local outcome in the resolution tracker.
+   */
   private capturePriceForActiveEvent(): void {
-    if (this.currentPrice === null) return;
+    const focusSeriesId = this.getFocusSeriesId();
+    let focusChanged = false;
+
+    this.pendingPriceToBeat.forEach((event, slug) => {
+      const series = getSeries(event.seriesId);
+      if (!series) {
+        this.pendingPriceToBeat.delete(slug);
+        return;
+      }
+      if (!this.priceToBeatStore.resolve(event, series.oracleSymbol)) return;
 
-    const events = this.eventManager.getEvents();
-    const activeEvent = events.find(e => e.status === 'active');
-    
-    if (activeEvent) {
-      // If we don't have a price to beat for this event yet, capture it
-      if (!this.eventPriceToBeat.has(activeEvent.slug)) {
-        this.eventPriceToBeat.set(activeEvent.slug, this.currentPrice);
-        // Re-render active event to show the price
-        this.renderActiveEvent();
+      const priceToBeat = this.priceToBeatStore.get(slug);
+      if (priceToBeat?.exact) {
+        this.pendingPriceToBeat.delete(slug);
+        this.resolutionTracker.recordPrices(event, priceToBeat.value, null);
+      }
+      if (series.id === focusSeriesId && event.status === 'active') {
+        focusChanged = true;
+      }
+    });
+
+    // Re-render active event to show the price
+    if (focusChanged) {
+      this.renderActiveEvent();
+    }
+  }
+
+  /**
+   * Feed the Chainlink ticks of a recording into the price-to-beat history
+   * without replaying it, to recover starts we weren't connected for
+   */
+  private async backfillFromRecording(file: File): Promise<void> {
+    const entries = StreamRecorder.parse(await file.text());
+    const symbols = new Set(SUPPORTED_SYMBOLS);
+    const sources = new Set(['chainlink' as const]);
+    let count = 0;
+
+    entries
+      .filter(entry => entry.channel === 'rtds')
+      .forEach(entry => {
+        const update = parsePriceMessage(entry.data, symbols, sources, entry.t);
+        if (update) {
+          this.priceToBeatStore.recordTick(update.symbol, update.payload.timestamp, update.payload.value);
+          count++;
+        }
+      });
+
+    this.trackPendingPricesToBeat();
+    this.capturePriceForActiveEvent();
+    this.renderEventsTable();
+    alert(`Backfilled ${count} Chainlink ticks from the recording.`);
+  }
+
+  /**
+   * Resolve a time zone select value, prompting for an IANA name on "Other..."
+   */
+  private pickTimeZone(value: string): string | null {
+    if (value !== 'other') {
+      return value;
+    }
+
+    const input = prompt('IANA time zone (e.g. Europe/Berlin):');
+    if (!input) {
+      return null;
+    }
+    const timeZone = input.trim();
+    if (!isValidTimeZone(timeZone)) {
+      alert(`Unknown time zone: ${timeZone}`);
+      return null;
+    }
+    return timeZone;
+  }
+
+  /**
+   * Switch the display zone and re-render every time on screen
+   */
+  private applyDisplayTimeZone(timeZone: string): void {
+    if (!setDisplayTimeZone(timeZone)) {
+      alert(`Unknown time zone: ${timeZone}`);
+      return;
+    }
+    if (timeZone !== 'UTC') {
+      this.lastNonUtcTimeZone = timeZone;
+    }
+
+    this.renderTimeZoneOptions();
+    this.eventManager.reformatEvents();
+    this.renderHistory();
+    this.updatePriceDisplay();
+    this.renderTradingSection();
+    this.updateClock();
+  }
+
+  private timeZoneOptions(selected: string): string {
+    const zones = Array.from(new Set([getLocalTimeZone(), ...COMMON_TIME_ZONES, selected]));
+    return [
+      ...zones.map(zone => `<option value="${zone}" ${zone === selected ? 'selected' : ''}>${zone === getLocalTimeZone() ? `${zone} (local)` : zone}</option>`),
+      '<option value="other">Other...</option>'
+    ].join('');
+  }
+
+  private renderTimeZoneOptions(): void {
+    const displayZoneSelect = document.getElementById('display-timezone');
+    const secondaryZoneSelect = document.getElementById('secondary-timezone');
+    const utcToggle = document.getElementById('utc-toggle');
+
+    if (displayZoneSelect) displayZoneSelect.innerHTML = this.timeZoneOptions(getDisplayTimeZone());
+    if (secondaryZoneSelect) secondaryZoneSelect.innerHTML = this.timeZoneOptions(getSecondaryTimeZone());
+    if (utcToggle) utcToggle.classList.toggle('active', getDisplayTimeZone() === 'UTC');
+  }
+
+  private startClock(): void {
+    if (this.clockInterval !== null) {
+      clearInterval(this.clockInterval);
+    }
+    this.updateClock();
+    this.clockInterval = window.setInterval(() => {
+      this.updateClock();
+    }, 1000);
+  }
+
+  /**
+   * Dual clock: display zone and secondary zone, on the app clock (follows replay)
+   */
+  private updateClock(): void {
+    const now = clock.now();
+    const primary = document.getElementById('clock-primary');
+    const secondary = document.getElementById('clock-secondary');
+
+    if (primary) {
+      primary.textContent = `${formatTimeOfDay(now)} ${getTimeZoneAbbreviation(now)}`;
+      primary.title = getDisplayTimeZone();
+    }
+    if (secondary) {
+      secondary.textContent = `${formatTimeOfDay(now, getSecondaryTimeZone())} ${getTimeZoneAbbreviation(now, getSecondaryTimeZone())}`;
+      secondary.title = getSecondaryTimeZone();
+    }
+  }
+
+  private handleStatusChange(status: ConnectionStatus): void {
+    this.currentStatus = status;
+    this.updateUI();
+    if (this.replay) {
+      this.updateRecordingUI();
+    }
+  }
+
+  private updatePriceDisplay(): void {
+    const priceElement = document.getElementById('current-price');
+    const timestampElement = document.getElementById('price-timestamp');
+    const changeElement = document.getElementById('price-change');
+
+    if (priceElement && this.currentPrice !== null) {
+      priceElement.textContent = this.formatPrice(this.currentPrice);
+      
+      // Add animation class for price updates
+      priceElement.classList.add('price-update');
+      setTimeout(() => {
+        priceElement.classList.remove('price-update');
+      }, 300);
+    }
+
+    if (timestampElement && this.priceHistory.length > 0) {
+      const lastUpdate = this.priceHistory[this.priceHistory.length - 1];
+      timestampElement.textContent = `${formatTimeOfDay(lastUpdate.timestamp)} ${getTimeZoneAbbreviation(lastUpdate.timestamp)}`;
+    }
+
+    if (changeElement && this.priceHistory.length >= 2) {
+      const current = this.priceHistory[this.priceHistory.length - 1].value;
+      const previous = this.priceHistory[this.priceHistory.length - 2].value;
+      const change = current - previous;
+      const changePercentValue = (change / previous) * 100;
+      const changePercent = changePercentValue.toFixed(4);
+
+      changeElement.textContent = `${change >= 0 ? '+' : ''}${change.toFixed(2)} (${changePercentValue >= 0 ? '+' : ''}${changePercent}%)`;
+      changeElement.className = change >= 0 ? 'positive' : 'negative';
+    }
+  }
+
+  /**
+   * Show the Binance vs Chainlink spread and how far the oracle lags behind
+   */
+  private updateDivergenceDisplay(): void {
+    const binanceElement = document.getElementById('binance-price');
+    const spreadElement = document.getElementById('source-spread');
+    const lagElement = document.getElementById('source-lag');
+
+    if (binanceElement) {
+      binanceElement.textContent = this.binancePrice !== null ? this.formatPrice(this.binancePrice) : '--';
+    }
+
+    if (spreadElement) {
+      if (this.binancePrice !== null && this.currentPrice !== null) {
+        const spread = this.binancePrice - this.currentPrice;
+        const spreadBps = (spread / this.currentPrice) * 10000;
+        spreadElement.textContent = `${spread >= 0 ? '+' : ''}${spread.toFixed(2)} (${spreadBps >= 0 ? '+' : ''}${spreadBps.toFixed(1)} bps)`;
+        spreadElement.className = `price-change ${spread >= 0 ? 'positive' : 'negative'}`;
+      } else {
+        spreadElement.textContent = '--';
+        spreadElement.className = 'price-change';
+      }
+    }
+
+    if (lagElement) {
+      if (this.binanceTimestamp !== null && this.chainlinkTimestamp !== null) {
+        const lagSeconds = (this.binanceTimestamp - this.chainlinkTimestamp) / 1000;
+        lagElement.textContent = `${lagSeconds.toFixed(1)}s`;
+      } else {
+        lagElement.textContent = '--';
+      }
+    }
+  }
+
+  /**
+   * Swap the live feeds for a recording. StreamingPlatform and TradingManager
+   * keep running unchanged on the replayed ticks and quotes.
+   */
+  private async startReplay(file: File, speed: ReplaySpeed): Promise<void> {
+    const entries = StreamRecorder.parse(await file.text());
+    if (entries.length === 0) {
+      alert('Recording is empty or could not be parsed.');
+      return;
+    }
+
+    this.liveClient.disconnect();
+    this.clobMarketClient.setLive(false);
+    this.resetPriceState();
+    this.feedMetrics.reset();
+
+    const replay = new ReplaySource(entries, {
+      speed,
+      marketClient: this.clobMarketClient,
+      symbols: this.liveClient.getSubscribedSymbols(),
+      sources: this.liveClient.getEnabledSources(),
+    });
+    replay.setCallbacks(
+      this.handlePriceUpdate.bind(this),
+      this.handleStatusChange.bind(this)
+    );
+    replay.setOnFinished(() => {
+      this.updateRecordingUI();
+    });
+
+    this.replay = replay;
+    this.priceFeed = replay;
+    replay.connect();
+
+    // Load the events that were live during the recording
+    await this.loadEvents();
+    this.updateRecordingUI();
+  }
+
+  private async stopReplay(): Promise<void> {
+    if (!this.replay) {
+      return;
+    }
+
+    this.replay.disconnect();
+    this.replay = null;
+    this.priceFeed = this.liveClient;
+    this.resetPriceState();
+    this.feedMetrics.reset();
+    this.clobMarketClient.setLive(true);
+    this.updateRecordingUI();
+    await this.loadEvents();
+  }
+
+  private resetPriceState(): void {
+    this.currentPrice = null;
+    this.priceHistory = [];
+    this.binancePrice = null;
+    this.binanceTimestamp = null;
+    this.chainlinkTimestamp = null;
+    this.symbolPrices.clear();
+    this.updateSymbolTicker();
+    this.updateDivergenceDisplay();
+  }
+
+  private updateRecordingUI(): void {
+    const recordBtn = document.getElementById('record-toggle');
+    const replayBtn = document.getElementById('replay-toggle');
+    const recordingStatus = document.getElementById('recording-status');
+
+    if (recordBtn) {
+      recordBtn.textContent = this.recorder.isRecording() ? 'Stop & Download' : 'Record';
+    }
+
+    if (replayBtn) {
+      replayBtn.textContent = this.replay ? 'Stop Replay' : 'Start Replay';
+    }
+
+    if (recordingStatus) {
+      if (this.replay) {
+        const { index, total } = this.replay.getProgress();
+        recordingStatus.textContent = this.replay.isConnected()
+          ? `Replaying ${index}/${total}`
+          : `Replay finished (${total} messages)`;
+      } else if (this.recorder.isRecording()) {
+        recordingStatus.textContent = `Recording: ${this.recorder.getCount()} messages`;
+      } else {
+        recordingStatus.textContent = '';
       }
     }
   }
 
-  private handleStatusChange(status: ConnectionStatus): void {
-    this.currentStatus = status;
-    this.updateUI();
-  }
-
-  private updatePriceDisplay(): void {
-    const priceElement = document.getElementById('current-price');
-    const timestampElement = document.getElementById('price-timestamp');
-    const changeElement = document.getElementById('price-change');
-
-    if (priceElement && this.currentPrice !== null) {
-      priceElement.textContent = this.formatPrice(this.currentPrice);
-      
-      // Add animation class for price updates
-      priceElement.classList.add('price-update');
-      setTimeout(() => {
-        priceElement.classList.remove('price-update');
-      }, 300);
-    }
+  private startDiagnostics(): void {
+    if (this.diagnosticsInterval !== null) {
+      clearInterval(this.diagnosticsInterval);
+    }
+    this.renderDiagnostics();
+    this.diagnosticsInterval = window.setInterval(() => {
+      this.renderDiagnostics();
+    }, 1000);
+  }
+
+  private formatMs(value: number | null): string {
+    if (value === null) return '--';
+    return Math.abs(value) >= 1000 ? `${(value / 1000).toFixed(2)}s` : `${Math.round(value)}ms`;
+  }
+
+  private renderHistogram(stats: LatencyStats): string {
+    const max = Math.max(1, ...stats.histogram.map(bucket => bucket.count));
+    return `
+      <div class="latency-histogram">
+        ${stats.histogram.map(bucket => `
+          <div class="histogram-bar" title="${bucket.label}: ${bucket.count}">
+            <div class="histogram-fill" style="height: ${(bucket.count / max) * 100}%"></div>
+            <span class="histogram-label">${bucket.label}</span>
+          </div>
+        `).join('')}
+      </div>
+    `;
+  }
+
+  /**
+   * Feed latency (arrival vs source timestamp), tick cadence and CLOB request RTTs
+   */
+  private renderDiagnostics(): void {
+    const feedsContainer = document.getElementById('diagnostics-feeds');
+    const requestsContainer = document.getElementById('diagnostics-requests');
+
+    if (feedsContainer) {
+      const feeds = this.feedMetrics.getFeedStats();
+      feedsContainer.innerHTML = feeds.length === 0
+        ? '<p class="no-trades">No ticks yet</p>'
+        : `
+          <table class="diagnostics-table">
+            <thead>
+              <tr>
+                <th>Source</th>
+                <th>Ticks/s</th>
+                <th>Interval (jitter)</th>
+                <th>Last</th>
+                <th>p50</th>
+                <th>p95</th>
+                <th>p99</th>
+                <th>Latency Histogram</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${feeds.map(feed => `
+                <tr>
+                  <td>${feed.source}</td>
+                  <td>${feed.ticksPerSecond !== null ? feed.ticksPerSecond.toFixed(2) : '--'}</td>
+                  <td>${this.formatMs(feed.intervalMean)} (±${this.formatMs(feed.intervalJitter)})</td>
+                  <td>${this.formatMs(feed.latency.last)}</td>
+                  <td>${this.formatMs(feed.latency.p50)}</td>
+                  <td>${this.formatMs(feed.latency.p95)}</td>
+                  <td>${this.formatMs(feed.latency.p99)}</td>
+                  <td>${this.renderHistogram(feed.latency)}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        `;
+    }
+
+    if (requestsContainer) {
+      const requests = this.feedMetrics.getRequestStats();
+      requestsContainer.innerHTML = requests.length === 0
+        ? '<p class="no-trades">No CLOB requests yet</p>'
+        : `
+          <table class="diagnostics-table">
+            <thead>
+              <tr>
+                <th>CLOB Request</th>
+                <th>Count</th>
+                <th>Failures</th>
+                <th>Last RTT</th>
+                <th>p50</th>
+                <th>p95</th>
+                <th>p99</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${requests.map(request => `
+                <tr>
+                  <td>${request.name}</td>
+                  <td>${request.rtt.count}</td>
+                  <td>${request.failures}</td>
+                  <td>${this.formatMs(request.rtt.last)}</td>
+                  <td>${this.formatMs(request.rtt.p50)}</td>
+                  <td>${this.formatMs(request.rtt.p95)}</td>
+                  <td>${this.formatMs(request.rtt.p99)}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        `;
+    }
+  }
+
+  private updateSymbolTicker(): void {
+    const subscribed = this.priceFeed.getSubscribedSymbols();
 
-    if (timestampElement && this.priceHistory.length > 0) {
-      const lastUpdate = this.priceHistory[this.priceHistory.length - 1];
-      timestampElement.textContent = new Date(lastUpdate.timestamp).toLocaleTimeString();
-    }
+    SUPPORTED_SYMBOLS.forEach(symbol => {
+      const valueElement = document.getElementById(`symbol-price-${this.symbolKey(symbol)}`);
+      if (!valueElement) return;
 
-    if (changeElement && this.priceHistory.length >= 2) {
-      const current = this.priceHistory[this.priceHistory.length - 1].value;
-      const previous = this.priceHistory[this.priceHistory.length - 2].value;
-      const change = current - previous;
-      const changePercentValue = (change / previous) * 100;
-      const changePercent = changePercentValue.toFixed(4);
+      const price = this.symbolPrices.get(symbol);
+      if (!subscribed.includes(symbol)) {
+        valueElement.textContent = 'off';
+      } else {
+        valueElement.textContent = price !== undefined ? this.formatPrice(price) : '--';
+      }
+    });
+  }
 
-      changeElement.textContent = `${change >= 0 ? '+' : ''}${change.toFixed(2)} (${changePercentValue >= 0 ? '+' : ''}${changePercent}%)`;
-      changeElement.className = change >= 0 ? 'positive' : 'negative';
-    }
+  private symbolKey(symbol: CryptoSymbol): string {
+    return symbol.split('/')[0];
   }
 
   private updateUI(): void {
@@ -202,14 +1044,37 @@ export class StreamingPlatform {
     const errorElement = document.getElementById('error-message');
     
     if (statusElement) {
-      const isConnected = this.currentStatus.connected;
-      statusElement.textContent = isConnected ? 'Connected' : 'Disconnected';
-      statusElement.className = isConnected ? 'status-connected' : 'status-disconnected';
+      const { connected, stale, reconnectAttempt, nextRetryAt } = this.currentStatus;
+
+      if (connected && stale) {
+        statusElement.textContent = 'Stale';
+        statusElement.className = 'status-stale';
+      } else if (connected) {
+        statusElement.textContent = 'Connected';
+        statusElement.className = 'status-connected';
+      } else if (nextRetryAt !== null) {
+        const secondsLeft = Math.max(0, Math.ceil((nextRetryAt - Date.now()) / 1000));
+        statusElement.textContent = `Reconnecting (${reconnectAttempt}) in ${secondsLeft}s`;
+        statusElement.className = 'status-reconnecting';
+      } else {
+        statusElement.textContent = 'Disconnected';
+        statusElement.className = 'status-disconnected';
+      }
     }
 
     if (errorElement) {
       errorElement.textContent = this.currentStatus.error || '';
     }
+
+    // Keep the reconnect countdown ticking between status events
+    if (this.currentStatus.nextRetryAt !== null && !this.currentStatus.connected) {
+      if (this.statusBadgeInterval === null) {
+        this.statusBadgeInterval = window.setInterval(() => this.updateUI(), 1000);
+      }
+    } else if (this.statusBadgeInterval !== null) {
+      clearInterval(this.statusBadgeInterval);
+      this.statusBadgeInterval = null;
+    }
   }
 
   private formatPrice(price: number): string {
@@ -252,9 +1117,8 @@ export class StreamingPlatform {
         errorElement.style.display = 'block';
       }
       
-      // Still try to render with placeholder data if we have timestamps
-      const timestamps = getNext15MinIntervals(10);
-      if (timestamps.length > 0) {
+      // Still try to render with placeholder data
+      if (this.eventManager.getEvents().length > 0) {
         this.updateLastPrices();
         this.renderEventsTable();
       }
@@ -262,22 +1126,7 @@ export class StreamingPlatform {
   }
 
   private updateLastPrices(): void {
-    if (this.currentPrice === null) return;
-
-    const events = this.eventManager.getEvents();
-    
-    // For each event, if the previous event just expired, capture the price
-    events.forEach((event, index) => {
-      if (index > 0) {
-        const previousEvent = events[index - 1];
-        
-        // If previous event is expired and we have a current price, store it as last price for this event
-        if (previousEvent.status === 'expired' && !this.eventLastPrice.has(event.slug) && this.currentPrice !== null) {
-          // Use current price as the last price (price when previous event ended)
-          this.eventLastPrice.set(event.slug, this.currentPrice);
-        }
-      }
-    });
+    this.captureLastPrices();
   }
 
   private formatCountdown(seconds: number): string {
@@ -293,8 +1142,7 @@ export class StreamingPlatform {
   }
 
   private updateCountdown(): void {
-    const events = this.eventManager.getEvents();
-    const activeEvent = events.find(e => e.status === 'active');
+    const activeEvent = this.getFocusActiveEvent();
     const countdownElement = document.getElementById('event-countdown');
     
     if (!activeEvent || !countdownElement) {
@@ -303,27 +1151,19 @@ export class StreamingPlatform {
     }
 
     const endDate = new Date(activeEvent.endDate);
-    const now = new Date();
+    const now = new Date(clock.now());
     const timeLeft = Math.max(0, Math.floor((endDate.getTime() - now.getTime()) / 1000));
     
     countdownElement.textContent = this.formatCountdown(timeLeft);
+
+    const endsElement = document.getElementById('event-countdown-ends');
+    if (endsElement) {
+      endsElement.textContent = `ends ${formatTimeOfDay(endDate.getTime())} ${getTimeZoneAbbreviation(endDate.getTime())}`;
+    }
     
-    // If time is up, capture the price and refresh events to update status
+    // EventManager flips the status at the boundary and the panel re-renders from there
     if (timeLeft === 0) {
-      // Capture current price as last price for the next event
-      if (this.currentPrice !== null) {
-        const events = this.eventManager.getEvents();
-        const activeEvent = events.find(e => e.status === 'active');
-        if (activeEvent) {
-          const activeIndex = events.findIndex(e => e.status === 'active');
-          const nextEvent = events[activeIndex + 1];
-          if (nextEvent && !this.eventLastPrice.has(nextEvent.slug)) {
-            this.eventLastPrice.set(nextEvent.slug, this.currentPrice);
-          }
-        }
-      }
       this.stopCountdown();
-      this.loadEvents().catch(console.error);
     }
   }
 
@@ -344,103 +1184,316 @@ export class StreamingPlatform {
   }
 
   /**
-   * Fetch UP and DOWN prices for the active event
+   * Point the CLOB market stream at the active event's tokens.
+   * No-op when the tokens haven't changed, so it's safe to call on every render.
    */
-  private async updateUpDownPrices(): Promise<void> {
-    const events = this.eventManager.getEvents();
-    const activeEvent = events.find(e => e.status === 'active');
+  private syncMarketTokens(): void {
+    const activeEvent = this.getFocusActiveEvent();
+    const tokenIds = activeEvent?.clobTokenIds || [];
+
+    // Quotes from the previous event's tokens no longer apply
+    if (tokenIds.join(',') !== this.clobMarketClient.getTokens().join(',')) {
+      this.outcomePrices.clear();
+      this.polledBooks.clear();
+    }
 
-    if (!activeEvent || !activeEvent.clobTokenIds || activeEvent.clobTokenIds.length < 2) {
-      this.upPrice = null;
-      this.downPrice = null;
-      // Update DOM to show no prices
-      this.updateUpDownPriceDisplay();
+    this.clobMarketClient.setTokens(tokenIds);
+  }
+
+  /**
+   * Streamed quote from the CLOB market channel
+   */
+  private handleQuoteUpdate(quote: MarketQuote): void {
+    if (this.clobMarketClient.isLive()) {
+      this.feedMetrics.recordTick('clob-ws', quote.timestamp, Date.now());
+    }
+
+    if (!this.clobMarketClient.getTokens().includes(quote.tokenId)) {
       return;
     }
 
-    const upTokenId = activeEvent.clobTokenIds[0]; // First token = UP
-    const downTokenId = activeEvent.clobTokenIds[1]; // Second token = DOWN
+    const buyPrice = quote.bestAsk !== null ? quote.bestAsk * 100 : null; // Convert to 0-100 scale
+    this.outcomePrices.set(quote.tokenId, buyPrice);
 
-    try {
-      // Fetch prices in parallel using proxy to avoid CORS issues
-      const [upPriceResult, downPriceResult] = await Promise.all([
-        fetch(`/api/clob-proxy?side=BUY&token_id=${upTokenId}`),
-        fetch(`/api/clob-proxy?side=BUY&token_id=${downTokenId}`),
-      ]);
+    this.updateOutcomePriceDisplay(quote.tokenId);
+    this.scheduleDepthRender();
+    this.tradingManager.handleQuoteUpdate(quote);
+  }
 
-      if (upPriceResult.ok) {
-        const upData = await upPriceResult.json();
-        this.upPrice = upData.price ? parseFloat(upData.price) * 100 : null; // Convert to 0-100 scale
+  /**
+   * Redraw the depth ladders at most every DEPTH_RENDER_INTERVAL, however fast the book moves
+   */
+  private scheduleDepthRender(): void {
+    if (this.depthRenderTimer !== null) {
+      return;
+    }
+    this.depthRenderTimer = window.setTimeout(() => {
+      this.depthRenderTimer = null;
+      const container = document.getElementById('depth-ladders');
+      const activeEvent = this.getFocusActiveEvent();
+      if (container && activeEvent) {
+        container.innerHTML = this.renderDepthLadders(activeEvent);
       }
+      this.renderEntryTicket();
+    }, DEPTH_RENDER_INTERVAL);
+  }
 
-      if (downPriceResult.ok) {
-        const downData = await downPriceResult.json();
-        this.downPrice = downData.price ? parseFloat(downData.price) * 100 : null; // Convert to 0-100 scale
-      }
+  /**
+   * Streamed book for a token, or the last polled one while the stream has none
+   */
+  private getDepthBook(tokenId: string): OrderBookSnapshot | null {
+    return this.clobMarketClient.getOrderBook(tokenId) ?? this.polledBooks.get(tokenId) ?? null;
+  }
 
-      // Update DOM elements directly for smoother updates
-      this.updateUpDownPriceDisplay();
-    } catch (error) {
-      console.error('Error fetching UP/DOWN prices:', error);
+  /**
+   * The entry the strategy would place now: on the Up or Down token whose best
+   * ask is nearest the entry price, sized and priced against its book
+   */
+  private renderEntryTicket(): void {
+    const ticket = document.getElementById('entry-ticket');
+    if (!ticket) return;
+
+    const config = this.tradingManager.getStrategyConfig();
+    const markets = this.getFocusActiveEvent()?.markets || [];
+    const candidates = (['Up', 'Down'] as const)
+      .map(outcome => {
+        const token = findOutcomeToken(markets, outcome);
+        const book = token ? this.getDepthBook(token.tokenId) : null;
+        return book && book.asks.length > 0 ? { outcome, book } : null;
+      })
+      .filter((candidate): candidate is { outcome: 'Up' | 'Down'; book: OrderBookSnapshot } => candidate !== null)
+      .sort((a, b) => Math.abs(a.book.asks[0].price * 100 - config.entryPrice) - Math.abs(b.book.asks[0].price * 100 - config.entryPrice));
+
+    if (candidates.length === 0) {
+      ticket.innerHTML = '<div class="entry-ticket-empty">Entry ticket: waiting for order books</div>';
+      return;
+    }
+
+    const { outcome, book } = candidates[0];
+    const plan = this.tradingManager.planEntry(book);
+    const { estimate } = plan;
+    const actionLabel = plan.action === 'place' ? 'Within slippage'
+      : plan.action === 'shrink' ? `Shrunk from $${config.tradeSize.toFixed(2)}`
+      : 'Would be skipped';
+
+    ticket.innerHTML = `
+      <div class="entry-ticket-header">
+        <span>Entry Ticket: BUY ${outcome}</span>
+        <span class="entry-ticket-action entry-ticket-${plan.action}">${actionLabel}</span>
+      </div>
+      <div class="entry-ticket-details">
+        <div><strong>Size:</strong> $${(plan.action === 'skip' ? config.tradeSize : plan.size).toFixed(2)}</div>
+        <div><strong>Best Ask:</strong> ${estimate.bestPrice !== null ? estimate.bestPrice.toFixed(2) : '--'}</div>
+        <div><strong>Est. Avg Fill:</strong> ${estimate.averagePrice !== null ? estimate.averagePrice.toFixed(2) : '--'}</div>
+        <div><strong>Slippage:</strong> ${estimate.slippage !== null ? estimate.slippage.toFixed(2) : '--'} (max ${config.maxSlippage.toFixed(2)})</div>
+        <div><strong>Shares:</strong> ${estimate.shares.toFixed(2)}</div>
+        ${estimate.fillable < estimate.size ? `<div><strong>Visible Depth:</strong> $${estimate.fillable.toFixed(2)}</div>` : ''}
+      </div>
+    `;
+  }
+
+  private startDepthPolling(): void {
+    if (this.depthPollInterval !== null) {
+      clearInterval(this.depthPollInterval);
     }
+    this.depthPollInterval = window.setInterval(() => {
+      this.pollDepthBooks();
+    }, DEPTH_POLL_INTERVAL);
   }
 
   /**
-   * Update UP/DOWN price display in DOM without re-rendering entire section
+   * Fetch REST books for the tokens the market stream has no book for,
+   * e.g. while it connects or reconnects
    */
-  private updateUpDownPriceDisplay(): void {
-    const upPriceElement = document.getElementById('up-price-value');
-    const downPriceElement = document.getElementById('down-price-value');
+  private async pollDepthBooks(): Promise<void> {
+    if (this.depthPolling || !this.clobMarketClient.isLive()) {
+      return;
+    }
 
-    if (upPriceElement) {
-      upPriceElement.textContent = this.upPrice !== null ? this.formatUpDownPrice(this.upPrice) : '--';
-      // Add animation class
-      upPriceElement.classList.add('price-update');
-      setTimeout(() => {
-        upPriceElement.classList.remove('price-update');
-      }, 300);
+    const tokenIds = this.clobMarketClient.getTokens();
+    const missing = tokenIds.filter(tokenId => !this.clobMarketClient.getOrderBook(tokenId));
+    if (missing.length === 0) {
+      this.polledBooks.clear();
+      return;
     }
 
-    if (downPriceElement) {
-      downPriceElement.textContent = this.downPrice !== null ? this.formatUpDownPrice(this.downPrice) : '--';
-      // Add animation class
-      downPriceElement.classList.add('price-update');
-      setTimeout(() => {
-        downPriceElement.classList.remove('price-update');
-      }, 300);
+    this.depthPolling = true;
+    try {
+      const books = await Promise.all(missing.map(tokenId => this.tradingManager.getOrderBook(tokenId)));
+      // Drop answers for the previous event's tokens
+      if (tokenIds.join(',') !== this.clobMarketClient.getTokens().join(',')) {
+        return;
+      }
+      books.forEach((book, index) => {
+        if (book) {
+          this.polledBooks.set(missing[index], book);
+          // Keep the outcome prices moving while the stream is down
+          this.outcomePrices.set(missing[index], book.asks.length > 0 ? book.asks[0].price * 100 : null);
+          this.updateOutcomePriceDisplay(missing[index]);
+        }
+      });
+      this.scheduleDepthRender();
+    } finally {
+      this.depthPolling = false;
     }
   }
 
+  private formatCents(price: number): string {
+    return `${parseFloat((price * 100).toFixed(1))}¢`;
+  }
+
+  private formatUsd(amount: number): string {
+    return `$${Math.round(amount).toLocaleString()}`;
+  }
+
   /**
-   * Start updating UP/DOWN prices in real-time
+   * One ladder per outcome token: bids and asks with sizes, cumulative USDC
+   * depth, spread, and how much of a strategy entry the asks could fill
    */
-  private startPriceUpdates(): void {
-    this.stopPriceUpdates();
-    // Update immediately
-    this.updateUpDownPrices();
-    // Then update every 1 second
-    this.priceUpdateInterval = window.setInterval(() => {
-      this.updateUpDownPrices();
-    }, 1000);
+  private renderDepthLadders(event: EventDisplayData): string {
+    const tokens = (event.markets || []).flatMap(market => market.tokens);
+    if (tokens.length === 0) {
+      return '';
+    }
+
+    const { entryPrice, tradeSize } = this.tradingManager.getStrategyConfig();
+
+    return tokens.map(token => {
+      const streamed = this.clobMarketClient.getOrderBook(token.tokenId);
+      const book = this.getDepthBook(token.tokenId);
+      const header = `<span class="depth-ladder-outcome">${escapeHtml(token.outcome)}</span>`;
+      if (!book) {
+        return `
+          <div class="depth-ladder">
+            <div class="depth-ladder-header">${header}</div>
+            <div class="depth-ladder-empty">Waiting for order book...</div>
+          </div>
+        `;
+      }
+
+      const ladder = buildDepthLadder(book, DEPTH_LEVELS);
+      const maxDepth = Math.max(
+        ladder.bids[ladder.bids.length - 1]?.cumulativeNotional || 0,
+        ladder.asks[ladder.asks.length - 1]?.cumulativeNotional || 0,
+        1
+      );
+      const depthCell = (level: DepthLevel | undefined, side: 'bid' | 'ask') => level
+        ? `<td class="depth-cumulative depth-${side}-bar" style="background-size: ${(level.cumulativeNotional / maxDepth) * 100}% 100%">${this.formatUsd(level.cumulativeNotional)}</td>`
+        : '<td class="depth-cumulative"></td>';
+
+      const rows = Array.from({ length: DEPTH_LEVELS }, (_, index) => {
+        const bid = ladder.bids[index];
+        const ask = ladder.asks[index];
+        return `
+          <tr>
+            ${depthCell(bid, 'bid')}
+            <td class="depth-size">${bid ? Math.round(bid.size).toLocaleString() : ''}</td>
+            <td class="depth-bid">${bid ? this.formatCents(bid.price) : ''}</td>
+            <td class="depth-ask">${ask ? this.formatCents(ask.price) : ''}</td>
+            <td class="depth-size">${ask ? Math.round(ask.size).toLocaleString() : ''}</td>
+            ${depthCell(ask, 'ask')}
+          </tr>
+        `;
+      }).join('');
+
+      // Whole book, not just the levels shown
+      const fillable = depthAtOrBetter(book, 'BUY', entryPrice / 100);
+      const fillClass = fillable.notional >= tradeSize ? 'depth-fill-ok' : 'depth-fill-short';
+
+      return `
+        <div class="depth-ladder">
+          <div class="depth-ladder-header">
+            ${header}
+            <span class="depth-ladder-spread">Spread ${ladder.spread !== null ? this.formatCents(ladder.spread) : '--'}</span>
+            <span class="depth-ladder-source">${streamed ? 'stream' : 'polled'}</span>
+          </div>
+          <table class="depth-ladder-table">
+            <thead>
+              <tr><th>Cum $</th><th>Size</th><th>Bid</th><th>Ask</th><th>Size</th><th>Cum $</th></tr>
+            </thead>
+            <tbody>${rows}</tbody>
+          </table>
+          <div class="depth-ladder-fill ${fillClass}">
+            Asks at or below ${entryPrice}¢: ${this.formatUsd(fillable.notional)} of ${this.formatUsd(tradeSize)} entry
+          </div>
+        </div>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Update one outcome's price in the DOM without re-rendering entire section
+   */
+  private updateOutcomePriceDisplay(tokenId: string): void {
+    const priceElement = document.getElementById(`outcome-price-${tokenId}`);
+    if (!priceElement) return;
+
+    const price = this.outcomePrices.get(tokenId) ?? null;
+    priceElement.textContent = price !== null ? this.formatUpDownPrice(price) : '--';
+    // Add animation class
+    priceElement.classList.add('price-update');
+    setTimeout(() => {
+      priceElement.classList.remove('price-update');
+    }, 300);
+  }
+
+  /**
+   * One price button per outcome of each market, labelled by outcome name
+   */
+  private renderOutcomeButtons(event: EventDisplayData): string {
+    const markets = event.markets || [];
+    if (markets.length === 0) {
+      return '<div class="outcome-unavailable">Outcomes not listed yet</div>';
+    }
+
+    return markets.map(market => {
+      const buttons = market.tokens.map(token => {
+        const label = token.outcome.toLowerCase();
+        const buttonClass = label === 'up' || label === 'yes' ? 'up-button'
+          : label === 'down' || label === 'no' ? 'down-button'
+          : 'outcome-button';
+        const price = this.outcomePrices.get(token.tokenId) ?? null;
+        return `
+          <button class="up-down-button ${buttonClass}" data-token-id="${escapeHtml(token.tokenId)}">
+            <span class="button-label">${escapeHtml(token.outcome)}</span>
+            <span class="button-price" id="outcome-price-${escapeHtml(token.tokenId)}">${price !== null ? this.formatUpDownPrice(price) : '--'}</span>
+          </button>
+        `;
+      }).join('');
+
+      // Name the market only when there's more than one to tell apart
+      const heading = markets.length > 1 && market.question
+        ? `<div class="outcome-market-question">${escapeHtml(market.question)}</div>`
+        : '';
+      return `${heading}<div class="active-event-up-down-prices">${buttons}</div>`;
+    }).join('');
   }
 
   /**
-   * Stop updating UP/DOWN prices
+   * Token IDs labelled with their outcome, grouped by market when there are
+   * several, as escaped HTML
    */
-  private stopPriceUpdates(): void {
-    if (this.priceUpdateInterval !== null) {
-      clearInterval(this.priceUpdateInterval);
-      this.priceUpdateInterval = null;
+  private formatOutcomeTokens(event: EventDisplayData): string {
+    const markets = event.markets || [];
+    if (markets.length === 0) {
+      return '--';
     }
+
+    return markets.map(market => {
+      const tokens = market.tokens.map(token => `${escapeHtml(token.outcome)}: ${escapeHtml(token.tokenId)}`).join(', ');
+      return markets.length > 1 && market.question ? `${escapeHtml(market.question)} (${tokens})` : tokens;
+    }).join('; ');
   }
 
   private renderActiveEvent(): void {
-    const events = this.eventManager.getEvents();
-    const activeEvent = events.find(e => e.status === 'active');
+    const activeEvent = this.getFocusActiveEvent();
     const activeEventContainer = document.getElementById('active-event-display');
     
     if (!activeEventContainer) return;
 
+    // Follow the active event's tokens on the CLOB market stream
+    this.syncMarketTokens();
+
     // Stop countdown if no active event
     if (!activeEvent) {
       this.stopCountdown();
@@ -453,15 +1506,11 @@ export class StreamingPlatform {
     }
 
     // Get price to beat for this event
-    const priceToBeat = this.eventPriceToBeat.get(activeEvent.slug);
-    const priceToBeatDisplay = priceToBeat !== undefined 
-      ? this.formatPrice(priceToBeat) 
-      : (this.currentPrice !== null ? this.formatPrice(this.currentPrice) + ' (current)' : 'Loading...');
-
-    // If we have a current price but no stored price to beat, capture it now
-    if (priceToBeat === undefined && this.currentPrice !== null) {
-      this.eventPriceToBeat.set(activeEvent.slug, this.currentPrice);
-    }
+    const seriesPrice = this.getSeriesPrice(activeEvent.seriesId);
+    const priceToBeat = this.priceToBeatStore.get(activeEvent.slug);
+    const priceToBeatDisplay = priceToBeat
+      ? this.formatPriceToBeat(priceToBeat)
+      : (seriesPrice !== null ? this.formatPrice(seriesPrice) + ' (current)' : 'Loading...');
 
     activeEventContainer.innerHTML = `
       <div class="active-event-content">
@@ -473,21 +1522,14 @@ export class StreamingPlatform {
         <div class="active-event-countdown">
           <span class="countdown-label">Time Remaining:</span>
           <span class="countdown-value" id="event-countdown">--:--:--</span>
+          <span class="countdown-ends" id="event-countdown-ends"></span>
         </div>
         <div class="active-event-price-to-beat">
           <span class="price-to-beat-label">Price to Beat:</span>
           <span class="price-to-beat-value">${priceToBeatDisplay}</span>
         </div>
-        <div class="active-event-up-down-prices">
-          <button class="up-down-button up-button" id="up-price-button">
-            <span class="button-label">Up</span>
-            <span class="button-price" id="up-price-value">${this.upPrice !== null ? this.formatUpDownPrice(this.upPrice) : '--'}</span>
-          </button>
-          <button class="up-down-button down-button" id="down-price-button">
-            <span class="button-label">Down</span>
-            <span class="button-price" id="down-price-value">${this.downPrice !== null ? this.formatUpDownPrice(this.downPrice) : '--'}</span>
-          </button>
-        </div>
+        ${this.renderOutcomeButtons(activeEvent)}
+        <div class="depth-ladders" id="depth-ladders">${this.renderDepthLadders(activeEvent)}</div>
         <div class="active-event-details">
           <div class="active-event-detail-item">
             <span class="detail-label">Start:</span>
@@ -501,19 +1543,19 @@ export class StreamingPlatform {
         <div class="active-event-info">
           <div class="info-row">
             <span class="info-label">Condition ID:</span>
-            <span class="info-value">${activeEvent.conditionId || '--'}</span>
+            <span class="info-value">${escapeHtml(activeEvent.conditionId || '--')}</span>
           </div>
           <div class="info-row">
             <span class="info-label">Question ID:</span>
-            <span class="info-value">${activeEvent.questionId || '--'}</span>
+            <span class="info-value">${escapeHtml(activeEvent.questionId || '--')}</span>
           </div>
           <div class="info-row">
             <span class="info-label">CLOB Token IDs:</span>
-            <span class="info-value">${activeEvent.clobTokenIds ? activeEvent.clobTokenIds.join(', ') : '--'}</span>
+            <span class="info-value">${this.formatOutcomeTokens(activeEvent)}</span>
           </div>
           <div class="info-row">
             <span class="info-label">Slug:</span>
-            <span class="info-value slug-value">${activeEvent.slug}</span>
+            <span class="info-value slug-value">${escapeHtml(activeEvent.slug)}</span>
           </div>
         </div>
       </div>
@@ -521,16 +1563,10 @@ export class StreamingPlatform {
 
     // Start countdown for active event
     this.startCountdown();
-    
-    // Update prices if we have token IDs
-    if (activeEvent.clobTokenIds && activeEvent.clobTokenIds.length >= 2) {
-      this.updateUpDownPrices();
-    }
   }
 
   private renderEventsTable(): void {
     const events = this.eventManager.getEvents();
-    const currentIndex = this.eventManager.getCurrentEventIndex();
     const tableBody = document.getElementById('events-table-body');
     
     if (!tableBody) return;
@@ -542,12 +1578,12 @@ export class StreamingPlatform {
     this.renderActiveEvent();
 
     if (events.length === 0) {
-      tableBody.innerHTML = '<tr><td colspan="9" style="text-align: center; padding: 20px;">No events found</td></tr>';
+      tableBody.innerHTML = '<tr><td colspan="11" style="text-align: center; padding: 20px;">No events found</td></tr>';
       return;
     }
 
-    tableBody.innerHTML = events.map((event, index) => {
-      const isCurrent = index === currentIndex;
+    tableBody.innerHTML = events.map(event => {
+      const isCurrent = event.status === 'active';
       const rowClass = isCurrent ? 'event-row current-event' : 'event-row';
       
       const statusClass = event.status === 'active' ? 'status-active' : 
@@ -555,35 +1591,216 @@ export class StreamingPlatform {
       const statusText = event.status === 'active' ? 'Active' : 
                         event.status === 'expired' ? 'Expired' : 'Upcoming';
 
-      // Get last price for this event (from previous event's end)
+      // Price to beat, falling back to the last price seen at the previous event's end
+      const priceToBeat = this.priceToBeatStore.get(event.slug);
       const lastPrice = this.eventLastPrice.get(event.slug) || event.lastPrice;
-      const lastPriceDisplay = lastPrice !== undefined ? this.formatPrice(lastPrice) : '--';
+      const lastPriceDisplay = priceToBeat
+        ? this.formatPriceToBeat(priceToBeat)
+        : (lastPrice !== undefined ? this.formatPrice(lastPrice) : '--');
 
       return `
         <tr class="${rowClass}">
+          <td>${this.formatSeriesName(event.seriesId)}</td>
           <td>${event.title}</td>
           <td>${event.formattedStartDate}</td>
           <td>${event.formattedEndDate}</td>
-          <td><span class="${statusClass}">${statusText}</span></td>
+          <td><span class="${statusClass}">${statusText}</span>${!event.rawData && event.status !== 'expired' ? ' <span class="unlisted-badge" title="Not on Gamma yet, checking periodically">Not listed</span>' : ''}</td>
           <td>${lastPriceDisplay}</td>
-          <td>${event.conditionId || '--'}</td>
-          <td>${event.questionId || '--'}</td>
-          <td>${event.clobTokenIds ? event.clobTokenIds.join(', ') : '--'}</td>
-          <td>${event.slug}</td>
+          <td>${this.formatOutcomeCell(event)}</td>
+          <td>${escapeHtml(event.conditionId || '--')}</td>
+          <td>${escapeHtml(event.questionId || '--')}</td>
+          <td>${this.formatOutcomeTokens(event)}</td>
+          <td>${escapeHtml(event.slug)}</td>
         </tr>
       `;
     }).join('');
   }
 
+  private formatPriceToBeat(priceToBeat: PriceToBeat): string {
+    const label = priceToBeat.exact ? 'exact' : 'estimated';
+    const title = priceToBeat.source === 'gamma'
+      ? 'From Polymarket event metadata'
+      : `Chainlink tick at ${priceToBeat.tickTimestamp !== null ? formatTimeOfDay(priceToBeat.tickTimestamp) : '--'}`;
+    return `${this.formatPrice(priceToBeat.value)} <span class="price-to-beat-${label}" title="${title}">${label}</span>`;
+  }
+
+  private formatOutcome(outcome: EventOutcome): string {
+    return `<span class="outcome-badge outcome-${outcome.toLowerCase()}">${outcome}</span>`;
+  }
+
+  /**
+   * Official outcome, flagged when the prices we captured say otherwise
+   */
+  private formatOutcomeCell(event: EventDisplayData): string {
+    if (event.status !== 'expired') return '--';
+
+    const record = this.resolutionTracker.getRecord(event.slug);
+    if (!record) return '--';
+
+    if (!record.officialOutcome) {
+      const local = record.localOutcome ? ` (local: ${record.localOutcome})` : '';
+      return `<span class="outcome-pending">Pending${local}</span>`;
+    }
+
+    const mismatch = record.localOutcome && record.localOutcome !== record.officialOutcome
+      ? ` <span class="outcome-mismatch" title="Captured prices implied ${record.localOutcome}">≠ local ${record.localOutcome}</span>`
+      : '';
+    return `${this.formatOutcome(record.officialOutcome)}${mismatch}`;
+  }
+
+  /**
+   * UP/DOWN ratio, streaks and local vs official agreement per tracked series
+   */
+  private renderOutcomeStats(): void {
+    const container = document.getElementById('outcome-stats-container');
+    if (!container) return;
+
+    const stats = this.eventManager.getEnabledSeries()
+      .map(series => this.resolutionTracker.getStats(series.id))
+      .filter(entry => entry.resolved > 0);
+
+    if (stats.length === 0) {
+      container.innerHTML = '<p class="no-trades">No resolved events yet</p>';
+      return;
+    }
+
+    container.innerHTML = `
+      <table class="outcome-stats-table">
+        <thead>
+          <tr>
+            <th>Series</th>
+            <th>Resolved</th>
+            <th>UP</th>
+            <th>DOWN</th>
+            <th>UP Ratio</th>
+            <th>Current Streak</th>
+            <th>Longest UP</th>
+            <th>Longest DOWN</th>
+            <th>Local vs Official</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${stats.map(entry => `
+            <tr>
+              <td>${this.formatSeriesName(entry.seriesId)}</td>
+              <td>${entry.resolved}</td>
+              <td>${entry.up}</td>
+              <td>${entry.down}</td>
+              <td>${entry.upRatio !== null ? `${(entry.upRatio * 100).toFixed(1)}%` : '--'}</td>
+              <td>${entry.currentStreak ? `${entry.currentStreak.length}× ${this.formatOutcome(entry.currentStreak.outcome)}` : '--'}</td>
+              <td>${entry.longestUpStreak}</td>
+              <td>${entry.longestDownStreak}</td>
+              <td>${entry.compared > 0
+                ? `${entry.disagreements}/${entry.compared} disagreed (${((entry.disagreements / entry.compared) * 100).toFixed(1)}%)`
+                : '--'}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+
+  private async loadHistory(): Promise<void> {
+    const seriesId = (document.getElementById('history-series') as HTMLSelectElement)?.value;
+    const days = parseInt((document.getElementById('history-days') as HTMLInputElement)?.value || '1', 10);
+    const series = getSeries(seriesId);
+    const statusElement = document.getElementById('history-status');
+    if (!series || !(days > 0)) return;
+
+    try {
+      await this.eventHistory.backfill(series, days);
+    } catch (error) {
+      console.error('Error loading event history:', error);
+      if (statusElement) {
+        statusElement.textContent = `Failed to load history: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    }
+    this.renderHistory();
+  }
+
+  private formatVolume(value: number | null): string {
+    if (value === null) return '--';
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      maximumFractionDigits: 0
+    }).format(value);
+  }
+
+  /**
+   * Cached past events of the selected series, one page at a time
+   */
+  private renderHistory(): void {
+    const container = document.getElementById('history-table-container');
+    const pageLabel = document.getElementById('history-page-label');
+    const seriesId = (document.getElementById('history-series') as HTMLSelectElement)?.value;
+    if (!container || !seriesId) return;
+
+    let { events, total } = this.eventHistory.getPage(seriesId, this.historyPage, HISTORY_PAGE_SIZE);
+    const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+    if (this.historyPage >= pageCount) {
+      this.historyPage = pageCount - 1;
+      ({ events, total } = this.eventHistory.getPage(seriesId, this.historyPage, HISTORY_PAGE_SIZE));
+    }
+
+    if (pageLabel) {
+      pageLabel.textContent = `Page ${this.historyPage + 1} of ${pageCount} (${total} events)`;
+    }
+
+    if (events.length === 0) {
+      container.innerHTML = '<p class="no-trades">No history loaded for this series</p>';
+      return;
+    }
+
+    container.innerHTML = `
+      <table class="history-table">
+        <thead>
+          <tr>
+            <th>Start</th>
+            <th>End</th>
+            <th>Outcome</th>
+            <th>Volume</th>
+            <th>Liquidity</th>
+            <th>Slug</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${events.map(event => `
+            <tr>
+              <td>${formatTimestamp(event.startTimestamp)}</td>
+              <td>${formatTimestamp(event.endTimestamp)}</td>
+              <td>${event.outcome ? this.formatOutcome(event.outcome) : `<span class="outcome-pending">${event.closed ? 'Resolving' : 'Open'}</span>`}</td>
+              <td>${this.formatVolume(event.volume)}</td>
+              <td>${this.formatVolume(event.liquidity)}</td>
+              <td class="event-slug">${escapeHtml(event.slug)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+
+  private formatSeriesName(seriesId: string): string {
+    const series = getSeries(seriesId);
+    return series ? `${series.asset.toUpperCase()} ${series.interval}` : seriesId;
+  }
+
   private render(): void {
+    const enabledSeriesIds = this.eventManager.getEnabledSeries().map(series => series.id);
+
     const app = document.getElementById('app');
     if (!app) return;
 
     app.innerHTML = `
+      <div id="notifications" class="notifications"></div>
       <div class="container">
         <header>
           <h1>BTC/USD Streaming Platform</h1>
           <p class="subtitle">Real-time cryptocurrency price data from Polymarket</p>
+          <div class="dual-clock">
+            <span id="clock-primary" class="clock-primary">--:--:--</span>
+            <span id="clock-secondary" class="clock-secondary">--:--:--</span>
+          </div>
         </header>
 
         <div class="controls">
@@ -591,6 +1808,38 @@ export class StreamingPlatform {
             <button id="connect" class="btn btn-primary">Connect</button>
             <button id="disconnect" class="btn btn-secondary">Disconnect</button>
           </div>
+          <div class="recording-controls">
+            <button id="record-toggle" class="btn btn-secondary">Record</button>
+            <input type="file" id="replay-file" accept=".ndjson,.jsonl,application/x-ndjson" />
+            <select id="replay-speed">
+              <option value="1">1x</option>
+              <option value="10">10x</option>
+              <option value="max">Max</option>
+            </select>
+            <button id="replay-toggle" class="btn btn-secondary">Start Replay</button>
+            <button id="backfill-toggle" class="btn btn-secondary" title="Recover prices to beat from the recording's Chainlink ticks">Backfill</button>
+            <span id="recording-status" class="recording-status"></span>
+          </div>
+          <div class="time-zone-controls">
+            <label>
+              Time zone:
+              <select id="display-timezone">${this.timeZoneOptions(getDisplayTimeZone())}</select>
+            </label>
+            <button id="utc-toggle" class="btn btn-secondary ${getDisplayTimeZone() === 'UTC' ? 'active' : ''}">UTC</button>
+            <label>
+              Second clock:
+              <select id="secondary-timezone">${this.timeZoneOptions(getSecondaryTimeZone())}</select>
+            </label>
+          </div>
+          <div class="symbol-toggles">
+            ${SUPPORTED_SYMBOLS.map(symbol => `
+              <label class="symbol-toggle-label">
+                <input type="checkbox" class="symbol-toggle" value="${symbol}" ${this.priceFeed.getSubscribedSymbols().includes(symbol) ? 'checked' : ''} ${symbol === PRIMARY_SYMBOL ? 'disabled' : ''} />
+                <span class="symbol-name">${symbol.toUpperCase()}</span>
+                <span class="symbol-price" id="symbol-price-${this.symbolKey(symbol)}">${symbol === PRIMARY_SYMBOL ? '--' : 'off'}</span>
+              </label>
+            `).join('')}
+          </div>
         </div>
 
         <div class="status-bar">
@@ -602,12 +1851,17 @@ export class StreamingPlatform {
         </div>
 
         <div class="price-display">
-          <div class="price-label">Current Price</div>
+          <div class="price-label">Current Price (Chainlink)</div>
           <div id="current-price" class="price-value">--</div>
           <div class="price-meta">
             <span>Last Update: <span id="price-timestamp">--</span></span>
             <span id="price-change" class="price-change">--</span>
           </div>
+          <div class="price-divergence">
+            <span>Binance: <span id="binance-price">--</span></span>
+            <span>Spread vs Chainlink: <span id="source-spread" class="price-change">--</span></span>
+            <span>Oracle Lag: <span id="source-lag">--</span></span>
+          </div>
         </div>
 
         <div class="active-event-section" id="active-event-display">
@@ -617,30 +1871,67 @@ export class StreamingPlatform {
         </div>
 
         <div class="events-section">
-          <h2>BTC Up/Down 15m Events</h2>
+          <h2>Up/Down Events</h2>
+          <div class="series-toggles">
+            ${getAllSeries().map(series => `
+              <label class="series-toggle-label">
+                <input type="checkbox" class="series-toggle" value="${series.id}" ${enabledSeriesIds.includes(series.id) ? 'checked' : ''} />
+                ${this.formatSeriesName(series.id)}
+              </label>
+            `).join('')}
+          </div>
           <div id="events-error" class="error-message"></div>
           <div class="events-table-container">
             <table class="events-table">
               <thead>
                 <tr>
+                  <th>Series</th>
                   <th>Title</th>
                   <th>Start Date</th>
                   <th>End Date</th>
                   <th>Status</th>
                   <th>Price to Beat</th>
+                  <th>Outcome</th>
                   <th>Condition ID</th>
                   <th>Question ID</th>
-                  <th>CLOB Token IDs</th>
+                  <th>Outcome Tokens</th>
                   <th>Slug</th>
                 </tr>
               </thead>
               <tbody id="events-table-body">
                 <tr>
-                  <td colspan="9" style="text-align: center; padding: 20px;">Loading events...</td>
+                  <td colspan="11" style="text-align: center; padding: 20px;">Loading events...</td>
                 </tr>
               </tbody>
             </table>
           </div>
+          <div class="outcome-stats">
+            <h3>Outcome Statistics</h3>
+            <p class="diagnostics-note">From official resolutions. Local outcomes use the Chainlink prices captured at each event's open and close.</p>
+            <div id="outcome-stats-container"></div>
+          </div>
+        </div>
+
+        <div class="history-section">
+          <h2>Event History</h2>
+          <div class="history-controls">
+            <select id="history-series">
+              ${getAllSeries().map(series => `<option value="${series.id}" ${series.id === this.getFocusSeriesId() ? 'selected' : ''}>${this.formatSeriesName(series.id)}</option>`).join('')}
+            </select>
+            <label>
+              Past days:
+              <input type="number" id="history-days" value="1" min="1" max="30" step="1" />
+            </label>
+            <button id="history-load" class="btn btn-primary">Load History</button>
+            <button id="history-clear" class="btn btn-secondary">Clear Cache</button>
+            <span id="history-status" class="recording-status"></span>
+          </div>
+          <div id="history-table-container"></div>
+          <div class="history-pagination">
+            <button id="history-prev" class="btn btn-secondary">Previous</button>
+            <span id="history-page-label"></span>
+            <button id="history-next" class="btn btn-secondary">Next</button>
+          </div>
         </div>
 
         <div class="trading-section" id="trading-section">
@@ -655,24 +1946,33 @@ export class StreamingPlatform {
                     Enable Strategy
                   </label>
                 </div>
+                <div class="config-item">
+                  <label>
+                    Series:
+                    <select id="strategy-series">
+                      ${getAllSeries().map(series => `<option value="${series.id}">${this.formatSeriesName(series.id)}</option>`).join('')}
+                    </select>
+                    <small>Trades the active event of this series</small>
+                  </label>
+                </div>
                 <div class="config-item">
                   <label>
                     Entry Price (0-100):
-                    <input type="number" id="entry-price" value="96" min="0" max="100" step="0.01" />
-                    <small>Limit order will be placed at this price</small>
+                    <input type="number" id="entry-price" value="96" min="0" max="100" step="0.1" />
+                    <small>Limit order will be placed at this price, rounded down to the market's tick</small>
                   </label>
                 </div>
                 <div class="config-item">
                   <label>
                     Profit Target (0-100):
-                    <input type="number" id="profit-target-price" value="100" min="0" max="100" step="0.01" />
+                    <input type="number" id="profit-target-price" value="100" min="0" max="100" step="0.1" />
                     <small>Sell when price reaches this level</small>
                   </label>
                 </div>
                 <div class="config-item">
                   <label>
                     Stop Loss (0-100):
-                    <input type="number" id="stop-loss-price" value="91" min="0" max="100" step="0.01" />
+                    <input type="number" id="stop-loss-price" value="91" min="0" max="100" step="0.1" />
                     <small>Sell when price drops to this level</small>
                   </label>
                 </div>
@@ -682,6 +1982,63 @@ export class StreamingPlatform {
                     <input type="number" id="trade-size" value="50" min="0" step="0.01" />
                   </label>
                 </div>
+                <div class="config-item">
+                  <label>
+                    Max Slippage (0-100):
+                    <input type="number" id="max-slippage" value="1" min="0" max="100" step="0.01" />
+                    <small>Most the expected average fill may sit above the best ask</small>
+                  </label>
+                </div>
+                <div class="config-item">
+                  <label>
+                    Over Max Slippage:
+                    <select id="slippage-action">
+                      <option value="shrink">Shrink the entry</option>
+                      <option value="skip">Skip the entry</option>
+                    </select>
+                  </label>
+                </div>
+                <div class="config-item">
+                  <label>
+                    Entry Time in Force:
+                    <select id="entry-time-in-force">
+                      <option value="GTC">GTC - rest until cancelled</option>
+                      <option value="GTD">GTD - rest until shortly before the event ends</option>
+                      <option value="FOK">FOK - fill in full at once or not at all</option>
+                      <option value="FAK">FAK - fill what the book has at once</option>
+                    </select>
+                  </label>
+                </div>
+                <div class="config-item">
+                  <label>
+                    GTD Expiry (seconds before end):
+                    <input type="number" id="gtd-expiry-seconds" value="60" min="0" step="1" />
+                    <small>GTD entries expire this long before the event's end</small>
+                  </label>
+                </div>
+                <div class="config-item">
+                  <label>
+                    Exit Time in Force:
+                    <select id="exit-time-in-force">
+                      <option value="FOK">FOK - sell the whole position or nothing</option>
+                      <option value="FAK">FAK - sell what the book takes</option>
+                    </select>
+                  </label>
+                </div>
+                <div class="config-item">
+                  <label>
+                    Max Exit Slippage (0-100):
+                    <input type="number" id="max-exit-slippage" value="2" min="0" max="100" step="0.1" />
+                    <small>Exits never sell more than this below the best bid</small>
+                  </label>
+                </div>
+                <div class="config-item">
+                  <label>
+                    Paper Latency (ms):
+                    <input type="number" id="paper-latency-ms" value="250" min="0" step="10" />
+                    <small>Delay before a paper order or cancel reaches the simulated book</small>
+                  </label>
+                </div>
                 <div class="config-item">
                   <label>
                     <small>Direction: Automatically determined (UP or DOWN, whichever reaches entry price first)</small>
@@ -691,9 +2048,24 @@ export class StreamingPlatform {
               <div class="config-actions">
                 <button id="save-strategy" class="btn btn-primary">Save Strategy</button>
               </div>
+              <div class="signer-config">
+                <h4>Exchange Signer</h4>
+                <p class="signer-note">Without a signer, orders are paper-traded. Prefer the order service, which signs on the server so no key reaches the browser. A key entered here stays in memory; only the derived API key is stored.</p>
+                <input type="password" id="order-service-token" placeholder="Order service token" autocomplete="off" />
+                <input type="password" id="signer-private-key" placeholder="Private key (0x...)" autocomplete="off" />
+                <input type="text" id="signer-funder" placeholder="Funder / proxy wallet address (optional)" autocomplete="off" />
+                <div class="signer-actions">
+                  <button id="signer-connect-service" class="btn btn-secondary">Use Order Service</button>
+                  <button id="signer-connect-key" class="btn btn-secondary">Use Private Key</button>
+                  <button id="signer-connect-wallet" class="btn btn-secondary">Use Browser Wallet</button>
+                  <button id="signer-disconnect" class="btn btn-secondary">Disconnect</button>
+                </div>
+                <div id="signer-status" class="signer-status"></div>
+              </div>
             </div>
             <div class="trading-status-panel">
               <h3>Trading Status</h3>
+              <div id="entry-ticket" class="entry-ticket"></div>
               <div id="trading-status-display"></div>
               <div class="trading-actions">
                 <button id="start-trading" class="btn btn-primary">Start Trading</button>
@@ -708,24 +2080,30 @@ export class StreamingPlatform {
           </div>
         </div>
 
+        <div class="diagnostics-section">
+          <h2>Feed Diagnostics</h2>
+          <p class="diagnostics-note">Latency is local arrival time minus the source timestamp; the window covers the last 500 samples.</p>
+          <div id="diagnostics-feeds"></div>
+          <div id="diagnostics-requests"></div>
+        </div>
+
         <div class="info-section">
           <h2>About</h2>
           <p>This platform streams real-time BTC/USD price data from Polymarket's Real-Time Data Socket (RTDS).</p>
           <p>The data is sourced from Chainlink oracle networks, providing reliable and accurate Bitcoin price information.</p>
+          <p>Binance prices are streamed alongside so the lag between the exchange and the resolution oracle is visible.</p>
         </div>
       </div>
     `;
   }
 
   private updateTradingManager(): void {
-    const events = this.eventManager.getEvents();
-    const activeEvent = events.find(e => e.status === 'active');
-    const priceToBeat = activeEvent ? this.eventPriceToBeat.get(activeEvent.slug) : null;
+    const activeEvent = this.tradingManager.getActiveEvent();
+    const priceToBeat = activeEvent ? this.priceToBeatStore.get(activeEvent.slug) : null;
 
     this.tradingManager.updateMarketData(
-      this.currentPrice,
-      priceToBeat || null,
-      activeEvent || null
+      this.getSeriesPrice(this.getFocusSeriesId()),
+      priceToBeat?.value ?? null
     );
   }
 
@@ -735,14 +2113,48 @@ export class StreamingPlatform {
     const profitTargetPrice = parseFloat((document.getElementById('profit-target-price') as HTMLInputElement)?.value || '100');
     const stopLossPrice = parseFloat((document.getElementById('stop-loss-price') as HTMLInputElement)?.value || '91');
     const tradeSize = parseFloat((document.getElementById('trade-size') as HTMLInputElement)?.value || '50');
+    const maxSlippage = parseFloat((document.getElementById('max-slippage') as HTMLInputElement)?.value || '1');
+    const slippageAction = (document.getElementById('slippage-action') as HTMLSelectElement)?.value === 'skip' ? 'skip' : 'shrink';
+    const entryTimeInForce = ((document.getElementById('entry-time-in-force') as HTMLSelectElement)?.value || 'GTC') as TimeInForce;
+    const gtdExpirySeconds = parseFloat((document.getElementById('gtd-expiry-seconds') as HTMLInputElement)?.value || '60');
+    const exitTimeInForce = (document.getElementById('exit-time-in-force') as HTMLSelectElement)?.value === 'FAK' ? 'FAK' : 'FOK';
+    const maxExitSlippage = parseFloat((document.getElementById('max-exit-slippage') as HTMLInputElement)?.value || '2');
+    const paperLatencyMs = parseFloat((document.getElementById('paper-latency-ms') as HTMLInputElement)?.value || '250');
+    const seriesId = (document.getElementById('strategy-series') as HTMLSelectElement)?.value || this.getFocusSeriesId();
 
-    this.tradingManager.setStrategyConfig({
-      enabled,
-      entryPrice,
-      profitTargetPrice,
-      stopLossPrice,
-      tradeSize,
-    });
+    try {
+      this.tradingManager.setStrategyConfig({
+        seriesId,
+        enabled,
+        entryPrice,
+        profitTargetPrice,
+        stopLossPrice,
+        tradeSize,
+        maxSlippage,
+        slippageAction,
+        entryTimeInForce,
+        gtdExpirySeconds,
+        exitTimeInForce,
+        maxExitSlippage,
+        paperLatencyMs,
+      });
+    } catch (error) {
+      alert(`Strategy configuration not saved: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    // The traded series has to be tracked for its events to load
+    const enabledSeriesIds = this.eventManager.getEnabledSeries().map(series => series.id);
+    if (!enabledSeriesIds.includes(seriesId)) {
+      this.eventManager.setEnabledSeries([...enabledSeriesIds, seriesId]);
+      const toggle = document.querySelector<HTMLInputElement>(`.series-toggle[value="${seriesId}"]`);
+      if (toggle) toggle.checked = true;
+      this.syncSeriesSubscriptions();
+      this.loadEvents().catch(console.error);
+    }
+
+    // Active panel and market stream follow the strategy's series
+    this.renderActiveEvent();
 
     alert('Strategy configuration saved!');
   }
@@ -758,12 +2170,39 @@ export class StreamingPlatform {
     const profitTargetPriceInput = document.getElementById('profit-target-price') as HTMLInputElement;
     const stopLossPriceInput = document.getElementById('stop-loss-price') as HTMLInputElement;
     const tradeSizeInput = document.getElementById('trade-size') as HTMLInputElement;
+    const maxSlippageInput = document.getElementById('max-slippage') as HTMLInputElement;
+    const slippageActionSelect = document.getElementById('slippage-action') as HTMLSelectElement;
+    const entryTimeInForceSelect = document.getElementById('entry-time-in-force') as HTMLSelectElement;
+    const gtdExpirySecondsInput = document.getElementById('gtd-expiry-seconds') as HTMLInputElement;
+    const exitTimeInForceSelect = document.getElementById('exit-time-in-force') as HTMLSelectElement;
+    const maxExitSlippageInput = document.getElementById('max-exit-slippage') as HTMLInputElement;
+    const paperLatencyMsInput = document.getElementById('paper-latency-ms') as HTMLInputElement;
+    const seriesSelect = document.getElementById('strategy-series') as HTMLSelectElement;
 
     if (enabledInput) enabledInput.checked = config.enabled;
     if (entryPriceInput) entryPriceInput.value = config.entryPrice.toString();
     if (profitTargetPriceInput) profitTargetPriceInput.value = config.profitTargetPrice.toString();
     if (stopLossPriceInput) stopLossPriceInput.value = config.stopLossPrice.toString();
     if (tradeSizeInput) tradeSizeInput.value = config.tradeSize.toString();
+    if (maxSlippageInput) maxSlippageInput.value = config.maxSlippage.toString();
+    if (slippageActionSelect) slippageActionSelect.value = config.slippageAction;
+    if (entryTimeInForceSelect) entryTimeInForceSelect.value = config.entryTimeInForce;
+    if (gtdExpirySecondsInput) gtdExpirySecondsInput.value = config.gtdExpirySeconds.toString();
+    if (exitTimeInForceSelect) exitTimeInForceSelect.value = config.exitTimeInForce;
+    if (maxExitSlippageInput) maxExitSlippageInput.value = config.maxExitSlippage.toString();
+    if (paperLatencyMsInput) paperLatencyMsInput.value = config.paperLatencyMs.toString();
+    if (seriesSelect) seriesSelect.value = config.seriesId;
+
+    this.renderEntryTicket();
+
+    const signerStatus = document.getElementById('signer-status');
+    if (signerStatus) {
+      signerStatus.innerHTML = !status.signerAddress
+        ? '<span class="signer-paper">PAPER</span> No signer connected'
+        : status.signingMode === 'server'
+          ? `<span class="signer-live">LIVE</span> Orders signed by the order service as ${status.signerAddress}`
+          : `<span class="signer-live">LIVE</span> Orders signed in this browser by ${status.signerAddress}`;
+    }
 
     // Update trading status display
     const statusDisplay = document.getElementById('trading-status-display');
@@ -773,12 +2212,13 @@ export class StreamingPlatform {
           <div class="position-info">
             <h4>Current Position</h4>
             <div class="position-details">
-              <div><strong>Event:</strong> ${status.currentPosition.eventSlug}</div>
+              <div><strong>Event:</strong> ${escapeHtml(status.currentPosition.eventSlug)}</div>
               <div><strong>Direction:</strong> ${status.currentPosition.direction || 'N/A'}</div>
               <div><strong>Side:</strong> ${status.currentPosition.side}</div>
               <div><strong>Entry Price:</strong> ${status.currentPosition.entryPrice.toFixed(2)}</div>
               <div><strong>Size:</strong> $${status.currentPosition.size.toFixed(2)}</div>
               ${status.currentPosition.currentPrice !== undefined ? `<div><strong>Current Price:</strong> ${status.currentPosition.currentPrice.toFixed(2)}</div>` : ''}
+              ${status.currentPosition.entryFees !== undefined ? `<div><strong>Entry Fees:</strong> $${status.currentPosition.entryFees.toFixed(2)}</div>` : ''}
               ${status.currentPosition.unrealizedProfit !== undefined ? `<div class="${status.currentPosition.unrealizedProfit >= 0 ? 'profit' : 'loss'}"><strong>Unrealized P/L:</strong> $${status.currentPosition.unrealizedProfit.toFixed(2)}</div>` : ''}
             </div>
           </div>
@@ -806,11 +2246,15 @@ export class StreamingPlatform {
             <span class="status-value failed">${status.failedTrades}</span>
           </div>
           <div class="status-item">
-            <span class="status-label">Total Profit:</span>
+            <span class="status-label">Net Profit:</span>
             <span class="status-value ${status.totalProfit >= 0 ? 'profit' : 'loss'}">
               $${status.totalProfit.toFixed(2)}
             </span>
           </div>
+          <div class="status-item">
+            <span class="status-label">Fees Paid:</span>
+            <span class="status-value">$${status.totalFees.toFixed(2)}</span>
+          </div>
           <div class="status-item">
             <span class="status-label">Pending Orders:</span>
             <span class="status-value">${status.pendingLimitOrders}</span>
@@ -830,29 +2274,38 @@ export class StreamingPlatform {
           <table class="trades-table">
             <thead>
               <tr>
-                <th>Time</th>
+                <th>Time (${getTimeZoneAbbreviation(clock.now())})</th>
                 <th>Event</th>
                 <th>Side</th>
                 <th>Size</th>
                 <th>Price</th>
+                <th>Est. Fill</th>
                 <th>Status</th>
-                <th>Profit</th>
+                <th>Time in Force</th>
+                <th>Fees</th>
+                <th>Net Profit</th>
                 <th>Reason</th>
               </tr>
             </thead>
             <tbody>
               ${trades.slice().reverse().map(trade => `
                 <tr class="trade-row trade-${trade.status}">
-                  <td>${new Date(trade.timestamp).toLocaleTimeString()}</td>
-                  <td class="event-slug">${trade.eventSlug}</td>
+                  <td>${formatTimeOfDay(trade.timestamp)}</td>
+                  <td class="event-slug">${escapeHtml(trade.eventSlug)}</td>
                   <td><span class="side-${trade.side.toLowerCase()}">${trade.side}</span> ${trade.direction ? `<span class="direction-badge direction-${trade.direction.toLowerCase()}">${trade.direction}</span>` : ''}</td>
                   <td>$${trade.size.toFixed(2)}</td>
-                  <td>${trade.price.toFixed(2)}${trade.orderType === 'LIMIT' && trade.limitPrice ? ` (limit: ${trade.limitPrice.toFixed(2)})` : ''}</td>
-                  <td><span class="status-badge status-${trade.status}">${trade.status}</span> ${trade.orderType === 'LIMIT' ? '<span class="order-type">LIMIT</span>' : ''}</td>
-                  <td class="${trade.profit !== undefined ? (trade.profit >= 0 ? 'profit' : 'loss') : ''}">
+                  <td>${trade.price.toFixed(2)}${trade.limitPrice !== undefined ? ` (limit: ${trade.limitPrice.toFixed(2)})` : ''}</td>
+                  <td>${trade.fillEstimate && trade.fillEstimate.averagePrice !== null ? `${trade.fillEstimate.averagePrice.toFixed(2)} (+${(trade.fillEstimate.slippage ?? 0).toFixed(2)})` : '--'}</td>
+                  <td>
+                    <span class="status-badge status-${trade.status}">${trade.status}</span> <span class="order-type">${trade.orderType}</span>${trade.paper ? ' <span class="order-type order-paper">PAPER</span>' : ''}
+                    ${trade.status === 'pending' && trade.filledShares ? `<div class="order-progress">${trade.filledShares.toFixed(2)} sh filled</div>` : ''}
+                  </td>
+                  <td>${trade.timeInForce || '--'}${trade.expiresAt !== undefined ? ` <span class="order-expiry">exp ${formatTimeOfDay(trade.expiresAt)}</span>` : ''}</td>
+                  <td>${trade.fees !== undefined ? `$${trade.fees.toFixed(2)}` : '--'}</td>
+                  <td class="${trade.profit !== undefined ? (trade.profit >= 0 ? 'profit' : 'loss') : ''}" ${trade.grossProfit !== undefined ? `title="Gross $${trade.grossProfit.toFixed(2)}"` : ''}>
                     ${trade.profit !== undefined ? `$${trade.profit.toFixed(2)}` : '--'}
                   </td>
-                  <td class="reason">${trade.reason}</td>
+                  <td class="reason">${escapeHtml(trade.reason)}</td>
                 </tr>
               `).join('')}
             </tbody>
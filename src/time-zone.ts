@@ -0,0 +1,106 @@
+/**
+ * Display time zone for every rendered time. Persisted in localStorage;
+ * defaults to the browser's own zone.
+ */
+
+const STORAGE_KEY = 'displayTimeZone';
+const SECONDARY_STORAGE_KEY = 'secondaryTimeZone';
+
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/New_York',
+  'Europe/London',
+  'Asia/Singapore',
+  'Asia/Dhaka',
+];
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function loadTimeZone(key: string, fallback: string): string {
+  try {
+    const saved = localStorage.getItem(key);
+    if (saved && isValidTimeZone(saved)) {
+      return saved;
+    }
+  } catch (error) {
+    console.warn('Failed to load time zone setting:', error);
+  }
+  return fallback;
+}
+
+function saveTimeZone(key: string, timeZone: string): void {
+  try {
+    localStorage.setItem(key, timeZone);
+  } catch (error) {
+    console.warn('Failed to save time zone setting:', error);
+  }
+}
+
+let displayTimeZone = loadTimeZone(STORAGE_KEY, getLocalTimeZone());
+let secondaryTimeZone = loadTimeZone(SECONDARY_STORAGE_KEY, 'UTC');
+
+export function getDisplayTimeZone(): string {
+  return displayTimeZone;
+}
+
+/**
+ * Change the display zone. Returns false (and keeps the old one) for an unknown zone.
+ */
+export function setDisplayTimeZone(timeZone: string): boolean {
+  if (!isValidTimeZone(timeZone)) {
+    return false;
+  }
+  displayTimeZone = timeZone;
+  saveTimeZone(STORAGE_KEY, timeZone);
+  return true;
+}
+
+/**
+ * Zone shown on the second clock of the dual-clock view
+ */
+export function getSecondaryTimeZone(): string {
+  return secondaryTimeZone;
+}
+
+export function setSecondaryTimeZone(timeZone: string): boolean {
+  if (!isValidTimeZone(timeZone)) {
+    return false;
+  }
+  secondaryTimeZone = timeZone;
+  saveTimeZone(SECONDARY_STORAGE_KEY, timeZone);
+  return true;
+}
+
+/**
+ * Short zone name at a given instant, e.g. "EDT", "GMT+8" or "UTC"
+ */
+export function getTimeZoneAbbreviation(timeMs: number, timeZone: string = displayTimeZone): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(timeMs))
+    .find(p => p.type === 'timeZoneName');
+  return part?.value || timeZone;
+}
+
+/**
+ * HH:MM:SS in the display zone (or the given one)
+ */
+export function formatTimeOfDay(timeMs: number, timeZone: string = displayTimeZone): string {
+  return new Date(timeMs).toLocaleTimeString('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false
+  });
+}
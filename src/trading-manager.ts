@@ -1,6 +1,18 @@
-import type { StrategyConfig, Trade, TradingStatus } from './trading-types';
+import type { StrategyConfig, Trade, TradingStatus, SignerConfig, OrderExecutor, OrderResult, OrderServiceAccount, FillEstimate, EntryPlan, LimitOrderOptions, TimeInForce } from './trading-types';
 import { CLOBClientWrapper } from './clob-client';
-import type { EventDisplayData } from './event-manager';
+import { OrderServiceClient } from './order-service-client';
+import { PaperExchange } from './paper-exchange';
+import type { ClobMarketClient } from './clob-market-client';
+import type { EventDisplayData, EventManager } from './event-manager';
+import { DEFAULT_SERIES_ID } from './series-registry';
+import { findOutcomeToken, findTokenOutcome } from './gamma-schema';
+import { estimateBuyFill, maxBuyWithinSlippage } from './order-book-depth';
+import { gtdExpiration, isKilledOrderError } from './clob-orders';
+import { DEFAULT_TICK_SIZE, MIN_TICK_SIZE, roundToTick, isValidTickPrice, tradingFee, netProfit } from './pricing';
+import type { MarketQuote, OrderBookSnapshot, TradePrint } from './types';
+import type { StreamRecorder } from './stream-recorder';
+import type { FeedMetrics } from './feed-metrics';
+import * as clock from './clock';
 
 /**
  * Converts Polymarket price from decimal (0-1) to percentage (0-100)
@@ -9,43 +21,186 @@ function toPercentage(price: number): number {
   return price * 100;
 }
 
+/**
+ * Why a strategy config can't be traded, or null if it can. Prices are on
+ * the 0-100 scale and must sit on the finest tick any market uses.
+ */
+function validateStrategyConfig(config: StrategyConfig): string | null {
+  const { entryPrice, profitTargetPrice, stopLossPrice, tradeSize, maxSlippage, gtdExpirySeconds, maxExitSlippage, paperLatencyMs } = config;
+  const prices = { entryPrice, profitTargetPrice, stopLossPrice };
+  for (const [field, value] of Object.entries({ ...prices, tradeSize, maxSlippage, gtdExpirySeconds, maxExitSlippage, paperLatencyMs })) {
+    if (typeof value !== 'number' || !isFinite(value)) {
+      return `${field} must be a number`;
+    }
+  }
+
+  const tick = MIN_TICK_SIZE * 100;
+  for (const [field, value] of Object.entries(prices)) {
+    if (Math.abs(value / tick - Math.round(value / tick)) > 1e-6) {
+      return `${field} must be a multiple of ${tick}`;
+    }
+  }
+  if (entryPrice <= 0 || entryPrice >= 100) {
+    return 'Entry price must be between 0 and 100';
+  }
+  if (stopLossPrice < 0 || stopLossPrice >= entryPrice) {
+    return 'Stop loss must be at least 0 and below the entry price';
+  }
+  if (profitTargetPrice <= entryPrice || profitTargetPrice > 100) {
+    return 'Profit target must be above the entry price and at most 100';
+  }
+  if (tradeSize <= 0) {
+    return 'Trade size must be positive';
+  }
+  if (maxSlippage < 0 || maxExitSlippage < 0) {
+    return 'Max slippage cannot be negative';
+  }
+  if (!(['GTC', 'GTD', 'FOK', 'FAK'] as TimeInForce[]).includes(config.entryTimeInForce)) {
+    return 'Entry time in force must be GTC, GTD, FOK or FAK';
+  }
+  if (gtdExpirySeconds < 0) {
+    return 'GTD expiry cannot be negative';
+  }
+  if (config.exitTimeInForce !== 'FOK' && config.exitTimeInForce !== 'FAK') {
+    return 'Exit time in force must be FOK or FAK';
+  }
+  if (paperLatencyMs < 0) {
+    return 'Paper latency cannot be negative';
+  }
+  return null;
+}
+
+const ORDER_POLL_INTERVAL = 2000; // Min ms between exchange lookups of a resting order, and between immediate (FOK/FAK) attempts
+const MIN_ENTRY_SIZE = 1; // USD; entries shrunk below this are skipped
+const REJECTION_BACKOFF_BASE = 5000; // ms before the next entry after a rejection, doubling per rejection
+const REJECTION_BACKOFF_MAX = 120000;
+const MAX_ENTRY_REJECTIONS = 5; // An event isn't entered again after this many rejections
+
+interface EntryBackoff {
+  rejections: number;
+  retryAt: number; // App clock ms
+}
+
 export class TradingManager {
   private clobClient: CLOBClientWrapper;
+  private executor: OrderExecutor | null = null; // Where live orders go; null for paper trading
+  private paperExchange: PaperExchange; // Where orders go without a signer
+  private marketClient: ClobMarketClient;
   private strategyConfig: StrategyConfig;
   private trades: Trade[] = [];
   private status: TradingStatus;
   private onStatusUpdate: ((status: TradingStatus) => void) | null = null;
   private onTradeUpdate: ((trade: Trade) => void) | null = null;
-  private monitoringInterval: number | null = null;
-  private activeEvent: EventDisplayData | null = null;
+  private isChecking = false; // Guards against overlapping checks from quote bursts
+  private activeEvent: EventDisplayData | null = null; // Active event of the configured series
+  private eventManager: EventManager | null = null;
   private pendingLimitOrders: Map<string, Trade> = new Map(); // Map of tokenId -> pending limit order
-
-  constructor() {
+  private lastOrderPoll = 0; // App clock ms of the last exchange lookup of a resting order
+  private skippedEntryToken: string | null = null; // Token whose entry was last skipped, so it's logged once
+  private entryBackoff: Map<string, EntryBackoff> = new Map(); // Event slug -> entry rejections so far
+  private lastImmediateEntryAt = 0; // App clock ms of the last FOK/FAK entry sent
+  private lastExitAt = 0; // App clock ms of the last exit sent
+  private repeatedFailures: Map<string, Trade> = new Map(); // Failure kind and token -> the trade its repeats are folded into
+
+  constructor(marketClient: ClobMarketClient) {
     this.clobClient = new CLOBClientWrapper();
+    this.marketClient = marketClient;
     this.strategyConfig = this.getDefaultStrategy();
+    this.paperExchange = new PaperExchange(
+      tokenId => this.getOrderBook(tokenId),
+      () => this.strategyConfig.paperLatencyMs
+    );
     this.status = {
       isActive: false,
       totalTrades: 0,
       successfulTrades: 0,
       failedTrades: 0,
       totalProfit: 0,
+      totalFees: 0,
       pendingLimitOrders: 0,
+      signerAddress: null,
+      signingMode: null,
     };
   }
 
+  /**
+   * Trade on the exchange with this signer instead of paper trading
+   */
+  async connectSigner(config: SignerConfig): Promise<string> {
+    const address = await this.clobClient.connectSigner(config);
+    this.executor = this.clobClient;
+    this.status.signerAddress = address;
+    this.status.signingMode = 'browser';
+    this.notifyStatusUpdate();
+    return address;
+  }
+
+  /**
+   * Trade on the exchange through the server-side order service, which signs
+   * with its own key. The token is checked before any order is sent.
+   */
+  async connectOrderService(authToken: string): Promise<OrderServiceAccount> {
+    const client = new OrderServiceClient(authToken);
+    const account = await client.connect();
+    if (this.status.signingMode === 'browser') {
+      this.clobClient.disconnectSigner();
+    }
+    this.executor = client;
+    this.status.signerAddress = account.address;
+    this.status.signingMode = 'server';
+    this.notifyStatusUpdate();
+    return account;
+  }
+
+  /**
+   * Back to paper trading. Orders already on the exchange are left alone.
+   */
+  disconnectSigner(forgetCredentials: boolean = false): void {
+    if (this.status.signingMode === 'browser') {
+      this.clobClient.disconnectSigner(forgetCredentials);
+    }
+    this.executor = null;
+    this.status.signerAddress = null;
+    this.status.signingMode = null;
+    this.notifyStatusUpdate();
+  }
+
   private getDefaultStrategy(): StrategyConfig {
     return {
       enabled: false,
+      seriesId: DEFAULT_SERIES_ID,
       entryPrice: 96, // Limit order at 96
       profitTargetPrice: 100, // Take profit at 100
       stopLossPrice: 91, // Stop loss at 91
       tradeSize: 50, // $50 trade size
+      maxSlippage: 1, // Expected average fill at most 1¢ above the best ask
+      slippageAction: 'shrink',
+      entryTimeInForce: 'GTC',
+      gtdExpirySeconds: 60, // GTD entries expire a minute before the event ends
+      exitTimeInForce: 'FOK',
+      maxExitSlippage: 2, // Exits sell down to 2¢ under the best bid
+      paperLatencyMs: 250, // Typical round trip to the exchange
     };
   }
 
+  /**
+   * Update the strategy. Throws if the result isn't a tradeable config, in
+   * which case the current one is kept.
+   */
   setStrategyConfig(config: Partial<StrategyConfig>): void {
-    this.strategyConfig = { ...this.strategyConfig, ...config };
+    const next = { ...this.strategyConfig, ...config };
+    const invalid = validateStrategyConfig(next);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    const seriesChanged = config.seriesId !== undefined && config.seriesId !== this.strategyConfig.seriesId;
+    this.strategyConfig = next;
     this.saveStrategyConfig();
+
+    if (seriesChanged) {
+      this.activeEvent = this.eventManager?.getActiveEvent(this.strategyConfig.seriesId) || null;
+    }
   }
 
   getStrategyConfig(): StrategyConfig {
@@ -64,7 +219,13 @@ export class TradingManager {
     try {
       const saved = localStorage.getItem('tradingStrategy');
       if (saved) {
-        this.strategyConfig = { ...this.strategyConfig, ...JSON.parse(saved) };
+        const config = { ...this.strategyConfig, ...JSON.parse(saved) };
+        const invalid = validateStrategyConfig(config);
+        if (invalid) {
+          console.warn(`Saved strategy config ignored: ${invalid}`);
+          return;
+        }
+        this.strategyConfig = config;
       }
     } catch (error) {
       console.warn('Failed to load strategy config:', error);
@@ -79,38 +240,235 @@ export class TradingManager {
     this.onTradeUpdate = callback;
   }
 
+  /**
+   * Follow the configured series' events as they start and end
+   */
+  setEventManager(eventManager: EventManager): void {
+    this.eventManager = eventManager;
+    this.activeEvent = eventManager.getActiveEvent(this.strategyConfig.seriesId);
+
+    eventManager.onEventStarted(event => {
+      // Only trade the configured series
+      if (event.seriesId !== this.strategyConfig.seriesId) return;
+      this.activeEvent = event;
+      if (this.strategyConfig.enabled && this.status.isActive) {
+        this.checkTradingConditions();
+      }
+    });
+
+    eventManager.onEventEnded(event => {
+      if (this.activeEvent?.slug !== event.slug) return;
+      this.activeEvent = null;
+      this.entryBackoff.delete(event.slug);
+      // Resting orders on a finished market can't fill any more
+      this.cancelAllPendingOrders('Event ended - order cancelled');
+      this.notifyStatusUpdate();
+    });
+
+    // A live event that wasn't listed yet had no tokens to trade until now
+    eventManager.onMarketListed(event => {
+      if (this.activeEvent?.slug !== event.slug) return;
+      this.activeEvent = event;
+      if (this.strategyConfig.enabled && this.status.isActive) {
+        this.checkTradingConditions();
+      }
+    });
+  }
+
+  getActiveEvent(): EventDisplayData | null {
+    return this.activeEvent;
+  }
+
   updateMarketData(
     _currentPrice: number | null,
-    _priceToBeat: number | null,
-    activeEvent: EventDisplayData | null
+    _priceToBeat: number | null
   ): void {
-    this.activeEvent = activeEvent;
+    if (this.strategyConfig.enabled && this.status.isActive && this.activeEvent) {
+      this.checkTradingConditions();
+    }
+  }
+
+  /**
+   * Called for every streamed CLOB quote; re-evaluates the strategy when it
+   * concerns one of the active event's tokens
+   */
+  handleQuoteUpdate(quote: MarketQuote): void {
+    if (!this.activeEvent?.clobTokenIds?.includes(quote.tokenId)) {
+      return;
+    }
+
+    // Paper orders match against the book before the strategy looks at them
+    if (this.paperExchange.hasOpenOrders(quote.tokenId)) {
+      const book = this.marketClient.getOrderBook(quote.tokenId);
+      if (book) {
+        this.paperExchange.handleBook(book);
+      }
+    }
 
-    if (this.strategyConfig.enabled && this.status.isActive && activeEvent) {
+    if (this.strategyConfig.enabled && this.status.isActive) {
       this.checkTradingConditions();
     }
   }
 
+  /**
+   * Called for every streamed trade print; paper orders resting at or
+   * through its price may fill
+   */
+  handleTradePrint(print: TradePrint): void {
+    if (this.paperExchange.hasOpenOrders(print.tokenId)) {
+      this.paperExchange.handleTradePrint(print);
+    }
+  }
+
+  /**
+   * Where a trade's orders go: the live executor, or the paper exchange for
+   * paper trades. Null for a live trade whose signer has since disconnected.
+   */
+  private executorFor(trade: Trade): OrderExecutor | null {
+    return trade.paper ? this.paperExchange : this.executor;
+  }
+
+  /**
+   * Record REST quote lookups made by the strategy
+   */
+  setRecorder(recorder: StreamRecorder | null): void {
+    this.clobClient.setRecorder(recorder);
+  }
+
+  /**
+   * Track round-trip times of the strategy's CLOB requests
+   */
+  setMetrics(metrics: FeedMetrics | null): void {
+    this.clobClient.setMetrics(metrics);
+  }
+
+  /**
+   * Current price for a token from the market stream (best ask to BUY, best bid to SELL).
+   * Falls back to a REST lookup until the stream has a quote for the token.
+   */
+  private async getLivePrice(tokenId: string, side: 'BUY' | 'SELL'): Promise<number | null> {
+    const quote = this.marketClient.getQuote(tokenId);
+    const streamed = quote ? (side === 'BUY' ? quote.bestAsk : quote.bestBid) : null;
+    if (streamed !== null) {
+      return streamed;
+    }
+    // During replay there is no live market to fall back to
+    if (!this.marketClient.isLive()) {
+      return null;
+    }
+    return this.clobClient.getPrice(tokenId, side);
+  }
+
+  /**
+   * Order book for a token from the market stream, or a REST snapshot when
+   * the stream has no book for it
+   */
+  async getOrderBook(tokenId: string): Promise<OrderBookSnapshot | null> {
+    const streamed = this.marketClient.getOrderBook(tokenId);
+    if (streamed || !this.marketClient.isLive()) {
+      return streamed;
+    }
+
+    try {
+      const book = await this.clobClient.getOrderBook(tokenId);
+      const toLevels = (levels: Array<{ price: string; size: string }> | undefined) => (levels || [])
+        .map(level => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+        .filter(level => !isNaN(level.price) && level.size > 0);
+      return {
+        tokenId,
+        bids: toLevels(book.bids).sort((a, b) => b.price - a.price),
+        asks: toLevels(book.asks).sort((a, b) => a.price - b.price),
+        timestamp: parseInt(book.timestamp, 10) || Date.now(),
+      };
+    } catch {
+      return null; // Already logged by the client
+    }
+  }
+
+  /**
+   * Tick size (0-1) and base fee rate of a token's market. Replays have no
+   * live market to ask, so they use the default tick and no fees.
+   */
+  private async getMarketRules(tokenId: string): Promise<{ tickSize: number; feeRateBps: number }> {
+    if (!this.marketClient.isLive()) {
+      return { tickSize: DEFAULT_TICK_SIZE, feeRateBps: 0 };
+    }
+    const [tickSize, feeRateBps] = await Promise.all([
+      this.clobClient.getTickSize(tokenId),
+      this.clobClient.getFeeRate(tokenId),
+    ]);
+    return { tickSize: parseFloat(tickSize) || DEFAULT_TICK_SIZE, feeRateBps };
+  }
+
+  /**
+   * Expected fill of a BUY for `size` USD on this book
+   */
+  estimateEntry(book: OrderBookSnapshot, size: number): FillEstimate {
+    const fill = estimateBuyFill(book, size);
+    const averagePrice = fill.averagePrice !== null ? toPercentage(fill.averagePrice) : null;
+    const bestPrice = book.asks.length > 0 ? toPercentage(book.asks[0].price) : null;
+    return {
+      size,
+      fillable: fill.notional,
+      shares: fill.shares,
+      averagePrice,
+      bestPrice,
+      slippage: averagePrice !== null && bestPrice !== null ? averagePrice - bestPrice : null,
+    };
+  }
+
+  /**
+   * Size an entry against the book. The configured trade size goes ahead if
+   * its expected average fill is within maxSlippage of the best ask (or the
+   * book runs out first); otherwise it is shrunk to what the book fills
+   * within the limit, or skipped, per slippageAction.
+   */
+  planEntry(book: OrderBookSnapshot): EntryPlan {
+    const { tradeSize, maxSlippage, slippageAction } = this.strategyConfig;
+    const estimate = this.estimateEntry(book, tradeSize);
+    const withinLimit = maxBuyWithinSlippage(book, maxSlippage / 100);
+
+    if (withinLimit >= estimate.fillable - 1e-9) {
+      return { action: 'place', size: tradeSize, estimate };
+    }
+
+    const shrunk = Math.floor(withinLimit * 100) / 100;
+    if (slippageAction === 'shrink' && shrunk >= MIN_ENTRY_SIZE) {
+      return { action: 'shrink', size: shrunk, estimate: this.estimateEntry(book, shrunk) };
+    }
+    return { action: 'skip', size: 0, estimate };
+  }
+
   /**
    * Check if we should place a limit order or if existing orders should fill/exit
    * Monitors both UP (YES) and DOWN (NO) tokens and places order on whichever reaches entry price first
    */
   private async checkTradingConditions(): Promise<void> {
-    if (!this.strategyConfig.enabled || !this.status.isActive) {
+    if (this.isChecking) {
       return;
     }
 
-    if (!this.activeEvent) {
+    this.isChecking = true;
+    try {
+      await this.evaluateTradingConditions();
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async evaluateTradingConditions(): Promise<void> {
+    if (!this.strategyConfig.enabled || !this.status.isActive) {
       return;
     }
 
-    // Check if we have token IDs for the active event
-    if (!this.activeEvent.clobTokenIds || this.activeEvent.clobTokenIds.length < 2) {
+    if (!this.activeEvent) {
       return;
     }
 
-    const yesTokenId = this.activeEvent.clobTokenIds[0]; // YES/UP token
-    const noTokenId = this.activeEvent.clobTokenIds[1]; // NO/DOWN token
+    // Tokens are matched by outcome label; events without Up/Down outcomes aren't traded
+    const markets = this.activeEvent.markets || [];
+    const yesTokenId = findOutcomeToken(markets, 'Up')?.tokenId;
+    const noTokenId = findOutcomeToken(markets, 'Down')?.tokenId;
 
     if (!yesTokenId || !noTokenId) {
       return;
@@ -141,13 +499,17 @@ export class TradingManager {
    * Check both UP and DOWN tokens and place limit order on whichever reaches entry price first
    */
   private async checkAndPlaceLimitOrder(yesTokenId: string, noTokenId: string): Promise<void> {
+    if (!this.canAttemptEntry()) {
+      return;
+    }
+
     try {
       const entryPrice = this.strategyConfig.entryPrice;
 
       // Get current market prices for both tokens
       const [yesPrice, noPrice] = await Promise.all([
-        this.clobClient.getPrice(yesTokenId, 'BUY'),
-        this.clobClient.getPrice(noTokenId, 'BUY'),
+        this.getLivePrice(yesTokenId, 'BUY'),
+        this.getLivePrice(noTokenId, 'BUY'),
       ]);
 
       if (!yesPrice || !noPrice) {
@@ -186,112 +548,383 @@ export class TradingManager {
         direction = 'DOWN';
       }
 
-      // Place limit order on whichever token reached entry price first
-      if (tokenToTrade && direction) {
+      if (!tokenToTrade || !direction) {
+        return;
+      }
+
+      if (this.strategyConfig.entryTimeInForce === 'GTD' && (this.getGtdExpiry() ?? 0) <= clock.now()) {
+        this.logSkippedEntry(tokenToTrade, `Entry skipped: GTD entries stop ${this.strategyConfig.gtdExpirySeconds}s before the event ends (${direction})`);
+        return;
+      }
+
+      // Check the book can take the entry without too much slippage
+      const book = await this.getOrderBook(tokenToTrade);
+      if (!book) {
+        console.warn('No order book for the entry; placing it without a depth check');
         await this.placeLimitOrder(tokenToTrade, entryPrice, direction);
+        return;
       }
+
+      const plan = this.planEntry(book);
+      if (plan.action === 'skip') {
+        this.logSkippedEntry(tokenToTrade, `Entry skipped: expected slippage ${plan.estimate.slippage?.toFixed(2)} exceeds ${this.strategyConfig.maxSlippage.toFixed(2)} (${direction})`);
+        return;
+      }
+      this.skippedEntryToken = null;
+
+      // Place limit order on whichever token reached entry price first
+      await this.placeLimitOrder(tokenToTrade, entryPrice, direction, plan);
     } catch (error) {
       console.error('Error checking for limit order placement:', error);
     }
   }
 
   /**
-   * Place a limit order at the specified price
+   * Log why an entry wasn't placed, once per token rather than on every quote
    */
-  private async placeLimitOrder(tokenId: string, limitPrice: number, direction: 'UP' | 'DOWN'): Promise<void> {
-    try {
-      const trade: Trade = {
-        id: `limit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        eventSlug: this.activeEvent!.slug,
-        tokenId,
-        side: 'BUY', // Always buying the token (YES or NO)
-        size: this.strategyConfig.tradeSize,
-        price: limitPrice,
-        timestamp: Date.now(),
-        status: 'pending',
-        reason: `Limit order placed at ${limitPrice.toFixed(2)} (${direction})`,
-        orderType: 'LIMIT',
-        limitPrice,
-      };
+  private logSkippedEntry(tokenId: string, message: string): void {
+    if (this.skippedEntryToken !== tokenId) {
+      this.skippedEntryToken = tokenId;
+      console.log(message);
+    }
+  }
 
-      // Store as pending limit order
-      this.pendingLimitOrders.set(tokenId, trade);
-      this.status.pendingLimitOrders = this.pendingLimitOrders.size;
+  /**
+   * Whether the active event may be entered now: not while backing off from
+   * a rejected entry, never again once it has been rejected
+   * MAX_ENTRY_REJECTIONS times, and FOK/FAK entries at most once per
+   * ORDER_POLL_INTERVAL
+   */
+  private canAttemptEntry(): boolean {
+    const { entryTimeInForce } = this.strategyConfig;
+    if ((entryTimeInForce === 'FOK' || entryTimeInForce === 'FAK') && clock.now() - this.lastImmediateEntryAt < ORDER_POLL_INTERVAL) {
+      return false;
+    }
+    const backoff = this.activeEvent ? this.entryBackoff.get(this.activeEvent.slug) : undefined;
+    return !backoff || (backoff.rejections < MAX_ENTRY_REJECTIONS && clock.now() >= backoff.retryAt);
+  }
 
-      // Add to trade history
-      this.trades.push(trade);
-      this.status.totalTrades++;
+  /**
+   * Record an entry the exchange rejected, and back off before the next one.
+   * Entries run on every quote, so without this a rejection that will repeat
+   * (low balance, missing allowance) would be re-sent on every book change.
+   */
+  private recordRejectedEntry(trade: Trade, reason: string): void {
+    const backoff = this.entryBackoff.get(trade.eventSlug) ?? { rejections: 0, retryAt: 0 };
+    backoff.rejections++;
+    if (backoff.rejections >= MAX_ENTRY_REJECTIONS) {
+      reason += `; rejected ${backoff.rejections} times, no more entries on this event`;
+    } else {
+      const delay = Math.min(REJECTION_BACKOFF_MAX, REJECTION_BACKOFF_BASE * Math.pow(2, backoff.rejections - 1));
+      backoff.retryAt = clock.now() + delay;
+      reason += `; next entry in ${Math.round(delay / 1000)}s`;
+    }
+    this.entryBackoff.set(trade.eventSlug, backoff);
+    this.recordFailedTrade(trade, reason);
+  }
 
-      console.log(`Limit order placed: ${trade.id} at ${limitPrice.toFixed(2)}`);
+  /**
+   * When a GTD entry placed now expires: gtdExpirySeconds before the active
+   * event's end
+   */
+  private getGtdExpiry(): number | null {
+    if (!this.activeEvent) {
+      return null;
+    }
+    return new Date(this.activeEvent.endDate).getTime() - this.strategyConfig.gtdExpirySeconds * 1000;
+  }
 
-      // NOTE: In production, you would:
-      // 1. Call clobClient.placeLimitOrder(tokenId, limitPrice, size, side)
-      // 2. Wait for order confirmation
-      // 3. Update trade status based on order status
+  /**
+   * Place the entry at the specified price, rounded down to the market's
+   * tick, with the configured time in force. GTC and GTD entries rest until
+   * filled; FOK and FAK entries fill at once (see placeImmediateEntry). With
+   * a signer connected orders go to the exchange; otherwise to the paper
+   * exchange.
+   */
+  private async placeLimitOrder(tokenId: string, entryPrice: number, direction: 'UP' | 'DOWN', plan?: EntryPlan): Promise<void> {
+    const { tickSize, feeRateBps } = await this.getMarketRules(tokenId);
+    const { entryTimeInForce, gtdExpirySeconds } = this.strategyConfig;
+    const rounded = roundToTick(entryPrice / 100, tickSize, 'BUY');
+    const limitPrice = toPercentage(rounded);
+    const expiresAt = entryTimeInForce === 'GTD' ? this.getGtdExpiry() ?? undefined : undefined;
+    const estimate = plan?.estimate;
+    let reason = `${entryTimeInForce} limit order placed at ${limitPrice.toFixed(2)} (${direction})`;
+    if (Math.abs(limitPrice - entryPrice) > 1e-9) {
+      reason += `; rounded from ${entryPrice.toFixed(2)} to the ${tickSize} tick`;
+    }
+    if (estimate && estimate.averagePrice !== null && estimate.slippage !== null) {
+      reason += `; est. avg fill ${estimate.averagePrice.toFixed(2)}, slippage ${estimate.slippage.toFixed(2)}`;
+    }
+    if (plan?.action === 'shrink') {
+      reason += `; shrunk from $${this.strategyConfig.tradeSize.toFixed(2)} to stay within ${this.strategyConfig.maxSlippage.toFixed(2)} slippage`;
+    }
+    if (expiresAt !== undefined) {
+      reason += `; expires ${gtdExpirySeconds}s before the event ends`;
+    }
 
-      this.notifyTradeUpdate(trade);
-      this.notifyStatusUpdate();
+    const trade: Trade = {
+      id: `limit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      eventSlug: this.activeEvent!.slug,
+      tokenId,
+      side: 'BUY', // Always buying the token (YES or NO)
+      size: plan?.size ?? this.strategyConfig.tradeSize,
+      price: limitPrice,
+      timestamp: clock.now(),
+      status: 'pending',
+      reason,
+      orderType: 'LIMIT',
+      limitPrice,
+      timeInForce: entryTimeInForce,
+      expiresAt,
+      direction,
+      fillEstimate: estimate,
+      feeRateBps,
+      paper: !this.executor,
+    };
+
+    if (!isValidTickPrice(rounded, tickSize)) {
+      this.recordRejectedEntry(trade, `Limit order not placed: ${limitPrice.toFixed(2)} is outside the market's price range for a ${tickSize} tick`);
+      return;
+    }
+
+    // Without a signer the order goes to the paper exchange
+    const executor = this.executor ?? this.paperExchange;
+
+    if (entryTimeInForce === 'FOK' || entryTimeInForce === 'FAK') {
+      await this.placeImmediateEntry(trade, executor, rounded, entryTimeInForce);
+      return;
+    }
+
+    try {
+      const shares = Math.floor((trade.size / rounded) * 100) / 100;
+      const options: LimitOrderOptions = expiresAt !== undefined
+        ? { timeInForce: 'GTD', expiration: gtdExpiration(expiresAt) }
+        : { timeInForce: 'GTC' };
+      const result = await executor.placeLimitOrder(tokenId, rounded, shares, 'BUY', options);
+      trade.orderId = result.orderId;
+      trade.transactionHash = result.transactionHashes[0];
     } catch (error) {
       console.error('Error placing limit order:', error);
+      this.recordRejectedEntry(trade, `Limit order rejected: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    this.entryBackoff.delete(trade.eventSlug);
+
+    // Store as pending limit order
+    this.pendingLimitOrders.set(tokenId, trade);
+    this.status.pendingLimitOrders = this.pendingLimitOrders.size;
+
+    // Add to trade history
+    this.trades.push(trade);
+    this.status.totalTrades++;
+
+    console.log(`Limit order placed: ${trade.orderId} at ${limitPrice.toFixed(2)}`);
+
+    this.notifyTradeUpdate(trade);
+    this.notifyStatusUpdate();
+  }
+
+  /**
+   * Fill an FOK or FAK entry at once, at `price` (0-1) or better. FOK takes
+   * the whole size or nothing; FAK takes what the book has. Nothing is left
+   * resting either way.
+   */
+  private async placeImmediateEntry(trade: Trade, executor: OrderExecutor, price: number, timeInForce: 'FOK' | 'FAK'): Promise<void> {
+    this.lastImmediateEntryAt = clock.now();
+    let result: OrderResult;
+    try {
+      result = await executor.placeMarketOrder(trade.tokenId, trade.size, 'BUY', { timeInForce, price });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (isKilledOrderError(error)) {
+        this.recordRepeatedFailure('entry-killed', trade, 'cancelled', `${timeInForce} entry killed: ${message}`);
+        return;
+      }
+      console.error('Error placing entry order:', error);
+      this.recordRejectedEntry(trade, `${timeInForce} entry rejected: ${message}`);
+      return;
+    }
+    this.entryBackoff.delete(trade.eventSlug);
+
+    trade.orderId = result.orderId;
+    trade.transactionHash = result.transactionHashes[0];
+
+    // A BUY gives USDC (making) for shares (taking)
+    const spent = result.makingAmount;
+    const shares = result.takingAmount;
+    if (shares <= 0) {
+      this.recordRepeatedFailure('entry-killed', trade, 'cancelled', `${trade.reason}; nothing filled (exchange status: ${result.status})`);
+      return;
+    }
+
+    this.repeatedFailures.delete(`entry-killed:${trade.tokenId}`);
+    this.trades.push(trade);
+    this.status.totalTrades++;
+
+    if (spent < trade.size - 0.01) {
+      trade.reason += `; filled $${spent.toFixed(2)} of $${trade.size.toFixed(2)}, rest cancelled`;
     }
+    trade.size = spent;
+    this.openPosition(trade, toPercentage(spent / shares), shares);
   }
 
   /**
-   * Check if pending limit order should fill (price reached limit price)
+   * Record an order that never reached the book
+   */
+  private recordFailedTrade(trade: Trade, reason: string): void {
+    trade.status = 'failed';
+    trade.reason = reason;
+    this.trades.push(trade);
+    this.status.totalTrades++;
+    this.status.failedTrades++;
+    this.notifyTradeUpdate(trade);
+    this.notifyStatusUpdate();
+  }
+
+  /**
+   * Record an immediate order that filled nothing. The strategy tries again
+   * on a later quote, so a repeat of the last failure of the same `kind` on
+   * the same token updates that trade's attempt count instead of adding
+   * another one.
+   */
+  private recordRepeatedFailure(kind: string, trade: Trade, status: 'failed' | 'cancelled', reason: string): void {
+    const key = `${kind}:${trade.tokenId}`;
+    const previous = this.repeatedFailures.get(key);
+    if (previous) {
+      previous.attempts = (previous.attempts ?? 1) + 1;
+      previous.timestamp = trade.timestamp;
+      previous.orderId = trade.orderId ?? previous.orderId;
+      previous.reason = `${reason} (${previous.attempts} attempts)`;
+      this.notifyTradeUpdate(previous);
+      return;
+    }
+
+    trade.status = status;
+    trade.reason = reason;
+    trade.attempts = 1;
+    this.repeatedFailures.set(key, trade);
+    this.trades.push(trade);
+    this.status.totalTrades++;
+    if (status === 'failed') {
+      this.status.failedTrades++;
+    }
+    this.notifyTradeUpdate(trade);
+    this.notifyStatusUpdate();
+  }
+
+  /**
+   * Take a resting order off the pending list without a fill
+   */
+  private cancelPendingOrder(tokenId: string, reason: string): void {
+    const order = this.pendingLimitOrders.get(tokenId);
+    if (!order) {
+      return;
+    }
+    this.pendingLimitOrders.delete(tokenId);
+    this.status.pendingLimitOrders = this.pendingLimitOrders.size;
+    order.status = 'cancelled';
+    order.reason = reason;
+    this.notifyTradeUpdate(order);
+    this.notifyStatusUpdate();
+  }
+
+  /**
+   * Mark an entry filled at `fillPrice` (0-100 scale) and open the position
+   * it bought with `shares`
+   */
+  private openPosition(trade: Trade, fillPrice: number, shares: number): void {
+    trade.status = 'filled';
+    trade.price = fillPrice; // Actual fill price
+    trade.filledShares = shares;
+    this.status.successfulTrades++;
+
+    // Fees are charged per share
+    const feeRateBps = trade.feeRateBps ?? 0;
+    const entryFees = tradingFee(feeRateBps, fillPrice / 100, shares);
+    trade.fees = entryFees;
+    this.status.totalFees += entryFees;
+
+    // Determine direction from the token's outcome label
+    const outcome = findTokenOutcome(this.activeEvent?.markets || [], trade.tokenId)?.token.outcome;
+    const direction = outcome?.toUpperCase() === 'DOWN' ? 'DOWN' : 'UP';
+    trade.direction = direction;
+
+    this.status.currentPosition = {
+      eventSlug: trade.eventSlug,
+      tokenId: trade.tokenId,
+      side: trade.side,
+      entryPrice: fillPrice,
+      size: trade.size,
+      shares,
+      direction,
+      feeRateBps,
+      entryFees,
+      paper: trade.paper,
+    };
+
+    console.log(`Entry filled: ${trade.orderId} at ${fillPrice.toFixed(2)}`);
+
+    this.notifyTradeUpdate(trade);
+    this.notifyStatusUpdate();
+  }
+
+  /**
+   * Check whether a pending limit order has filled, by looking it up on the
+   * exchange (or the paper exchange). An order the exchange cancels after a
+   * partial fill, e.g. at its GTD expiry, opens a position with what filled.
    */
   private async checkLimitOrderFill(tokenId: string): Promise<void> {
     const pendingOrder = this.pendingLimitOrders.get(tokenId);
-    if (!pendingOrder) {
-      return;
+    const executor = pendingOrder ? this.executorFor(pendingOrder) : null;
+    if (!pendingOrder?.orderId || !executor) {
+      return; // A live order can't be followed once its signer disconnects
     }
+    const orderId = pendingOrder.orderId;
 
     try {
-      // Get current market price
-      const currentMarketPrice = await this.clobClient.getPrice(tokenId, 'BUY');
-      
-      if (!currentMarketPrice) {
-        return;
+      // Exchange lookups are throttled; the paper exchange is local
+      if (!pendingOrder.paper) {
+        if (clock.now() - this.lastOrderPoll < ORDER_POLL_INTERVAL) {
+          return;
+        }
+        this.lastOrderPoll = clock.now();
       }
 
-      const currentPricePercent = toPercentage(currentMarketPrice);
-      const limitPrice = pendingOrder.limitPrice!;
-
-      // Check if price has reached or crossed the limit price
-      // For BUY limit orders, fill when price is at or below limit
-      if (currentPricePercent <= limitPrice + 0.1) { // Small buffer for slippage
-        // Limit order filled
-        pendingOrder.status = 'filled';
-        pendingOrder.price = currentPricePercent; // Actual fill price
-        pendingOrder.transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-        
-        // Remove from pending orders
-        this.pendingLimitOrders.delete(tokenId);
-        this.status.pendingLimitOrders = this.pendingLimitOrders.size;
-
-        // Update trade status
-        this.status.successfulTrades++;
-
-        // Determine direction based on which token this is
-        const direction = this.activeEvent?.clobTokenIds?.[0] === tokenId ? 'UP' : 'DOWN';
-        
-        // Create position
-        this.status.currentPosition = {
-          eventSlug: pendingOrder.eventSlug,
-          tokenId: pendingOrder.tokenId,
-          side: pendingOrder.side,
-          entryPrice: currentPricePercent,
-          size: pendingOrder.size,
-          direction,
-        };
-        
-        // Update trade with direction
-        pendingOrder.direction = direction;
-
-        console.log(`Limit order filled: ${pendingOrder.id} at ${currentPricePercent.toFixed(2)}`);
-
+      const order = await executor.getOrder(orderId);
+      if (order.sizeMatched !== (pendingOrder.filledShares ?? 0)) {
+        pendingOrder.filledShares = order.sizeMatched;
         this.notifyTradeUpdate(pendingOrder);
-        this.notifyStatusUpdate();
       }
+
+      // The exchange expires GTD orders itself and reports them cancelled
+      const cancelled = order.status === 'CANCELED' || order.status === 'CANCELED_MARKET_RESOLVED';
+      if (cancelled && order.sizeMatched <= 0) {
+        const expired = pendingOrder.expiresAt !== undefined && clock.now() >= pendingOrder.expiresAt;
+        this.cancelPendingOrder(tokenId, expired ? 'GTD order expired' : 'Order cancelled by the exchange');
+        return;
+      }
+      if (!cancelled && order.sizeMatched < order.originalSize) {
+        return; // Still resting
+      }
+
+      // Average over the order's fills, which can beat the limit where it crossed the book.
+      // Looked up by market so maker fills against the complementary token are found too.
+      const market = findTokenOutcome(this.activeEvent?.markets || [], tokenId)?.market.conditionId;
+      const fills = (await executor.getTrades(tokenId, market)).filter(fill => fill.orderId === orderId);
+      const filled = fills.reduce((total, fill) => total + fill.size, 0);
+      const averagePrice = filled > 0
+        ? fills.reduce((total, fill) => total + fill.price * fill.size, 0) / filled
+        : order.price;
+      pendingOrder.transactionHash = fills.find(fill => fill.transactionHash)?.transactionHash || undefined;
+
+      if (cancelled) {
+        pendingOrder.size = order.sizeMatched * averagePrice;
+        pendingOrder.reason += `; ${order.sizeMatched.toFixed(2)} of ${order.originalSize.toFixed(2)} shares filled before the order was cancelled`;
+      }
+
+      this.pendingLimitOrders.delete(tokenId);
+      this.status.pendingLimitOrders = this.pendingLimitOrders.size;
+      this.openPosition(pendingOrder, toPercentage(averagePrice), order.sizeMatched);
     } catch (error) {
       console.error('Error checking limit order fill:', error);
     }
@@ -307,7 +940,7 @@ export class TradingManager {
 
     try {
       // Get current price for the token
-      const currentMarketPrice = await this.clobClient.getPrice(tokenId, 'SELL'); // Sell to exit position
+      const currentMarketPrice = await this.getLivePrice(tokenId, 'SELL'); // Sell to exit position
       
       if (!currentMarketPrice) {
         return;
@@ -321,11 +954,10 @@ export class TradingManager {
       // Update current position
       this.status.currentPosition.currentPrice = currentPricePercent;
       
-      // Calculate unrealized profit/loss
-      // For BUY positions: profit when price goes up
-      const priceDiff = currentPricePercent - entryPrice;
-      const unrealizedProfit = (priceDiff / entryPrice) * this.status.currentPosition.size * 100; // Percentage-based P/L
-      this.status.currentPosition.unrealizedProfit = unrealizedProfit;
+      // Unrealized P/L if sold now, net of the entry fee and the exit fee it would pay
+      const position = this.status.currentPosition;
+      const shares = position.shares ?? position.size / (entryPrice / 100);
+      position.unrealizedProfit = netProfit(shares, entryPrice / 100, currentPricePercent / 100, position.entryFees ?? 0, position.feeRateBps ?? 0).net;
 
       // Check profit target (100)
       if (currentPricePercent >= profitTarget) {
@@ -343,7 +975,9 @@ export class TradingManager {
   }
 
   /**
-   * Close current position with market order
+   * Close current position with an FOK or FAK market order, limited to
+   * maxExitSlippage under the best bid. A FAK exit that sells only part of
+   * the position leaves the rest open for the next check.
    */
   private async closePosition(reason: string): Promise<void> {
     if (!this.status.currentPosition) {
@@ -353,49 +987,108 @@ export class TradingManager {
     try {
       const position = this.status.currentPosition;
       const exitSide = 'SELL'; // Always selling to close BUY position
+      const { exitTimeInForce, maxExitSlippage } = this.strategyConfig;
+      const executor = position.paper ? this.paperExchange : this.executor;
+      if (!executor) {
+        console.warn('Signer disconnected; the live position has to be closed on the exchange');
+        return;
+      }
+
+      // A killed or rejected exit isn't re-sent on every quote
+      if (clock.now() - this.lastExitAt < ORDER_POLL_INTERVAL) {
+        return;
+      }
 
       // Get exit price
-      const exitMarketPrice = await this.clobClient.getPrice(position.tokenId, exitSide);
+      const exitMarketPrice = await this.getLivePrice(position.tokenId, exitSide);
 
       if (!exitMarketPrice) {
         console.warn('Could not get exit price');
         return;
       }
 
-      const exitPricePercent = toPercentage(exitMarketPrice);
-      const entryPrice = position.entryPrice;
-
-      // Calculate profit/loss
-      // Profit = (exitPrice - entryPrice) / entryPrice * size
-      const priceDiff = exitPricePercent - entryPrice;
-      const profitPercent = (priceDiff / entryPrice) * 100;
-      const profit = (profitPercent / 100) * position.size;
+      // Worst price the exit accepts, on the tick grid and inside the market's range
+      const { tickSize } = await this.getMarketRules(position.tokenId);
+      const priceLimit = roundToTick(Math.max(exitMarketPrice - maxExitSlippage / 100, tickSize), tickSize, 'SELL');
 
-      // Create exit trade
+      const shares = position.shares ?? Math.floor((position.size / (position.entryPrice / 100)) * 100) / 100;
       const exitTrade: Trade = {
         id: `exit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         eventSlug: position.eventSlug,
         tokenId: position.tokenId,
         side: exitSide,
         size: position.size,
-        price: exitPricePercent,
-        timestamp: Date.now(),
+        price: toPercentage(exitMarketPrice),
+        timestamp: clock.now(),
         status: 'filled',
-        profit,
         reason: `Exit: ${reason}`,
         orderType: 'MARKET',
-        transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
+        limitPrice: toPercentage(priceLimit),
+        timeInForce: exitTimeInForce,
+        paper: position.paper,
       };
 
+      let result: OrderResult;
+      this.lastExitAt = clock.now();
+      try {
+        result = await executor.placeMarketOrder(position.tokenId, shares, exitSide, { timeInForce: exitTimeInForce, price: priceLimit });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (isKilledOrderError(error)) {
+          this.recordRepeatedFailure('exit-killed', exitTrade, 'cancelled', `Exit killed (${reason}): ${message}`);
+        } else {
+          console.error('Error placing exit order:', error);
+          this.recordRepeatedFailure('exit-rejected', exitTrade, 'failed', `Exit rejected (${reason}): ${message}`);
+        }
+        return;
+      }
+      this.repeatedFailures.delete(`exit-killed:${position.tokenId}`);
+      this.repeatedFailures.delete(`exit-rejected:${position.tokenId}`);
+
+      // A SELL gives shares (making) for USDC (taking); without amounts, assume the bid filled it all
+      const soldShares = result.makingAmount > 0 ? Math.min(result.makingAmount, shares) : shares;
+      const exitPricePercent = result.makingAmount > 0
+        ? toPercentage(result.takingAmount / result.makingAmount)
+        : toPercentage(exitMarketPrice);
+
+      // Entry size and fees are split pro rata when only part of the position sells
+      const partial = soldShares < shares - 1e-6;
+      const soldFraction = soldShares / shares;
+      const entryFees = (position.entryFees ?? 0) * soldFraction;
+
+      // Net profit: price move on the shares sold, less fees on both legs
+      const { gross: grossProfit, exitFees, net: profit } = netProfit(
+        soldShares, position.entryPrice / 100, exitPricePercent / 100, entryFees, position.feeRateBps ?? 0
+      );
+
+      exitTrade.size = position.size * soldFraction;
+      exitTrade.price = exitPricePercent;
+      exitTrade.profit = profit;
+      exitTrade.grossProfit = grossProfit;
+      exitTrade.fees = exitFees;
+      exitTrade.feeRateBps = position.feeRateBps;
+      exitTrade.orderId = result.orderId;
+      exitTrade.transactionHash = result.transactionHashes[0];
+      exitTrade.filledShares = soldShares;
+      if (partial) {
+        exitTrade.reason += `; sold ${soldShares.toFixed(2)} of ${shares.toFixed(2)} shares, rest still open`;
+      }
+
       this.trades.push(exitTrade);
       this.status.totalTrades++;
       this.status.successfulTrades++;
       this.status.totalProfit += profit;
+      this.status.totalFees += exitFees;
+
+      if (partial) {
+        position.shares = shares - soldShares;
+        position.size -= exitTrade.size;
+        position.entryFees = (position.entryFees ?? 0) - entryFees;
+      } else {
+        this.status.currentPosition = undefined;
+      }
 
-      // Clear position
-      this.status.currentPosition = undefined;
-
-      console.log(`Position closed: ${reason}, Profit: $${profit.toFixed(2)}`);
+      console.log(`Position ${partial ? 'partly ' : ''}closed: ${reason}, Profit: $${profit.toFixed(2)} net of $${(entryFees + exitFees).toFixed(2)} fees`);
 
       this.notifyTradeUpdate(exitTrade);
       this.notifyStatusUpdate();
@@ -417,19 +1110,12 @@ export class TradingManager {
     this.status.isActive = true;
     this.notifyStatusUpdate();
 
-    // Start monitoring interval (check every 2 seconds for faster response)
-    this.monitoringInterval = window.setInterval(() => {
-      this.checkTradingConditions();
-    }, 2000);
+    // No polling: conditions are re-checked on every streamed quote and price tick
+    this.checkTradingConditions();
   }
 
   stopTrading(): void {
     this.status.isActive = false;
-    
-    if (this.monitoringInterval !== null) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = null;
-    }
 
     // Cancel all pending limit orders
     this.cancelAllPendingOrders();
@@ -437,10 +1123,16 @@ export class TradingManager {
     this.notifyStatusUpdate();
   }
 
-  private cancelAllPendingOrders(): void {
+  private cancelAllPendingOrders(reason: string = 'Trading stopped - order cancelled'): void {
     this.pendingLimitOrders.forEach((order) => {
+      const executor = this.executorFor(order);
+      if (order.orderId && executor) {
+        executor.cancelOrder(order.orderId).catch(error => {
+          console.error(`Failed to cancel order ${order.orderId}:`, error);
+        });
+      }
       order.status = 'cancelled';
-      order.reason = 'Trading stopped - order cancelled';
+      order.reason = reason;
       this.notifyTradeUpdate(order);
     });
     this.pendingLimitOrders.clear();
@@ -467,15 +1159,24 @@ export class TradingManager {
     }
   }
 
+  /**
+   * Clear the trade history. Resting orders are cancelled on their exchange
+   * first; an open position has to be closed before its history can go.
+   */
   clearTrades(): void {
+    if (this.status.currentPosition) {
+      throw new Error('Close the open position before clearing trades');
+    }
+    this.cancelAllPendingOrders('Trades cleared - order cancelled');
+
     this.trades = [];
     this.status.totalTrades = 0;
     this.status.successfulTrades = 0;
     this.status.failedTrades = 0;
     this.status.totalProfit = 0;
-    this.status.currentPosition = undefined;
-    this.pendingLimitOrders.clear();
-    this.status.pendingLimitOrders = 0;
+    this.status.totalFees = 0;
+    this.entryBackoff.clear();
+    this.repeatedFailures.clear();
     this.notifyStatusUpdate();
   }
 }
@@ -1,5 +1,7 @@
 export interface StrategyConfig {
   enabled: boolean;
+  // Market series to trade (see series-registry), e.g. btc-updown-15m
+  seriesId: string;
   // Entry price for limit order (0-100 scale for Polymarket binary markets)
   entryPrice: number; // e.g., 96
   // Profit target price (0-100 scale)
@@ -8,6 +10,21 @@ export interface StrategyConfig {
   stopLossPrice: number; // e.g., 91
   // Trade size (in USD)
   tradeSize: number;
+  // Most the expected average entry fill may sit above the best ask (0-100 scale, e.g. 1 = 1¢)
+  maxSlippage: number;
+  // What to do with an entry whose expected fill breaks maxSlippage:
+  // skip it, or shrink it to the size the book can fill within the limit
+  slippageAction: 'skip' | 'shrink';
+  // Time in force of entries: resting (GTC, GTD) or immediate at the entry price (FOK, FAK)
+  entryTimeInForce: TimeInForce;
+  // GTD entries expire this many seconds before the event's endDate
+  gtdExpirySeconds: number;
+  // Exits are immediate: all shares (FOK) or whatever the book takes (FAK)
+  exitTimeInForce: 'FOK' | 'FAK';
+  // Lowest an exit may sell below the best bid (0-100 scale)
+  maxExitSlippage: number;
+  // Simulated one-way latency of paper orders and cancels, in ms
+  paperLatencyMs: number;
   // Direction is automatically determined by which token (UP/DOWN) reaches entry price first
 }
 
@@ -20,12 +37,50 @@ export interface Trade {
   price: number; // Price in 0-100 scale
   timestamp: number;
   status: 'pending' | 'filled' | 'failed' | 'cancelled';
-  transactionHash?: string;
-  profit?: number;
+  orderId?: string; // Exchange (or paper exchange) order ID
+  paper?: boolean; // Sent to the paper exchange, not the real one
+  filledShares?: number; // Shares matched so far
+  transactionHash?: string; // Settlement transaction, once the exchange reports one
+  profit?: number; // Exit trades: round-trip profit net of entry and exit fees
+  grossProfit?: number; // Exit trades: profit before fees
+  fees?: number; // USDC paid in trading fees on this fill
+  feeRateBps?: number; // Market's base fee rate when the order was placed
   reason: string; // Why the trade was executed
   orderType: 'LIMIT' | 'MARKET';
-  limitPrice?: number; // Limit price if orderType is LIMIT
+  limitPrice?: number; // Limit price if orderType is LIMIT; worst accepted price of a MARKET order
+  timeInForce?: TimeInForce;
+  expiresAt?: number; // GTD: when the order expires (ms)
   direction?: 'UP' | 'DOWN'; // Direction determined automatically (UP = YES token, DOWN = NO token)
+  fillEstimate?: FillEstimate; // Expected fill from the order book when the entry was placed
+  attempts?: number; // Immediate orders that filled nothing: identical attempts folded into this record
+}
+
+/**
+ * How long an order stays on the book. GTC rests until cancelled and GTD
+ * until its expiry; FOK fills completely at once or not at all, and FAK
+ * fills what it can at once and cancels the rest.
+ */
+export type TimeInForce = 'GTC' | 'GTD' | 'FOK' | 'FAK';
+
+/**
+ * Expected fill of a BUY for `size` USD, walking the asks of the order book
+ */
+export interface FillEstimate {
+  size: number; // USD the estimate is for
+  fillable: number; // USD of `size` the visible asks can fill
+  shares: number; // Shares the fillable part buys
+  averagePrice: number | null; // VWAP, 0-100 scale; null with no asks
+  bestPrice: number | null; // Best ask, 0-100 scale
+  slippage: number | null; // averagePrice - bestPrice, 0-100 scale
+}
+
+/**
+ * What the strategy would do with an entry on a given book
+ */
+export interface EntryPlan {
+  action: 'place' | 'shrink' | 'skip';
+  size: number; // USD to enter with; 0 when skipped
+  estimate: FillEstimate; // For `size`, or for the configured size when skipped
 }
 
 export interface TradingStatus {
@@ -33,14 +88,21 @@ export interface TradingStatus {
   totalTrades: number;
   successfulTrades: number;
   failedTrades: number;
-  totalProfit: number;
+  totalProfit: number; // Net of fees
+  totalFees: number;
   pendingLimitOrders: number;
+  signerAddress: string | null; // Set when orders go to the exchange; null for paper trading
+  signingMode: 'browser' | 'server' | null; // Who signs: a signer in this tab, or the order service
   currentPosition?: {
     eventSlug: string;
     tokenId: string;
     side: 'BUY' | 'SELL';
     entryPrice: number; // Price in 0-100 scale
     size: number;
+    shares?: number; // Shares held
+    feeRateBps?: number; // Fee rate charged on the entry, assumed for the exit
+    entryFees?: number; // USDC paid in fees on the entry
+    paper?: boolean; // Opened on the paper exchange, so closed there too
     currentPrice?: number; // Price in 0-100 scale
     unrealizedProfit?: number;
     direction?: 'UP' | 'DOWN'; // Direction (UP = YES token, DOWN = NO token)
@@ -53,3 +115,98 @@ export interface TradeExecutionResult {
   error?: string;
   transactionHash?: string;
 }
+
+/**
+ * How the CLOB client signs orders: a raw private key, or the wallet
+ * injected by the browser (e.g. MetaMask)
+ */
+export type SignerConfig =
+  | { type: 'private-key'; privateKey: string; funderAddress?: string; signatureType?: number }
+  | { type: 'injected'; funderAddress?: string; signatureType?: number };
+
+/**
+ * The exchange's answer to a placed order
+ */
+export interface OrderResult {
+  orderId: string;
+  status: string; // 'matched', 'live', 'delayed' or 'unmatched'
+  transactionHashes: string[];
+  takingAmount: number; // What we received: shares on a BUY, USDC on a SELL
+  makingAmount: number; // What we gave: USDC on a BUY, shares on a SELL
+}
+
+/**
+ * An order resting on the book
+ */
+export interface OpenOrderInfo {
+  orderId: string;
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  price: number; // 0-1
+  originalSize: number; // Shares
+  sizeMatched: number; // Shares
+  status: string; // 'LIVE', 'MATCHED', 'CANCELED', ...
+  createdAt: number; // ms
+}
+
+/**
+ * A fill on one of our orders
+ */
+export interface FillInfo {
+  tradeId: string;
+  orderId: string; // Our order that filled, as the taker or a maker
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  price: number; // 0-1
+  size: number; // Shares
+  status: string; // 'MATCHED', 'MINED', 'CONFIRMED', ...
+  transactionHash: string | null;
+  matchTime: number; // ms
+}
+
+/**
+ * A resting order's time in force. `expiration` is the unix time in seconds
+ * sent to the exchange for a GTD order (see gtdExpiration).
+ */
+export interface LimitOrderOptions {
+  timeInForce: 'GTC' | 'GTD';
+  expiration?: number;
+}
+
+/**
+ * An immediate order's time in force, and the worst price (0-1) it may
+ * fill at. Without a price the exchange's market price for the amount is used.
+ */
+export interface MarketOrderOptions {
+  timeInForce: 'FOK' | 'FAK';
+  price?: number;
+}
+
+/**
+ * Where live orders are sent: the CLOB client with a signer in the browser,
+ * or the server-side order service
+ */
+export interface OrderExecutor {
+  placeLimitOrder(tokenId: string, price: number, size: number, side: 'BUY' | 'SELL', options?: LimitOrderOptions): Promise<OrderResult>;
+  placeMarketOrder(tokenId: string, amount: number, side: 'BUY' | 'SELL', options?: MarketOrderOptions): Promise<OrderResult>;
+  cancelOrder(orderId: string): Promise<boolean>;
+  cancelAll(): Promise<string[]>;
+  getOrder(orderId: string): Promise<OpenOrderInfo>;
+  getTrades(tokenId?: string, market?: string): Promise<FillInfo[]>;
+}
+
+/**
+ * Caps the order service enforces on every order
+ */
+export interface OrderLimits {
+  maxSize: number; // Shares per order
+  maxNotional: number; // USDC per order
+}
+
+/**
+ * The order service's signing account, as reported to the browser
+ */
+export interface OrderServiceAccount {
+  address: string;
+  limits: OrderLimits;
+}
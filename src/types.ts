@@ -1,4 +1,13 @@
-export type DataSource = 'chainlink';
+export type DataSource = 'chainlink' | 'binance';
+
+export const SUPPORTED_SOURCES: DataSource[] = ['chainlink', 'binance'];
+
+/**
+ * RTDS symbols we stream (slash-separated pairs, as used by the Chainlink topic)
+ */
+export type CryptoSymbol = 'btc/usd' | 'eth/usd' | 'sol/usd' | 'xrp/usd';
+
+export const SUPPORTED_SYMBOLS: CryptoSymbol[] = ['btc/usd', 'eth/usd', 'sol/usd', 'xrp/usd'];
 
 export interface SubscriptionMessage {
   action: 'subscribe' | 'unsubscribe';
@@ -13,6 +22,9 @@ export interface PriceUpdate {
   topic: string;
   type: string;
   timestamp: number;
+  symbol: CryptoSymbol; // Normalized symbol this tick belongs to
+  source: DataSource; // Feed this tick came from
+  receivedAt: number; // Local arrival time (epoch ms), vs payload.timestamp = oracle time
   payload: {
     symbol: string;
     timestamp: number;
@@ -22,8 +34,204 @@ export interface PriceUpdate {
 
 export interface ConnectionStatus {
   connected: boolean;
-  source: DataSource | null;
+  source: DataSource | null; // Source of the most recent tick
+  sources: DataSource[]; // Sources currently subscribed
   lastUpdate: number | null;
   error: string | null;
+  symbols: CryptoSymbol[]; // Symbols currently subscribed
+  lastSymbol: CryptoSymbol | null; // Symbol of the most recent tick
+  reconnectAttempt: number; // 0 when connected or idle
+  nextRetryAt: number | null; // Epoch ms of the scheduled reconnect, if any
+  stale: boolean; // Socket is open but no tick arrived within the stale window
+}
+
+/**
+ * Anything that delivers price ticks through the WebSocketClient callback shape
+ * (the live RTDS socket or a recorded replay)
+ */
+export interface PriceFeed {
+  setCallbacks(
+    onPriceUpdate: (update: PriceUpdate) => void,
+    onStatusChange: (status: ConnectionStatus) => void
+  ): void;
+  setOnSymbolUpdate(symbol: CryptoSymbol, callback: ((update: PriceUpdate) => void) | null): void;
+  subscribe(symbols: CryptoSymbol[]): void;
+  unsubscribe(symbols: CryptoSymbol[]): void;
+  getSubscribedSymbols(): CryptoSymbol[];
+  setSourceEnabled(source: DataSource, enabled: boolean): void;
+  getEnabledSources(): DataSource[];
+  connect(): void;
+  disconnect(): void;
+  isConnected(): boolean;
+}
+
+export type RecordingChannel = 'rtds' | 'clob' | 'clob-rest';
+
+/**
+ * One line of an NDJSON recording
+ */
+export interface RecordedMessage {
+  t: number; // Arrival time (epoch ms)
+  channel: RecordingChannel; // rtds = price socket, clob = market channel, clob-rest = REST quote
+  data: unknown; // Message exactly as received
+}
+
+export type ReplaySpeed = 1 | 10 | 'max';
+
+export interface ReconnectOptions {
+  baseDelay: number; // First retry delay (ms)
+  maxDelay: number; // Backoff cap (ms)
+  maxAttempts: number | null; // null = retry forever
+  jitter: number; // 0-1, fraction of the delay that is randomized
+  staleTimeout: number | null; // Force a reconnect if no tick for this long (ms), null = off
+  pongTimeout: number; // Force a reconnect if a ping goes unanswered for this long (ms)
+}
+
+
+/**
+ * One price level of a CLOB order book (price in 0-1 decimal, size in shares)
+ */
+export interface OrderBookLevel {
+  price: number;
+  size: number;
+}
+
+export interface OrderBookSnapshot {
+  tokenId: string;
+  bids: OrderBookLevel[]; // Best (highest) first
+  asks: OrderBookLevel[]; // Best (lowest) first
+  timestamp: number;
+}
+
+/**
+ * One price level of a depth ladder, with the depth from the best price down to it
+ */
+export interface DepthLevel {
+  price: number; // 0-1
+  size: number; // Shares at this price
+  cumulativeSize: number; // Shares at this price or better
+  cumulativeNotional: number; // USDC to take every level up to this one
+}
+
+export interface DepthLadder {
+  tokenId: string;
+  bids: DepthLevel[]; // Best (highest) first
+  asks: DepthLevel[]; // Best (lowest) first
+  spread: number | null; // Best ask minus best bid
+  midpoint: number | null;
+  timestamp: number;
 }
 
+/**
+ * Live top-of-book quote for a CLOB token (prices in 0-1 decimal)
+ */
+export interface MarketQuote {
+  tokenId: string;
+  bestBid: number | null; // What we can SELL at
+  bestAsk: number | null; // What we can BUY at
+  lastTradePrice: number | null;
+  timestamp: number;
+}
+
+/**
+ * A trade on the CLOB market channel (`last_trade_price`). `side` is the
+ * taker's: a SELL hit the bids, a BUY lifted the asks.
+ */
+export interface TradePrint {
+  tokenId: string;
+  price: number; // 0-1
+  size: number; // Shares
+  side: 'BUY' | 'SELL';
+  timestamp: number;
+}
+
+export interface HistogramBucket {
+  label: string;
+  upperBound: number; // ms, Infinity for the last bucket
+  count: number;
+}
+
+export interface LatencyStats {
+  count: number;
+  last: number | null;
+  mean: number | null;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+  histogram: HistogramBucket[];
+}
+
+/**
+ * Arrival latency and cadence for one tick source
+ */
+export interface FeedStats {
+  source: string;
+  latency: LatencyStats; // arrival - oracle timestamp (ms)
+  ticksPerSecond: number | null; // Over the rolling window
+  intervalMean: number | null; // Mean inter-arrival (ms)
+  intervalJitter: number | null; // Std dev of inter-arrival (ms)
+}
+
+/**
+ * Round-trip time for one kind of REST request
+ */
+export interface RequestStats {
+  name: string;
+  rtt: LatencyStats;
+  failures: number;
+}
+
+export type EventOutcome = 'UP' | 'DOWN';
+
+/**
+ * Settlement of one expired Up/Down event
+ */
+export interface ResolutionRecord {
+  slug: string;
+  seriesId: string;
+  startTimestamp: number; // seconds
+  endTimestamp: number; // seconds
+  priceToBeat: number | null; // Oracle price we captured at the start
+  closePrice: number | null; // Oracle price we captured at the end
+  localOutcome: EventOutcome | null; // From our captured prices
+  officialOutcome: EventOutcome | null; // From Gamma once the market resolves
+  resolvedAt: number | null; // ms, when the official outcome was fetched
+}
+
+export interface OutcomeStats {
+  seriesId: string;
+  resolved: number;
+  up: number;
+  down: number;
+  upRatio: number | null; // up / resolved
+  currentStreak: { outcome: EventOutcome; length: number } | null;
+  longestUpStreak: number;
+  longestDownStreak: number;
+  compared: number; // Events with both a local and an official outcome
+  disagreements: number; // Of those, how many differed
+}
+
+/**
+ * Opening reference price of an Up/Down event
+ */
+export interface PriceToBeat {
+  value: number;
+  exact: boolean; // False when no tick landed close enough to the start
+  source: 'tick' | 'gamma'; // Nearest oracle tick, or Gamma's event metadata
+  tickTimestamp: number | null; // Oracle timestamp of the tick used (ms)
+}
+
+/**
+ * Cached summary of a past Up/Down event, for the history view
+ */
+export interface HistoricalEvent {
+  slug: string;
+  seriesId: string;
+  startTimestamp: number; // seconds
+  endTimestamp: number; // seconds
+  closed: boolean;
+  outcome: EventOutcome | null; // Null until Gamma reports the resolution
+  volume: number | null;
+  liquidity: number | null;
+  conditionId?: string;
+}
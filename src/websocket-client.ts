@@ -1,19 +1,55 @@
-import type { DataSource, SubscriptionMessage, PriceUpdate, ConnectionStatus } from './types';
-
-const WS_ENDPOINT = 'wss://ws-live-data.polymarket.com';
+import type { DataSource, CryptoSymbol, SubscriptionMessage, PriceUpdate, ConnectionStatus, ReconnectOptions, PriceFeed } from './types';
+import { SUPPORTED_SOURCES } from './types';
+import { CHAINLINK_TOPIC, BINANCE_TOPIC, toBinanceSymbol, parsePriceMessage } from './rtds-utils';
+import type { StreamRecorder } from './stream-recorder';
+import { RTDS_WS_ENDPOINT } from './config';
 const PING_INTERVAL = 5000; // 5 seconds
+const WATCHDOG_INTERVAL = 1000; // How often the stale/pong checks run
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  baseDelay: 1000,
+  maxDelay: 30000,
+  maxAttempts: 10,
+  jitter: 0.5,
+  staleTimeout: 30000,
+  pongTimeout: 15000,
+};
+
+/**
+ * Exponential backoff with jitter: base * 2^(attempt - 1), capped at maxDelay,
+ * with up to `jitter` of it randomized so many tabs don't retry in lockstep
+ */
+export function getReconnectDelay(attempt: number, options: ReconnectOptions): number {
+  const { baseDelay, maxDelay, jitter } = options;
+  const delay = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+  return Math.round(delay * (1 - jitter) + Math.random() * delay * jitter);
+}
 
-export class WebSocketClient {
+export class WebSocketClient implements PriceFeed {
   private ws: WebSocket | null = null;
   private pingInterval: number | null = null;
+  private watchdogInterval: number | null = null;
+  private reconnectTimeout: number | null = null;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
-  private currentSource: DataSource | null = null;
+  private nextRetryAt: number | null = null;
+  private options: ReconnectOptions;
+  private manuallyClosed = false;
+  private connectedAt: number | null = null;
+  private lastTickAt: number | null = null;
+  private stale = false;
+  private pendingPingAt: number | null = null; // Sent ping still waiting for a pong
+  private pongSupported = false; // Only enforce pong timeouts once the server has answered a ping
+  private sources: Set<DataSource> = new Set(SUPPORTED_SOURCES); // Both feeds by default
+  private lastSource: DataSource | null = null;
+  private symbols: Set<CryptoSymbol> = new Set(['btc/usd']); // Kept across reconnects
+  private lastSymbol: CryptoSymbol | null = null;
   private onPriceUpdate: ((update: PriceUpdate) => void) | null = null;
   private onStatusChange: ((status: ConnectionStatus) => void) | null = null;
+  private symbolCallbacks: Map<CryptoSymbol, (update: PriceUpdate) => void> = new Map();
+  private recorder: StreamRecorder | null = null;
 
-  constructor() {
+  constructor(options: Partial<ReconnectOptions> = {}) {
+    this.options = { ...DEFAULT_RECONNECT_OPTIONS, ...options };
     this.connect = this.connect.bind(this);
     this.disconnect = this.disconnect.bind(this);
   }
@@ -26,95 +62,211 @@ export class WebSocketClient {
     this.onStatusChange = onStatusChange;
   }
 
+  /**
+   * Record every received message (except pongs) while the recorder is running
+   */
+  setRecorder(recorder: StreamRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Register a callback that only receives ticks for one symbol
+   */
+  setOnSymbolUpdate(symbol: CryptoSymbol, callback: ((update: PriceUpdate) => void) | null): void {
+    if (callback) {
+      this.symbolCallbacks.set(symbol, callback);
+    } else {
+      this.symbolCallbacks.delete(symbol);
+    }
+  }
+
+  /**
+   * Add symbols to the subscription set. Sent immediately if connected,
+   * otherwise on the next (re)connect.
+   */
+  subscribe(symbols: CryptoSymbol[]): void {
+    const added = symbols.filter(symbol => !this.symbols.has(symbol));
+    if (added.length === 0) {
+      return;
+    }
+
+    added.forEach(symbol => this.symbols.add(symbol));
+    this.sendSubscription('subscribe', added);
+    this.updateStatus(this.buildStatus({ connected: this.isConnected() }));
+  }
+
+  /**
+   * Remove symbols from the subscription set
+   */
+  unsubscribe(symbols: CryptoSymbol[]): void {
+    const removed = symbols.filter(symbol => this.symbols.has(symbol));
+    if (removed.length === 0) {
+      return;
+    }
+
+    removed.forEach(symbol => this.symbols.delete(symbol));
+    this.sendSubscription('unsubscribe', removed);
+    this.updateStatus(this.buildStatus({ connected: this.isConnected() }));
+  }
+
+  getSubscribedSymbols(): CryptoSymbol[] {
+    return Array.from(this.symbols);
+  }
+
+  /**
+   * Enable or disable a price source for every subscribed symbol
+   */
+  setSourceEnabled(source: DataSource, enabled: boolean): void {
+    if (this.sources.has(source) === enabled) {
+      return;
+    }
+
+    if (enabled) {
+      this.sources.add(source);
+      this.sendSubscription('subscribe', this.getSubscribedSymbols(), [source]);
+    } else {
+      this.sendSubscription('unsubscribe', this.getSubscribedSymbols(), [source]);
+      this.sources.delete(source);
+    }
+    this.updateStatus(this.buildStatus({ connected: this.isConnected() }));
+  }
+
+  getEnabledSources(): DataSource[] {
+    return Array.from(this.sources);
+  }
+
+  setReconnectOptions(options: Partial<ReconnectOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
   connect(): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
       return;
     }
 
-    this.disconnect();
-    this.currentSource = 'chainlink';
+    this.closeSocket();
+    this.clearReconnectTimeout();
+    this.manuallyClosed = false;
 
     try {
-      this.ws = new WebSocket(WS_ENDPOINT);
-      this.setupWebSocketHandlers();
+      this.ws = new WebSocket(RTDS_WS_ENDPOINT);
+      this.setupWebSocketHandlers(this.ws);
     } catch (error) {
       this.handleError(`Failed to connect: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.attemptReconnect();
     }
   }
 
-  private setupWebSocketHandlers(): void {
-    if (!this.ws) return;
-
-    this.ws.onopen = () => {
+  private setupWebSocketHandlers(ws: WebSocket): void {
+    ws.onopen = () => {
       this.reconnectAttempts = 0;
+      this.nextRetryAt = null;
+      this.connectedAt = Date.now();
+      this.stale = false;
+      this.pendingPingAt = null;
       this.startPingInterval();
-      this.subscribe();
-      this.updateStatus({
-        connected: true,
-        source: this.currentSource,
-        lastUpdate: null,
-        error: null
-      });
+      this.startWatchdog();
+      // Re-send the full subscription set so it survives reconnects
+      this.sendSubscription('subscribe', this.getSubscribedSymbols());
+      this.updateStatus(this.buildStatus({ connected: true }));
     };
 
-    this.ws.onmessage = (event) => {
+    ws.onmessage = (event) => {
+      // Some servers answer with a bare PONG rather than JSON
+      if (event.data === 'PONG') {
+        this.handlePong();
+        return;
+      }
+
       try {
         const data = JSON.parse(event.data);
-        
+
         // Handle ping/pong
         if (data.type === 'pong') {
+          this.handlePong();
           return;
         }
 
+        this.recorder?.record('rtds', data);
+
         // Handle price updates
-        if (data.topic === 'crypto_prices_chainlink') {
+        const update = parsePriceMessage(data, this.symbols, this.sources, Date.now());
+        if (update) {
+          this.lastSymbol = update.symbol;
+          this.lastSource = update.source;
+          this.lastTickAt = Date.now();
+          this.stale = false;
+
           if (this.onPriceUpdate) {
-            this.onPriceUpdate(data as PriceUpdate);
+            this.onPriceUpdate(update);
+          }
+          const symbolCallback = this.symbolCallbacks.get(update.symbol);
+          if (symbolCallback) {
+            symbolCallback(update);
           }
-          this.updateStatus({
-            connected: true,
-            source: this.currentSource,
-            lastUpdate: Date.now(),
-            error: null
-          });
+          this.updateStatus(this.buildStatus({ connected: true }));
         }
       } catch (error) {
         console.error('Error parsing message:', error);
       }
     };
 
-    this.ws.onerror = () => {
+    ws.onerror = () => {
       this.handleError('WebSocket error occurred');
     };
 
-    this.ws.onclose = () => {
+    ws.onclose = () => {
+      // Ignore close events from sockets we've already replaced
+      if (this.ws !== ws) {
+        return;
+      }
+
+      this.ws = null;
       this.stopPingInterval();
-      this.updateStatus({
-        connected: false,
-        source: this.currentSource,
-        lastUpdate: null,
-        error: null
-      });
+      this.stopWatchdog();
+      this.connectedAt = null;
+
+      if (this.manuallyClosed) {
+        this.updateStatus(this.buildStatus({ connected: false }));
+        return;
+      }
+
       this.attemptReconnect();
     };
   }
 
-  private subscribe(): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+  private sendSubscription(
+    action: SubscriptionMessage['action'],
+    symbols: CryptoSymbol[],
+    sources: DataSource[] = this.getEnabledSources()
+  ): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || symbols.length === 0 || sources.length === 0) {
       return;
     }
 
-    const subscription: SubscriptionMessage = {
-      action: 'subscribe',
-      subscriptions: [
-        {
-          topic: 'crypto_prices_chainlink',
+    const subscriptions: SubscriptionMessage['subscriptions'] = [];
+
+    if (sources.includes('chainlink')) {
+      // Chainlink takes one JSON filter per symbol
+      symbols.forEach(symbol => {
+        subscriptions.push({
+          topic: CHAINLINK_TOPIC,
           type: '*',
-          filters: '{"symbol":"btc/usd"}'
-        }
-      ]
-    };
+          filters: JSON.stringify({ symbol })
+        });
+      });
+    }
 
+    if (sources.includes('binance')) {
+      // Binance takes a comma-separated list of pairs
+      subscriptions.push({
+        topic: BINANCE_TOPIC,
+        type: 'update',
+        filters: symbols.map(toBinanceSymbol).join(',')
+      });
+    }
+
+    const subscription: SubscriptionMessage = { action, subscriptions };
     this.ws.send(JSON.stringify(subscription));
   }
 
@@ -122,6 +274,9 @@ export class WebSocketClient {
     this.stopPingInterval();
     this.pingInterval = window.setInterval(() => {
       if (this.ws?.readyState === WebSocket.OPEN) {
+        if (this.pendingPingAt === null) {
+          this.pendingPingAt = Date.now();
+        }
         this.ws.send(JSON.stringify({ type: 'ping' }));
       }
     }, PING_INTERVAL);
@@ -132,27 +287,105 @@ export class WebSocketClient {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    this.pendingPingAt = null;
+  }
+
+  private handlePong(): void {
+    this.pongSupported = true;
+    this.pendingPingAt = null;
+  }
+
+  /**
+   * Detects a socket that is open but silent (no ticks) or unresponsive (no pongs)
+   */
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    this.watchdogInterval = window.setInterval(() => {
+      const now = Date.now();
+      const { staleTimeout, pongTimeout } = this.options;
+
+      if (this.pongSupported && this.pendingPingAt !== null && now - this.pendingPingAt > pongTimeout) {
+        this.forceReconnect(`No pong received in ${Math.round(pongTimeout / 1000)}s`);
+        return;
+      }
+
+      if (staleTimeout !== null && this.symbols.size > 0) {
+        const lastActivity = this.lastTickAt !== null && this.connectedAt !== null
+          ? Math.max(this.lastTickAt, this.connectedAt)
+          : this.connectedAt;
+        if (lastActivity !== null && now - lastActivity > staleTimeout) {
+          this.stale = true;
+          this.forceReconnect(`Feed stale: no price tick in ${Math.round(staleTimeout / 1000)}s`);
+        }
+      }
+    }, WATCHDOG_INTERVAL);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdogInterval !== null) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
+    }
+  }
+
+  /**
+   * Drop the current socket and go through the normal backoff path
+   */
+  private forceReconnect(reason: string): void {
+    console.warn(`[WebSocketClient] ${reason}, reconnecting`);
+    this.stopPingInterval();
+    this.stopWatchdog();
+    this.closeSocket();
+    this.connectedAt = null;
+    this.handleError(reason);
+    this.attemptReconnect();
   }
 
   private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+    const { maxAttempts } = this.options;
+    if (maxAttempts !== null && this.reconnectAttempts >= maxAttempts) {
+      this.nextRetryAt = null;
       this.handleError('Max reconnection attempts reached');
       return;
     }
 
     this.reconnectAttempts++;
-    setTimeout(() => {
+    const delay = getReconnectDelay(this.reconnectAttempts, this.options);
+    this.nextRetryAt = Date.now() + delay;
+    this.updateStatus(this.buildStatus({ connected: false }));
+
+    this.clearReconnectTimeout();
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
       this.connect();
-    }, this.reconnectDelay * this.reconnectAttempts);
+    }, delay);
+  }
+
+  private clearReconnectTimeout(): void {
+    if (this.reconnectTimeout !== null) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
   }
 
   private handleError(message: string): void {
-    this.updateStatus({
+    this.updateStatus(this.buildStatus({ connected: false, error: message }));
+  }
+
+  private buildStatus(partial: Partial<ConnectionStatus>): ConnectionStatus {
+    return {
       connected: false,
-      source: this.currentSource,
-      lastUpdate: null,
-      error: message
-    });
+      source: this.lastSource,
+      sources: this.getEnabledSources(),
+      lastUpdate: this.lastTickAt,
+      error: null,
+      symbols: this.getSubscribedSymbols(),
+      lastSymbol: this.lastSymbol,
+      reconnectAttempt: this.reconnectAttempts,
+      nextRetryAt: this.nextRetryAt,
+      stale: this.stale,
+      ...partial
+    };
   }
 
   private updateStatus(status: ConnectionStatus): void {
@@ -161,18 +394,31 @@ export class WebSocketClient {
     }
   }
 
-  disconnect(): void {
-    this.stopPingInterval();
+  /**
+   * Close the socket without triggering the reconnect path
+   */
+  private closeSocket(): void {
     if (this.ws) {
-      this.ws.close();
+      const ws = this.ws;
       this.ws = null;
+      ws.close();
     }
-    this.currentSource = null;
+  }
+
+  disconnect(): void {
+    this.manuallyClosed = true;
+    this.stopPingInterval();
+    this.stopWatchdog();
+    this.clearReconnectTimeout();
+    this.closeSocket();
+    this.connectedAt = null;
+    this.lastSource = null;
     this.reconnectAttempts = 0;
+    this.nextRetryAt = null;
+    this.stale = false;
   }
 
   isConnected(): boolean {
     return this.ws?.readyState === WebSocket.OPEN;
   }
 }
-
@@ -1,17 +1,180 @@
-import { defineConfig } from 'vite';
-
-export default defineConfig({
-  server: {
-    port: 3000,
-    open: true,
-    proxy: {
-      '/api/polymarket': {
-        target: 'https://gamma-api.polymarket.com',
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api\/polymarket/, ''),
-        secure: true,
+import { loadEnv, type Plugin, type ProxyOptions } from 'vite';
+import { defineConfig } from 'vitest/config';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { resolveClobRequest, forwardClobRequest, ClobProxyError, DEFAULT_CLOB_HOST } from './api/clob-proxy/_endpoints.js';
+import placeOrder from './api/orders/place.js';
+import cancelOrder from './api/orders/cancel.js';
+import orderStatus from './api/orders/status.js';
+
+type VercelHandler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+const ORDER_HANDLERS: Record<string, VercelHandler> = {
+  place: placeOrder,
+  cancel: cancelOrder,
+  status: orderStatus,
+};
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : undefined);
+      } catch {
+        reject(new ClobProxyError(400, 'Body is not valid JSON'));
       }
-    }
-  }
-});
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Serves /api/clob-proxy in dev with the same validation as the Vercel function
+ */
+function clobProxy(host: string): Plugin {
+  return {
+    name: 'clob-proxy',
+    configureServer(server) {
+      server.middlewares.use('/api/clob-proxy', (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        // A bare /api/clob-proxy?side&token_id is the original price-only form
+        const endpoint = url.pathname.replace(/^\/+|\/+$/g, '') || 'price';
+        const send = (status: number, body: unknown) => {
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(body));
+        };
+
+        readJsonBody(req)
+          .then(body => forwardClobRequest(resolveClobRequest(req.method || 'GET', endpoint, url.searchParams, body), host))
+          .then(({ status, body }) => send(status, body))
+          .catch(error => {
+            if (error instanceof ClobProxyError) {
+              send(error.status, { error: error.message });
+            } else {
+              console.error('CLOB proxy error:', error);
+              send(500, { error: 'Failed to fetch from CLOB API', message: error instanceof Error ? error.message : 'Unknown error' });
+            }
+          });
+      });
+    },
+  };
+}
+
+/**
+ * The parts of Vercel's request and response helpers the order handlers use
+ */
+function toVercel(req: IncomingMessage, res: ServerResponse, url: URL, body: unknown): [VercelRequest, VercelResponse] {
+  const query: Record<string, string | string[]> = {};
+  url.searchParams.forEach((value, key) => {
+    const previous = query[key];
+    query[key] = previous === undefined ? value : [...(Array.isArray(previous) ? previous : [previous]), value];
+  });
+  const vercelReq = Object.assign(req, { query, body, cookies: {} }) as unknown as VercelRequest;
+  const vercelRes = Object.assign(res, {
+    status(code: number) {
+      res.statusCode = code;
+      return vercelRes;
+    },
+    json(data: unknown) {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(data));
+      return vercelRes;
+    },
+    send(data: unknown) {
+      res.end(data);
+      return vercelRes;
+    },
+  }) as unknown as VercelResponse;
+  return [vercelReq, vercelRes];
+}
 
+/**
+ * Serves /api/orders in dev by running the Vercel handlers themselves. They
+ * read their CLOB_* and ORDER_* settings from process.env, so those are
+ * taken from the .env files, and they trade on the same `clobHost` as the
+ * CLOB proxy.
+ */
+function orderService(env: Record<string, string>, clobHost: string): Plugin {
+  return {
+    name: 'order-service',
+    configureServer(server) {
+      Object.entries(env)
+        .filter(([key]) => key.startsWith('CLOB_') || key.startsWith('ORDER_'))
+        .forEach(([key, value]) => {
+          process.env[key] ??= value;
+        });
+      process.env.CLOB_HOST = clobHost;
+
+      server.middlewares.use('/api/orders', (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const handler = ORDER_HANDLERS[url.pathname.replace(/^\/+|\/+$/g, '')];
+        const send = (status: number, body: unknown) => {
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(body));
+        };
+        if (!handler) {
+          send(404, { error: 'Not found' });
+          return;
+        }
+
+        readJsonBody(req)
+          .then(body => handler(...toVercel(req, res, url, body)))
+          .catch(error => {
+            if (error instanceof ClobProxyError) {
+              send(error.status, { error: error.message });
+            } else {
+              console.error('Order service error:', error);
+              send(500, { error: 'Order service failed', message: error instanceof Error ? error.message : 'Unknown error' });
+            }
+          });
+      });
+    },
+  };
+}
+
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '');
+  // VITE_POLYMARKET_MOCK=true routes everything to the local mock stack (npm run mock)
+  const useMock = env.VITE_POLYMARKET_MOCK === 'true';
+  const mockTarget = `http://localhost:${env.MOCK_PORT || '4000'}`;
+  const clobHost = useMock ? `${mockTarget}/mock/clob` : env.CLOB_HOST || DEFAULT_CLOB_HOST;
+
+  const proxy: Record<string, ProxyOptions> = useMock
+    ? {
+        '/api/polymarket': {
+          target: mockTarget,
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/api\/polymarket/, '/mock/gamma'),
+        },
+        '/mock': {
+          target: mockTarget,
+          changeOrigin: true,
+          ws: true,
+        },
+      }
+    : {
+        '/api/polymarket': {
+          target: 'https://gamma-api.polymarket.com',
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/api\/polymarket/, ''),
+          secure: true,
+        }
+      };
+
+  return {
+    plugins: [clobProxy(clobHost), orderService(env, clobHost)],
+    server: {
+      port: 3000,
+      open: true,
+      proxy,
+    },
+    test: {
+      // Modules under test read localStorage and window at import
+      environment: 'happy-dom',
+    },
+  };
+});